@@ -20,9 +20,13 @@ local M = {}
 -- Re-export public API
 M.search = api.search
 M.search_best_match = match.search_best_match
+M.find_dlc_match = match.find_dlc_match
 M.get_auth_token = api.get_auth_token
 M.fetch_steam_import = api.fetch_steam_import
 M.fetch_game_by_id = api.fetch_game_by_id
+M.fetch_game_data = api.fetch_game_data
+M.ERROR_UNREACHABLE = api.ERROR_UNREACHABLE
+M.ERROR_INVALID_RESPONSE = api.ERROR_INVALID_RESPONSE
 
 -- Clear all cached values
 function M.clear_cache()
@@ -15,6 +15,19 @@ local M = {}
 M.TOKEN_TTL = 300    -- Auth token cache duration in seconds
 M.SEARCH_SIZE = 20   -- Number of results to request per search
 
+-- Game data fields shared by search results and the game detail endpoint.
+-- Times are in seconds; *_count fields are the number of user submissions.
+M.GAME_FIELDS = {
+    "comp_main", "comp_plus", "comp_100", "comp_all",
+    "comp_main_count", "comp_plus_count", "comp_100_count", "comp_all_count",
+    "invested_co", "invested_mp", "invested_co_count", "invested_mp_count",
+    "review_score"
+}
+
+-- Error codes for failed requests, passed on to the frontend by main.lua
+M.ERROR_UNREACHABLE = "hltb_unreachable"              -- Request failed, timed out or got a non-200 status
+M.ERROR_INVALID_RESPONSE = "hltb_invalid_response"    -- HLTB answered with data we can't read
+
 -- Exposed for testing; defaults to real http module
 M._http = http
 
@@ -129,6 +142,7 @@ local function get_search_request_headers(auth_token)
 end
 
 -- Search HLTB
+-- Returns the response data, or nil and an error code (ERROR_*) on failure
 function M.search(query, options)
     options = options or {}
     local page = options.page or 1
@@ -137,7 +151,7 @@ function M.search(query, options)
     local auth_token = M.get_auth_token()
     if not auth_token then
         logger:info("Failed to get auth token")
-        return nil
+        return nil, M.ERROR_UNREACHABLE
     end
 
     local headers = get_search_request_headers(auth_token)
@@ -153,45 +167,47 @@ function M.search(query, options)
 
     if not response then
         logger:info("Search request failed: " .. (err or "unknown"))
-        return nil
+        return nil, M.ERROR_UNREACHABLE
     end
 
     if response.status ~= 200 then
         logger:info("Search returned HTTP " .. response.status)
-        return nil
+        return nil, M.ERROR_UNREACHABLE
     end
 
     local success, data = pcall(json.decode, response.body)
     if not success or not data then
         logger:info("Invalid JSON response for search")
-        return nil
+        return nil, M.ERROR_INVALID_RESPONSE
     end
 
     if type(data.data) ~= "table" then
         logger:info("Unexpected JSON data for search results: data is not array")
-        return nil
+        return nil, M.ERROR_INVALID_RESPONSE
     end
 
     -- Validate each item has required fields
     for _, item in ipairs(data.data) do
         if type(item.game_id) ~= "number" then
             logger:info("Unexpected JSON data for search results: game_id is not number")
-            return nil
+            return nil, M.ERROR_INVALID_RESPONSE
         end
         if type(item.game_name) ~= "string" then
             logger:info("Unexpected JSON data for search results: game_name is not string")
-            return nil
+            return nil, M.ERROR_INVALID_RESPONSE
         end
         if type(item.comp_all_count) ~= "number" then
             logger:info("Unexpected JSON data for search results: comp_all_count is not number")
-            return nil
+            return nil, M.ERROR_INVALID_RESPONSE
         end
     end
 
     return data
 end
 
--- Fetch game data by game ID (for Steam ID verification)
+-- Fetch game data by game ID (for Steam ID verification and the details panel).
+-- Returns the raw HLTB game record, plus the surrounding game page data
+-- (pageProps.game.data), which also holds platformData and relationships.
 function M.fetch_game_data(game_id)
     local build_id = endpoints.get_build_id()
     if not build_id then
@@ -206,7 +222,7 @@ function M.fetch_game_data(game_id)
         ["referer"] = endpoints.REFERER_HEADER
     }
 
-    local response, err = http.get(url, {
+    local response, err = M._http.get(url, {
         headers = headers,
         timeout = endpoints.TIMEOUT
     })
@@ -262,7 +278,7 @@ function M.fetch_game_data(game_id)
         return nil
     end
 
-    return game_data
+    return game_data, data.pageProps.game.data
 end
 
 -- Fetch Steam import data from HLTB's Steam integration API.
@@ -331,13 +347,15 @@ end
 -- Fetch game completion times directly by HLTB game ID.
 --
 -- Uses HLTB's NextJS data endpoint to get full game details including
--- completion times (main, main+extras, completionist).
+-- completion times (main, main+extras, completionist, all styles, co-op,
+-- versus), per-category submission counts and the review score.
 --
 -- This is faster and more reliable than name-based search when we already
 -- know the HLTB game ID (e.g., from the Steam import cache).
 --
 -- API endpoint: GET https://howlongtobeat.com/_next/data/{buildId}/game/{gameId}.json
--- Returns: Normalized game data with game_id, game_name, comp_main, comp_plus, comp_100.
+-- Returns: Normalized game data with game_id, game_name and the GAME_FIELDS values,
+-- or nil, an error message and an error code (ERROR_*).
 function M.fetch_game_by_id(game_id)
     if not game_id then
         return nil, "No game ID provided"
@@ -347,7 +365,7 @@ function M.fetch_game_by_id(game_id)
 
     local build_id = endpoints.get_build_id()
     if not build_id then
-        return nil, "Could not get build ID"
+        return nil, "Could not get build ID", M.ERROR_UNREACHABLE
     end
 
     local url = endpoints.BASE_URL .. "_next/data/" .. build_id .. "/game/" .. game_id .. ".json"
@@ -363,40 +381,41 @@ function M.fetch_game_by_id(game_id)
     })
 
     if not response then
-        return nil, "Request failed: " .. (err or "unknown")
+        return nil, "Request failed: " .. (err or "unknown"), M.ERROR_UNREACHABLE
     end
 
     if response.status ~= 200 then
-        return nil, "HTTP " .. response.status
+        return nil, "HTTP " .. response.status, M.ERROR_UNREACHABLE
     end
 
     local success, data = pcall(json.decode, response.body)
     if not success or type(data) ~= "table" then
-        return nil, "Invalid JSON response"
+        return nil, "Invalid JSON response", M.ERROR_INVALID_RESPONSE
     end
 
     -- Navigate to the game data
     if type(data.pageProps) ~= "table" or
        type(data.pageProps.game) ~= "table" or
        type(data.pageProps.game.data) ~= "table" then
-        return nil, "Unexpected response structure"
+        return nil, "Unexpected response structure", M.ERROR_INVALID_RESPONSE
     end
 
     local game_array = data.pageProps.game.data.game
     if type(game_array) ~= "table" or #game_array == 0 then
-        return nil, "No game data found"
+        return nil, "No game data found", M.ERROR_INVALID_RESPONSE
     end
 
     local game = game_array[1]
 
     -- Return normalized game data matching search result format
-    return {
+    local result = {
         game_id = game.game_id,
-        game_name = game.game_name,
-        comp_main = game.comp_main,
-        comp_plus = game.comp_plus,
-        comp_100 = game.comp_100
-    }, nil
+        game_name = game.game_name
+    }
+    for _, field in ipairs(M.GAME_FIELDS) do
+        result[field] = game[field]
+    end
+    return result, nil
 end
 
 -- Clear cached auth token
@@ -15,6 +15,12 @@ M.RETRY_DISTANCE_RATIO = 0.2  -- Retry with simplified name if distance > 20% of
 M.RETRY_DISTANCE_MIN = 5      -- Minimum distance threshold for retry
 M.MAX_STEAM_ID_CHECKS = 3     -- Max candidates to check for Steam ID match
 
+-- How a match was found, returned alongside the match
+M.METHOD_EXACT = "exact"              -- Sanitized names are identical
+M.METHOD_STEAM_ID = "steam_id"        -- HLTB game page lists the same Steam app ID
+M.METHOD_LEVENSHTEIN = "levenshtein"  -- Closest name by edit distance (a guess)
+M.METHOD_DLC = "dlc"                  -- Picked from the DLC listed on the base game's page
+
 -- Determine if the match is poor enough to warrant retrying with a simplified name.
 -- Uses a dynamic threshold: 20% of name length or minimum 5 edits, whichever is greater.
 -- Longer names allow more edits before triggering retry (e.g., 30-char name allows 6 edits).
@@ -25,11 +31,15 @@ local function should_retry_with_simplified(distance, name_length)
 end
 
 -- Search and find best match for a given query
--- Returns: best_item, best_distance (or nil, nil if no results)
+-- Returns: best_item, best_distance, match_method (or nil, nil, nil if no results,
+-- plus the api error code if the search failed)
 local function find_best_match(query, steam_app_id)
-    local search_results = api.search(query)
-    if not search_results or #search_results.data == 0 then
-        return nil, nil
+    local search_results, search_err = api.search(query)
+    if not search_results then
+        return nil, nil, nil, search_err
+    end
+    if #search_results.data == 0 then
+        return nil, nil, nil
     end
 
     logger:info("Found " .. #search_results.data .. " search results for: " .. query)
@@ -40,7 +50,7 @@ local function find_best_match(query, steam_app_id)
     for _, item in ipairs(search_results.data) do
         if utils.sanitize_game_name(item.game_name):lower() == sanitized_query then
             logger:info("Found exact name match: " .. item.game_name)
-            return item, 0
+            return item, 0, M.METHOD_EXACT
         end
     end
 
@@ -71,7 +81,7 @@ local function find_best_match(query, steam_app_id)
             local game_data = api.fetch_game_data(candidate.item.game_id)
             if game_data and game_data.profile_steam == steam_app_id then
                 logger:info("Found match by Steam ID: " .. candidate.item.game_name)
-                return candidate.item, 0
+                return candidate.item, 0, M.METHOD_STEAM_ID
             end
         end
     end
@@ -79,10 +89,10 @@ local function find_best_match(query, steam_app_id)
     -- Return best Levenshtein match
     if #possible_choices > 0 then
         local best = possible_choices[1]
-        return best.item, best.distance
+        return best.item, best.distance, M.METHOD_LEVENSHTEIN
     end
 
-    return nil, nil
+    return nil, nil, nil
 end
 
 -- Find most compatible game data
@@ -101,11 +111,14 @@ end
 --
 -- We search with the original name first to avoid breaking the second category,
 -- then fall back to simplified name only if needed.
+--
+-- Returns: best_item, match_method (or nil if no match; nil, nil, error code if
+-- a search failed, so "no match" is only reported when HLTB actually said so)
 function M.search_best_match(app_name, steam_app_id)
     logger:info("Searching HLTB for: " .. app_name)
 
     -- Try with original (sanitized) name first
-    local best_item, best_distance = find_best_match(app_name, steam_app_id)
+    local best_item, best_distance, best_method, search_err = find_best_match(app_name, steam_app_id)
 
     -- Check if we should retry with simplified name
     local simplified_name = utils.simplify_game_name(app_name)
@@ -116,22 +129,57 @@ function M.search_best_match(app_name, steam_app_id)
 
     if should_retry then
         logger:info("Retrying search with simplified name: " .. simplified_name)
-        local retry_item, retry_distance = find_best_match(simplified_name, steam_app_id)
+        local retry_item, retry_distance, retry_method, retry_err = find_best_match(simplified_name, steam_app_id)
+        search_err = search_err or retry_err
 
         -- Use retry result if it's better (or if original had no results)
         if retry_item and (best_item == nil or retry_distance < best_distance) then
             best_item = retry_item
             best_distance = retry_distance
+            best_method = retry_method
         end
     end
 
     if best_item then
-        logger:info("Best match: " .. best_item.game_name .. " (distance: " .. (best_distance or 0) .. ")")
-        return best_item
+        logger:info("Best match: " .. best_item.game_name .. " (distance: " .. (best_distance or 0) .. ", method: " .. best_method .. ")")
+        return best_item, best_method
+    end
+
+    if search_err then
+        logger:info("Search failed for: " .. app_name .. " (" .. search_err .. ")")
+        return nil, nil, search_err
     end
 
     logger:info("No match found for: " .. app_name)
     return nil
 end
 
+-- Find the HLTB entry for a Steam DLC.
+--
+-- HLTB lists DLC on the base game's page, often under a different name than
+-- Steam uses, so searching for the DLC name directly tends to find the base
+-- game instead. We match the base game first, then pick the closest entry
+-- from its DLC list.
+--
+-- Returns: dlc_entry, similarity, base_item (or nil if no match)
+function M.find_dlc_match(dlc_name, base_name, base_app_id)
+    logger:info("Searching HLTB for DLC: " .. dlc_name .. " (base game: " .. base_name .. ")")
+
+    local base_item = M.search_best_match(utils.sanitize_game_name(base_name), base_app_id)
+    if not base_item then
+        return nil
+    end
+
+    local _, page = api.fetch_game_data(base_item.game_id)
+    local candidates = utils.build_dlc_list(page)
+    local dlc_entry, similarity = utils.match_dlc(dlc_name, base_name, candidates)
+    if not dlc_entry then
+        logger:info("No DLC match among " .. #candidates .. " DLC of " .. base_item.game_name)
+        return nil
+    end
+
+    logger:info("Found DLC match: " .. dlc_entry.game_name .. " (similarity: " .. similarity .. ")")
+    return dlc_entry, similarity, base_item
+end
+
 return M
@@ -7,6 +7,10 @@
     - levenshtein_distance: Calculate edit distance between strings
     - calculate_similarity: Compute 0.0-1.0 similarity score
     - seconds_to_hours: Convert HLTB time values to hours
+    - build_game_result: Convert HLTB game data to the frontend result format
+    - match_confidence: Score how certain a match is (0.0-1.0)
+    - build_dlc_list: Extract the DLC HLTB lists on a game page
+    - match_dlc: Pick the HLTB DLC entry for a Steam DLC name
 ]]
 
 local M = {}
@@ -188,4 +192,189 @@ function M.seconds_to_hours(seconds)
     return math.floor((seconds / 3600) * 10 + 0.5) / 10
 end
 
+-- Match methods that identify the game for certain, rather than by name similarity
+local CERTAIN_METHODS = {
+    exact = true,
+    steam_id = true,
+    hltb_id = true
+}
+
+-- Confidence (0.0 to 1.0) that a match is the game that was searched for.
+-- Exact names, Steam ID checks and direct ID lookups are certain; fuzzy
+-- matches score by name similarity.
+function M.match_confidence(match_method, searched_name, matched_name)
+    if CERTAIN_METHODS[match_method] then
+        return 1.0
+    end
+    if not searched_name or not matched_name then
+        return 0
+    end
+    return M.calculate_similarity(searched_name, matched_name)
+end
+
+-- Submission counts pass through as-is; missing counts become 0
+local function to_count(value)
+    if type(value) ~= "number" or value < 0 then
+        return 0
+    end
+    return math.floor(value)
+end
+
+-- Convert an HLTB game (search result or detail data) to the result sent to
+-- the frontend: times in hours, submission counts per category, and the
+-- review score (0-100, nil when nobody has rated the game yet).
+function M.build_game_result(game)
+    local review_score = game.review_score
+    if type(review_score) ~= "number" or review_score <= 0 then
+        review_score = nil
+    end
+
+    return {
+        game_id = game.game_id,
+        game_name = game.game_name,
+        comp_main = M.seconds_to_hours(game.comp_main),
+        comp_plus = M.seconds_to_hours(game.comp_plus),
+        comp_100 = M.seconds_to_hours(game.comp_100),
+        comp_all = M.seconds_to_hours(game.comp_all),
+        invested_co = M.seconds_to_hours(game.invested_co),
+        invested_mp = M.seconds_to_hours(game.invested_mp),
+        comp_main_count = to_count(game.comp_main_count),
+        comp_plus_count = to_count(game.comp_plus_count),
+        comp_100_count = to_count(game.comp_100_count),
+        comp_all_count = to_count(game.comp_all_count),
+        invested_co_count = to_count(game.invested_co_count),
+        invested_mp_count = to_count(game.invested_mp_count),
+        review_score = review_score
+    }
+end
+
+-- Text fields pass through; missing or empty text becomes nil
+local function to_text(value)
+    if type(value) ~= "string" or value == "" then
+        return nil
+    end
+    return value
+end
+
+-- Split HLTB's comma-separated lists ("PC, PlayStation 5") into an array
+local function to_list(value)
+    local items = {}
+    if type(value) ~= "string" then
+        return items
+    end
+    for item in value:gmatch("[^,]+") do
+        local trimmed = item:match("^%s*(.-)%s*$")
+        if trimmed ~= "" then
+            table.insert(items, trimmed)
+        end
+    end
+    return items
+end
+
+-- Build the full game profile for the frontend's details panel: everything
+-- build_game_result returns, plus release info, platforms with their own
+-- times, and the DLC and expansions HLTB lists for the game.
+--
+-- `game` is the HLTB game record, `page` the surrounding game page data
+-- (pageProps.game.data) that holds platformData and relationships. Either
+-- may be missing fields; the lists are then empty.
+function M.build_game_details(game, page)
+    local details = M.build_game_result(game)
+    details.game_alias = to_text(game.game_alias)
+    details.game_type = to_text(game.game_type)
+    details.release_date = to_text(game.release_world)
+    details.developer = to_text(game.profile_dev)
+    details.publisher = to_text(game.profile_pub)
+    details.genres = to_list(game.profile_genre)
+    details.platforms = to_list(game.profile_platform)
+    details.platform_times = {}
+    details.dlc = M.build_dlc_list(page)
+
+    if type(page) == "table" and type(page.platformData) == "table" then
+        for _, platform in ipairs(page.platformData) do
+            if type(platform) == "table" and to_text(platform.platform) then
+                table.insert(details.platform_times, {
+                    platform = platform.platform,
+                    comp_main = M.seconds_to_hours(platform.comp_main),
+                    comp_plus = M.seconds_to_hours(platform.comp_plus),
+                    comp_100 = M.seconds_to_hours(platform.comp_100),
+                    count = to_count(platform.count_comp)
+                })
+            end
+        end
+    end
+
+    return details
+end
+
+-- DLC and expansions from a game page's relationships, with times in hours.
+-- Returns an empty list when the page has none.
+function M.build_dlc_list(page)
+    local dlc = {}
+    if type(page) ~= "table" or type(page.relationships) ~= "table" then
+        return dlc
+    end
+
+    for _, related in ipairs(page.relationships) do
+        if type(related) == "table" and related.game_id then
+            table.insert(dlc, {
+                game_id = related.game_id,
+                game_name = related.game_name,
+                game_type = to_text(related.game_type),
+                comp_main = M.seconds_to_hours(related.comp_main),
+                comp_plus = M.seconds_to_hours(related.comp_plus),
+                comp_100 = M.seconds_to_hours(related.comp_100)
+            })
+        end
+    end
+    return dlc
+end
+
+M.DLC_MIN_SIMILARITY = 0.6  -- Below this, no DLC entry is considered a match
+
+-- DLC names usually repeat the base game's name ("Base Game - DLC Name").
+-- Reduce a name to the part after it, lowercased and without separators.
+local function dlc_suffix(name, base_name)
+    local normalized = M.sanitize_game_name(name):lower():gsub("–", "-"):gsub("—", "-")
+    local base = M.sanitize_game_name(base_name or ""):lower():gsub("–", "-"):gsub("—", "-")
+    if base ~= "" and normalized:sub(1, #base) == base then
+        normalized = normalized:sub(#base + 1)
+    end
+    return (normalized:gsub("^[%s%-:]+", ""))
+end
+
+-- Pick the entry in `candidates` (a build_dlc_list result) that best matches
+-- the Steam DLC name. Names are compared without the base game's name, so
+-- "Game: Wild Hunt - Blood and Wine" matches "Game - Blood and Wine".
+-- Returns the candidate and its similarity (0.0-1.0), or nil when no
+-- candidate reaches DLC_MIN_SIMILARITY.
+function M.match_dlc(dlc_name, base_name, candidates)
+    if not dlc_name or type(candidates) ~= "table" then
+        return nil
+    end
+
+    local wanted = dlc_suffix(dlc_name, base_name)
+    if wanted == "" then
+        return nil
+    end
+
+    local best, best_score = nil, 0
+    for _, candidate in ipairs(candidates) do
+        if candidate.game_name then
+            local score = math.max(
+                M.calculate_similarity(wanted, dlc_suffix(candidate.game_name, base_name)),
+                M.calculate_similarity(dlc_name, candidate.game_name)
+            )
+            if score > best_score then
+                best, best_score = candidate, score
+            end
+        end
+    end
+
+    if best_score < M.DLC_MIN_SIMILARITY then
+        return nil
+    end
+    return best, best_score
+end
+
 return M
@@ -12,13 +12,43 @@ local steam = require("steam")
 local steamhunters = require("steamhunters")
 local utils = require("hltb_utils")
 local name_fixes = require("name_fixes")
+local shared_state = require("shared_state")
+
+-- Error codes sent with failed responses (`code`), next to the human-readable
+-- `error`. Failed HLTB requests use hltb's ERROR_UNREACHABLE ("hltb_unreachable")
+-- and ERROR_INVALID_RESPONSE ("hltb_invalid_response").
+local ERROR_NAME_UNRESOLVED = "name_unresolved"        -- No source could name the Steam app
+local ERROR_IMPORT_UNAVAILABLE = "import_unavailable"  -- Steam import failed or the profile is private
+local ERROR_BAD_REQUEST = "bad_request"                -- Called without a required argument
+local ERROR_INTERNAL = "internal"                      -- Unexpected Lua error
+
+-- Failure response for the frontend. `extra` adds fields that help diagnose
+-- the failure, such as the name that was searched for.
+local function error_response(code, message, extra)
+    local response = { success = false, code = code, error = message }
+    for key, value in pairs(extra or {}) do
+        response[key] = value
+    end
+    return json.encode(response)
+end
+
+-- Successful lookup response. The result is also kept for the store pages
+-- (see shared_state.lua).
+local function lookup_response(app_id, data)
+    shared_state.record_result(app_id, data)
+    return json.encode({
+        success = true,
+        data = data
+    })
+end
 
--- Get game name with optional fallback sources
+-- Get game name with optional fallback sources.
+-- Also returns the Steam app details when the name came from the Steam API.
 local function get_game_name(app_id)
     -- 1. Try first-party Steam API
-    local name, err = steam.get_game_name(app_id)
-    if name then 
-        return name 
+    local details, err = steam.get_app_details(app_id)
+    if details and details.name then
+        return details.name, nil, details
     end
 
     logger:info("Steam API failed for " .. tostring(app_id) .. ": " .. (err or "unknown") .. ". Trying fallback...")
@@ -33,27 +63,81 @@ local function get_game_name(app_id)
     return nil, "All sources failed. Steam: " .. (err or "nil") .. ", SH: " .. (sh_err or "nil")
 end
 
+-- Steam describes DLC with type "dlc" and its base game in `fullgame`.
+-- Returns { app_id, name } of the base game, or nil for anything but DLC.
+local function get_base_game(app_details)
+    if not app_details or app_details.type ~= "dlc" or type(app_details.fullgame) ~= "table" then
+        return nil
+    end
+
+    local name = app_details.fullgame.name
+    if type(name) ~= "string" or name == "" then
+        return nil
+    end
+    return { app_id = tonumber(app_details.fullgame.appid), name = name }
+end
+
+-- Look up a Steam DLC among the DLC HLTB lists for its base game.
+-- Returns the result for the frontend, or nil if HLTB has no matching entry.
+local function find_dlc_result(dlc_name, base_game)
+    local dlc_entry, similarity, base_item = hltb.find_dlc_match(dlc_name, base_game.name, base_game.app_id)
+    if not dlc_entry then
+        return nil
+    end
+
+    local game, err = hltb.fetch_game_by_id(dlc_entry.game_id)
+    if not game then
+        logger:info("Fetch DLC by ID failed: " .. (err or "unknown"))
+        return nil
+    end
+
+    local data = utils.build_game_result(game)
+    data.searched_name = dlc_name
+    data.match_method = "dlc"
+    data.confidence = similarity
+    data.is_dlc = true
+    data.base_game_name = base_item.game_name
+    return data
+end
+
+-- All DLC HLTB lists for a game, so the frontend can show the owned ones
+local function list_dlc(hltb_id)
+    local _, page = hltb.fetch_game_data(hltb_id)
+    return utils.build_dlc_list(page)
+end
+
 -- Main function called by frontend
-function GetHltbData(app_id, app_name_from_ui)
+--
+-- When the Steam app is DLC, it is matched to the DLC entry on its base
+-- game's HLTB page first, and the result is flagged with is_dlc. For games,
+-- `include_dlc` adds the HLTB entries of all the game's DLC as `dlc`.
+--
+-- HLTB having no match is not a failure: the result then only holds
+-- searched_name. Failures carry one of the error codes above.
+--
+-- Parameters are ordered alphabetically to match Millennium's callable binding.
+function GetHltbData(app_id, app_name_from_ui, include_dlc)
     local success, result = pcall(function()
         logger:info("GetHltbData called for app_id: " .. tostring(app_id))
 
         -- Check for AppID-based name fix first
         local fixed_name = name_fixes[app_id]
         local search_name
+        local base_game
 
         if fixed_name then
             logger:info("Name fix (AppID " .. tostring(app_id) .. "): " .. fixed_name)
             search_name = fixed_name
         else
             -- No fix, get name from Steam
-            local game_name, name_err = get_game_name(app_id)
+            local game_name, name_err, app_details = get_game_name(app_id)
+            base_game = get_base_game(app_details)
             if not game_name then
-                if app_name_from_ui ~= "undefined" then
+                if type(app_name_from_ui) == "string" and app_name_from_ui ~= "" and app_name_from_ui ~= "undefined" then
                     game_name = app_name_from_ui
                 else
                     logger:error("Could not get game name: " .. (name_err or "unknown"))
-                    return json.encode({ success = false, error = "Could not get game name" })
+                    return error_response(ERROR_NAME_UNRESOLVED, "Could not get game name: " .. (name_err or "unknown"))
                 end 
             end
 
@@ -66,35 +150,44 @@ function GetHltbData(app_id, app_name_from_ui)
             end
         end
 
+        if base_game then
+            local dlc_data = find_dlc_result(search_name, base_game)
+            if dlc_data then
+                return lookup_response(app_id, dlc_data)
+            end
+            logger:info("No HLTB DLC entry found, searching by name")
+        end
+
         -- Search HLTB
-        local match = hltb.search_best_match(search_name, app_id)
+        local match, match_method, search_err = hltb.search_best_match(search_name, app_id)
+        if not match and search_err then
+            return error_response(search_err, "HLTB search failed", { searched_name = search_name })
+        end
         if not match then
             logger:info("No HLTB results for: " .. search_name)
-            return json.encode({
-                success = true,
-                data = { searched_name = search_name }
-            })
+            return lookup_response(app_id, { searched_name = search_name })
         end
 
-        local similarity = utils.calculate_similarity(search_name, match.game_name)
-        logger:info("Found match: " .. (match.game_name or "unknown") .. " (id: " .. tostring(match.game_id) .. ", similarity: " .. tostring(similarity) .. ")")
+        local confidence = utils.match_confidence(match_method, search_name, match.game_name)
+        logger:info("Found match: " .. (match.game_name or "unknown") .. " (id: " .. tostring(match.game_id) .. ", method: " .. tostring(match_method) .. ", confidence: " .. tostring(confidence) .. ")")
+
+        local data = utils.build_game_result(match)
+        data.searched_name = search_name
+        data.match_method = match_method
+        data.confidence = confidence
+        if base_game then
+            data.is_dlc = true
+            data.base_game_name = base_game.name
+        elseif include_dlc then
+            data.dlc = list_dlc(match.game_id)
+        end
 
-        return json.encode({
-            success = true,
-            data = {
-                searched_name = search_name,
-                game_id = match.game_id,
-                game_name = match.game_name,
-                comp_main = utils.seconds_to_hours(match.comp_main),
-                comp_plus = utils.seconds_to_hours(match.comp_plus),
-                comp_100 = utils.seconds_to_hours(match.comp_100)
-            }
-        })
+        return lookup_response(app_id, data)
     end)
 
     if not success then
         logger:error("GetHltbData error: " .. tostring(result))
-        return json.encode({ success = false, error = tostring(result) })
+        return error_response(ERROR_INTERNAL, tostring(result))
     end
 
     return result
@@ -115,7 +208,7 @@ function FetchSteamImport(steam_user_id)
         local games, err = hltb.fetch_steam_import(steam_user_id)
         if not games then
             logger:info("Steam import failed: " .. (err or "unknown"))
-            return json.encode({ success = false, error = err or "Unknown error" })
+            return error_response(ERROR_IMPORT_UNAVAILABLE, err or "Unknown error")
         end
 
         -- Extract just the steam_id -> hltb_id mappings
@@ -138,7 +231,7 @@ function FetchSteamImport(steam_user_id)
 
     if not success then
         logger:error("FetchSteamImport error: " .. tostring(result))
-        return json.encode({ success = false, error = tostring(result) })
+        return error_response(ERROR_INTERNAL, tostring(result))
     end
 
     return result
@@ -146,49 +239,180 @@ end
 
 -- Fetch HLTB completion times directly by HLTB game ID.
 --
+-- Returns the same extended data as GetHltbData (all play styles,
+-- submission counts and review score), without searched_name.
+--
 -- This is the fast path used when we have a cached ID mapping from the
 -- Steam import. Skips name-based search entirely, guaranteeing the correct
 -- game match.
 --
 -- Still fetches the Steam game name for logging, so we can verify the
--- mapping is correct in the logs.
+-- mapping is correct in the logs. The same Steam details tell whether the
+-- app is DLC; for games, `include_dlc` adds the game's DLC as in GetHltbData.
 --
 -- Parameters are ordered alphabetically to match Millennium's callable binding.
-function GetHltbDataById(app_id, hltb_id)
+function GetHltbDataById(app_id, hltb_id, include_dlc)
     local success, result = pcall(function()
         logger:info("GetHltbDataById called for app_id: " .. tostring(app_id))
 
         -- Get Steam name for logging
-        local game_name, name_err = get_game_name(app_id)
+        local game_name, name_err, app_details = get_game_name(app_id)
         if game_name then
             logger:info("Raw name: " .. game_name)
         else
             logger:info("Could not get Steam name: " .. (name_err or "unknown"))
         end
 
-        local match, err = hltb.fetch_game_by_id(hltb_id)
+        if not hltb_id then
+            return error_response(ERROR_BAD_REQUEST, "No game ID provided")
+        end
+
+        local match, err, err_code = hltb.fetch_game_by_id(hltb_id)
         if not match then
             logger:info("Fetch by ID failed: " .. (err or "unknown"))
-            return json.encode({ success = false, error = err or "Unknown error" })
+            return error_response(err_code or hltb.ERROR_UNREACHABLE, err or "Unknown error", { searched_name = game_name })
         end
 
         logger:info("Found game: " .. (match.game_name or "unknown"))
 
+        local data = utils.build_game_result(match)
+        data.match_method = "hltb_id"
+        data.confidence = utils.match_confidence("hltb_id")
+
+        local base_game = get_base_game(app_details)
+        if base_game then
+            data.is_dlc = true
+            data.base_game_name = base_game.name
+        elseif include_dlc then
+            data.dlc = list_dlc(hltb_id)
+        end
+
+        return lookup_response(app_id, data)
+    end)
+
+    if not success then
+        logger:error("GetHltbDataById error: " .. tostring(result))
+        return error_response(ERROR_INTERNAL, tostring(result))
+    end
+
+    return result
+end
+
+-- Fetch the full HLTB game profile for the frontend's details panel.
+--
+-- Returns everything GetHltbDataById does, plus release info, developer,
+-- publisher, genres, per-platform times and the DLC HLTB lists for the game.
+function GetHltbGameDetails(hltb_id)
+    local success, result = pcall(function()
+        logger:info("GetHltbGameDetails called for hltb_id: " .. tostring(hltb_id))
+
+        if not hltb_id then
+            return error_response(ERROR_BAD_REQUEST, "No game ID provided")
+        end
+
+        local game, page = hltb.fetch_game_data(hltb_id)
+        if not game then
+            return error_response(hltb.ERROR_UNREACHABLE, "Could not fetch game data")
+        end
+
+        local details = utils.build_game_details(game, page)
+        logger:info("Returning details for: " .. (details.game_name or "unknown") .. " with " .. #details.dlc .. " DLC")
         return json.encode({
             success = true,
-            data = {
-                game_id = match.game_id,
-                game_name = match.game_name,
-                comp_main = utils.seconds_to_hours(match.comp_main),
-                comp_plus = utils.seconds_to_hours(match.comp_plus),
-                comp_100 = utils.seconds_to_hours(match.comp_100)
-            }
+            data = details
         })
     end)
 
     if not success then
-        logger:error("GetHltbDataById error: " .. tostring(result))
-        return json.encode({ success = false, error = tostring(result) })
+        logger:error("GetHltbGameDetails error: " .. tostring(result))
+        return error_response(ERROR_INTERNAL, tostring(result))
+    end
+
+    return result
+end
+
+-- Search HLTB and return every candidate with its completion times.
+--
+-- Used by the frontend's "Wrong game?" picker when automatic matching picks
+-- the wrong game. No matching is applied here: the user chooses the game,
+-- and the frontend stores the choice as a local override.
+function SearchHltb(query)
+    local success, result = pcall(function()
+        logger:info("SearchHltb called for: " .. tostring(query))
+
+        if not query or query == "" then
+            return error_response(ERROR_BAD_REQUEST, "No search query provided")
+        end
+
+        local results, search_err = hltb.search(utils.sanitize_game_name(query))
+        if not results then
+            return error_response(search_err or hltb.ERROR_UNREACHABLE, "Search failed")
+        end
+
+        local candidates = {}
+        for _, item in ipairs(results.data) do
+            table.insert(candidates, {
+                game_id = item.game_id,
+                game_name = item.game_name,
+                comp_main = utils.seconds_to_hours(item.comp_main),
+                comp_plus = utils.seconds_to_hours(item.comp_plus),
+                comp_100 = utils.seconds_to_hours(item.comp_100)
+            })
+        end
+
+        logger:info("Returning " .. #candidates .. " search candidates")
+        return json.encode({
+            success = true,
+            data = candidates
+        })
+    end)
+
+    if not success then
+        logger:error("SearchHltb error: " .. tostring(result))
+        return error_response(ERROR_INTERNAL, tostring(result))
+    end
+
+    return result
+end
+
+-- Store the library's state (a backup bundle as JSON) for the store pages.
+--
+-- Called by the library frontend on startup and after settings or matches
+-- change; see shared_state.lua.
+function SetSharedState(state_json)
+    local success, result = pcall(function()
+        if type(state_json) ~= "string" or state_json == "" then
+            return error_response(ERROR_BAD_REQUEST, "No state provided")
+        end
+
+        shared_state.set_state(state_json)
+        logger:info("Shared state updated (" .. #state_json .. " bytes)")
+        return json.encode({ success = true })
+    end)
+
+    if not success then
+        logger:error("SetSharedState error: " .. tostring(result))
+        return error_response(ERROR_INTERNAL, tostring(result))
+    end
+
+    return result
+end
+
+-- Library state and lookup results that changed since `since`.
+--
+-- Called by the store pages on load. `since` is the `now` of their previous
+-- call (0 the first time); `state` is left out when it hasn't changed.
+function GetSharedState(since)
+    local success, result = pcall(function()
+        return json.encode({
+            success = true,
+            data = shared_state.get_changes(tonumber(since) or 0)
+        })
+    end)
+
+    if not success then
+        logger:error("GetSharedState error: " .. tostring(result))
+        return error_response(ERROR_INTERNAL, tostring(result))
     end
 
     return result
@@ -214,5 +438,9 @@ return {
     on_unload = on_unload,
     GetHltbData = GetHltbData,
     FetchSteamImport = FetchSteamImport,
-    GetHltbDataById = GetHltbDataById
+    GetHltbDataById = GetHltbDataById,
+    GetHltbGameDetails = GetHltbGameDetails,
+    SearchHltb = SearchHltb,
+    SetSharedState = SetSharedState,
+    GetSharedState = GetSharedState
 }
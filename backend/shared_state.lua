@@ -0,0 +1,70 @@
+--[[
+    State Shared With the Store Pages
+
+    The store pages run on the store's origin, so they can't read the
+    library's storage. The library publishes its state here as a backup
+    bundle (settings, result and ID caches, overrides; see
+    frontend/services/backup.ts), and every successful lookup result is
+    recorded. The store pages fetch what changed since their last visit.
+
+    Kept in memory only: the library publishes its state again on every
+    start, and results are recorded again as they are looked up.
+
+    Timestamps are milliseconds, like the frontend's cache entries.
+]]
+
+local M = {}
+
+local state_json = nil       -- Library's backup bundle, as published
+local state_updated_at = 0
+local results = {}           -- Cache entries by app ID string
+
+local function now_ms()
+    return os.time() * 1000
+end
+
+function M.set_state(json_string)
+    state_json = json_string
+    state_updated_at = now_ms()
+end
+
+-- Keep a lookup result in the frontend's cache entry shape
+function M.record_result(app_id, data)
+    if app_id == nil then
+        return
+    end
+    results[tostring(app_id)] = {
+        data = data,
+        timestamp = now_ms(),
+        notFound = false
+    }
+end
+
+-- State and results updated at or after `since`, plus `now` to pass as
+-- `since` next time. Timestamps have second precision, so an entry from the
+-- second of the previous call is sent again rather than missed.
+function M.get_changes(since)
+    since = since or 0
+
+    local changed = {}
+    for app_id, entry in pairs(results) do
+        if entry.timestamp >= since then
+            changed[app_id] = entry
+        end
+    end
+
+    return {
+        state = state_updated_at >= since and state_json or nil,
+        results = changed,
+        now = now_ms()
+    }
+end
+
+-- Clear the published state and recorded results
+function M.clear_cache()
+    state_json = nil
+    state_updated_at = 0
+    results = {}
+end
+
+return M
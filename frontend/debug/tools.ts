@@ -1,6 +1,28 @@
 import { log } from '../services/logger';
-import { LIBRARY_SELECTORS } from '../types';
+import { getSelectorPacks, validateSelectorPacks, clearDiscoveredPack } from '../injection/selectors';
+import { discoverGamePage, discoverInFixture, captureFixture, liveLayout, type DiscoveryReport } from '../injection/discovery';
+import { getRouteAppId } from '../injection/detector';
+import { getLastDiscoveryReport } from '../injection/observer';
+import { getDetectionStats } from '../injection/pageWatcher';
 import { clearCache, getCacheStats } from '../services/cache';
+import { exportStateJson, importState, type ImportMode } from '../services/backup';
+import { getStorageBackend } from '../storage';
+
+function logDiscoveryReport(report: DiscoveryReport): void {
+  log('=== Selector Discovery ===');
+  log('App ID:', report.appId, 'image:', report.imageSrc);
+  report.steps.forEach((step, i) => {
+    const layout = step.layout ? `${Math.round(step.layout.width)}x${Math.round(step.layout.height)} ${step.layout.position}` : 'no layout';
+    log(`  ancestor ${i + 1}: ${step.element} (${layout})${step.suitable ? ' <- container' : ''}`);
+  });
+  if (report.pack) {
+    log('Container selector:', report.pack.containerSelector);
+    log('Image selector:', report.pack.headerImageSelector);
+  } else {
+    log('Failed:', report.failure);
+  }
+  log('=== End Selector Discovery ===');
+}
 
 function logDOMStructure(doc: Document, selector?: string): void {
   log('=== DOM Structure Debug ===');
@@ -37,7 +59,49 @@ function logDOMStructure(doc: Document, selector?: string): void {
 export function exposeDebugTools(doc: Document): void {
   const debugObj = {
     logDOM: (selector?: string) => logDOMStructure(doc, selector),
-    getSelectors: () => LIBRARY_SELECTORS,
+    getSelectors: () => getSelectorPacks(),
+    validateSelectors: () => {
+      const report = validateSelectorPacks(doc);
+      report.forEach((pack) => {
+        log(
+          `${pack.matches ? 'OK  ' : 'FAIL'} ${pack.name} (${pack.source}):`,
+          `container ${pack.containerMatches}, header image ${pack.headerImageMatches}, fallback image ${pack.fallbackImageMatches}`
+        );
+      });
+      return report;
+    },
+    // Runs discovery on the current page, or on HTML saved with captureFixture()
+    discover: (fixtureHtml?: string) => {
+      const report = fixtureHtml ? discoverInFixture(fixtureHtml) : discoverGamePage(doc, liveLayout, getRouteAppId()).report;
+      logDiscoveryReport(report);
+      return report;
+    },
+    lastDiscovery: () => {
+      const report = getLastDiscoveryReport();
+      if (report) {
+        logDiscoveryReport(report);
+      } else {
+        log('Selector discovery has not run; known selectors are working');
+      }
+      return report;
+    },
+    // Detection runs per navigation, for the route on screen and recent ones
+    detectionStats: () => {
+      const stats = getDetectionStats();
+      [stats.current, ...stats.recent].forEach((navigation) => {
+        if (navigation) log(`${navigation.path ?? '(no route)'}: ${navigation.detections} runs${navigation.found ? ', box placed' : ''}`);
+      });
+      return stats;
+    },
+    captureFixture: () => {
+      const html = captureFixture(doc);
+      log(`Captured ${html.length} bytes. Save the returned string to replay with hltbDebug.discover(html).`);
+      return html;
+    },
+    clearDiscovered: () => {
+      clearDiscoveredPack();
+      log('Discovered selectors cleared');
+    },
     findImages: () => {
       const images = doc.querySelectorAll('img');
       images.forEach((img, i) => {
@@ -65,19 +129,33 @@ export function exposeDebugTools(doc: Document): void {
         log(`  [${i}] ${child.tagName}.${child.className.split(' ')[0] || '(no class)'}`);
       });
     },
-    clearCache: () => {
-      clearCache();
+    clearCache: async () => {
+      await clearCache();
       log('Cache cleared. Refresh or navigate to a game to fetch fresh data.');
     },
-    cacheStats: () => {
-      const stats = getCacheStats();
-      log('Cache entries:', stats.count);
+    cacheStats: async () => {
+      const stats = await getCacheStats();
+      log('Cache entries:', stats.count, `(${getStorageBackend() ?? 'not opened'})`);
       if (stats.oldestTimestamp) {
         const age = Math.round((Date.now() - stats.oldestTimestamp) / (1000 * 60 * 60 * 24));
         log('Oldest entry:', age, 'days old');
       }
       return stats;
     },
+    exportState: async () => {
+      const json = await exportStateJson();
+      log(`Exported ${json.length} bytes. Copy the returned string to back up or share.`);
+      return json;
+    },
+    importState: async (json: string, mode: ImportMode = 'merge') => {
+      const result = await importState(json, mode);
+      if (result.success) {
+        log(`Import (${mode}) succeeded. Navigate to a game to see the imported data.`);
+      } else {
+        log('Import failed:', result.errors);
+      }
+      return result;
+    },
   };
 
   // @ts-ignore
@@ -1,32 +1,258 @@
-import type { HltbGameResult } from '../types';
+import { STAT_KEYS, EXTENDED_STAT_KEYS, type DisplayData, type HltbError, type HltbGameResult, type StatKey, type ExtendedStatKey } from '../types';
 import type { PluginSettings } from '../services/settings';
+import { formatTime } from './format';
+import { t, formatNumber } from '../i18n';
 
 const CONTAINER_ID = 'hltb-for-millennium';
+export const TILE_CLASS = 'hltb-tile';
 
-function formatTime(hours: number | null | undefined): string {
-  if (!hours || hours === 0) return '--';
-  if (hours < 1) {
-    const mins = Math.round(hours * 60);
-    return `${mins}m`;
+// Callbacks for actions that need app context the display doesn't have
+export interface DisplayActions {
+  onWrongGame?: () => void;
+  onViewDetails?: () => void; // In-client details panel; without it, details open externally
+  onToggleCompleted?: () => void; // Mark or unmark the game as completed
+  onRetry?: () => void; // Look the game up again after a failure or miss
+  onCopyDiagnostics?: () => Promise<boolean>; // Resolves to whether the copy worked
+}
+
+// Times based on fewer submissions than this get a low-confidence marker
+const LOW_CONFIDENCE_SUBMISSIONS = 5;
+
+// Whether the expanded view is open in 'toggle' mode; kept across re-renders
+let extendedOpen = false;
+
+export function getDefaultStatLabel(key: StatKey | ExtendedStatKey): string {
+  return t(`stat.${key}`);
+}
+
+export function getStatLabel(settings: PluginSettings, key: StatKey | ExtendedStatKey): string {
+  // Custom labels only exist for the main columns
+  return settings.statLabels[key as StatKey]?.trim() || getDefaultStatLabel(key);
+}
+
+// Open the game's HLTB page in the system browser
+export function openExternalGamePage(gameId: number): void {
+  window.open(`steam://openurl_external/https://howlongtobeat.com/game/${gameId}`);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function formatPercent(playtime: number | null | undefined, hours: number | null | undefined): string {
+  if (playtime == null || !hours) return '--';
+  return `${Math.round((playtime / hours) * 100)}%`;
+}
+
+function getSubmissionCount(data: DisplayData | undefined, key: StatKey | ExtendedStatKey): number | undefined {
+  return data?.[`${key}_count`];
+}
+
+// Marker for times based on very few submissions. Entries cached before
+// counts were fetched have no count and get no marker.
+function createLowConfidenceHtml(data: DisplayData | undefined, key: StatKey | ExtendedStatKey): string {
+  const count = getSubmissionCount(data, key);
+  if (count === undefined || !data?.[key] || count >= LOW_CONFIDENCE_SUBMISSIONS) return '';
+  const title = escapeHtml(t('display.lowConfidence', { count }));
+  return `<span class="hltb-low-confidence" title="${title}">*</span>`;
+}
+
+// Table of every HLTB category with its submission count, plus the review score
+function createExtendedHtml(settings: PluginSettings, data: DisplayData): string {
+  const rows = [...STAT_KEYS, ...EXTENDED_STAT_KEYS]
+    .map((key) => {
+      const count = getSubmissionCount(data, key);
+      return `
+        <tr>
+          <td class="hltb-label">${escapeHtml(getStatLabel(settings, key))}</td>
+          <td class="hltb-extended-time">${formatTime(data[key], settings)}${createLowConfidenceHtml(data, key)}</td>
+          <td class="hltb-label">${count === undefined ? '' : t('display.submissions', { count })}</td>
+        </tr>`;
+    })
+    .join('');
+
+  const score = data.review_score != null
+    ? `<p class="hltb-label">${t('display.reviewScore', { score: data.review_score })}</p>`
+    : '';
+
+  return `
+    <div class="hltb-extended">
+      <table>${rows}</table>
+      ${score}
+    </div>
+  `;
+}
+
+// Warning for fuzzy matches below the configured confidence, with the matched
+// and searched names in the tooltip. Results cached before confidence was
+// reported have none and are never flagged.
+function createMatchWarningHtml(settings: PluginSettings, data?: DisplayData): string {
+  if (!data?.game_id || data.confidence === undefined) return '';
+  if (data.confidence >= settings.confidenceThreshold) return '';
+
+  const title = escapeHtml(t('display.fuzzyMatchTooltip', {
+    matched: data.game_name ?? '',
+    searched: data.searched_name,
+    confidence: Math.round(data.confidence * 100),
+  }));
+  return `<p class="hltb-label hltb-fuzzy-warning" title="${title}">⚠ ${t('display.fuzzyMatch')}</p>`;
+}
+
+// Age of a stale cached result, and whether HLTB can't be reached right now.
+// Empty for fresh results while online.
+function createCacheAgeHtml(data?: DisplayData): string {
+  if (!data || (data.cached_at === undefined && !data.offline)) return '';
+
+  const parts: string[] = [];
+  if (data.offline) parts.push(t('display.offline'));
+  if (data.cached_at !== undefined) {
+    const hours = Math.max(1, Math.floor((Date.now() - data.cached_at) / (60 * 60 * 1000)));
+    parts.push(hours < 24
+      ? t('display.cachedHoursAgo', { count: hours })
+      : t('display.cachedDaysAgo', { count: Math.floor(hours / 24) }));
   }
-  return `${hours}h`;
+  return `<p class="hltb-label hltb-cache-age">${escapeHtml(parts.join(' · '))}</p>`;
+}
+
+// Progress bar comparing the user's playtime against the chosen HLTB category.
+// Empty when disabled, or when either number is unknown.
+function createProgressHtml(settings: PluginSettings, data?: DisplayData): string {
+  if (settings.progressTarget === 'none' || !data) return '';
+
+  const playtime = data.playtime_hours;
+  const target = data[settings.progressTarget];
+  if (playtime == null || !target) return '';
+
+  const percent = Math.min(100, Math.round((playtime / target) * 100));
+  const remaining = Math.round((target - playtime) * 10) / 10;
+  const status = remaining > 0
+    ? t('display.timeLeft', { time: formatTime(remaining, settings) })
+    : t('display.targetReached');
+  // formatTime renders zero as "--", but "0h played" reads better here
+  const playedTime = playtime > 0 ? formatTime(playtime, settings) : t('time.hours', { value: formatNumber(0) });
+
+  return `
+    <div class="hltb-progress">
+      <div class="hltb-progress-bar"><div class="hltb-progress-fill" style="width: ${percent}%"></div></div>
+      <p class="hltb-label">${t('display.played', { time: playedTime })} · ${status}</p>
+    </div>
+  `;
+}
+
+// Main Story time at the user's pace, with what it is based on in the tooltip
+function createPaceHtml(settings: PluginSettings, data?: DisplayData): string {
+  const estimate = data?.personal_estimate;
+  if (!estimate) return '';
+
+  const title = escapeHtml(t('display.personalEstimateTooltip', {
+    count: estimate.sampleCount,
+    factor: formatNumber(estimate.factor),
+  }));
+  const text = t('display.personalEstimate', {
+    time: formatTime(estimate.hours, settings),
+    stat: getStatLabel(settings, 'comp_main'),
+  });
+  return `<p class="hltb-label hltb-pace" title="${title}">${escapeHtml(text)}</p>`;
+}
+
+// "DLC for ..." note for DLC, and for games the extra time of each owned DLC
+// in the first visible category, with the total
+function createDlcHtml(settings: PluginSettings, data?: DisplayData): string {
+  if (!data?.game_id) return '';
+  if (data.is_dlc) {
+    return data.base_game_name
+      ? `<p class="hltb-label hltb-dlc-note">${escapeHtml(t('display.dlcFor', { game: data.base_game_name }))}</p>`
+      : '';
+  }
+
+  const owned = data.owned_dlc ?? [];
+  if (owned.length === 0) return '';
+
+  const key = settings.statColumns[0] ?? 'comp_main';
+  const total = owned.reduce((sum, dlc) => sum + (dlc[key] ?? 0), 0);
+  const rows = owned
+    .map((dlc) => `
+      <tr>
+        <td class="hltb-label">${escapeHtml(dlc.game_name)}</td>
+        <td class="hltb-dlc-time">+${formatTime(dlc[key], settings)}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <div class="hltb-dlc">
+      <p class="hltb-label">${escapeHtml(t('display.ownedDlc', { count: owned.length, stat: getStatLabel(settings, key), time: formatTime(total, settings) }))}</p>
+      <table>${rows}</table>
+    </div>
+  `;
+}
+
+// Why there are no times (a failed lookup, or no HLTB match), with buttons to
+// retry and to copy diagnostics when the caller supports them
+function createStatusHtml(data?: DisplayData, actions?: DisplayActions, error?: HltbError): string {
+  let message: string;
+  if (error) {
+    message = t(`display.error.${error.code}`);
+  } else if (data && !data.game_id) {
+    message = t('display.noMatch', { name: data.searched_name });
+  } else {
+    return '';
+  }
+
+  const retryHtml = actions?.onRetry ? `<button class="hltb-details-btn hltb-retry-btn">${t('display.retry')}</button>` : '';
+  const copyHtml = actions?.onCopyDiagnostics
+    ? `<button class="hltb-details-btn hltb-diagnostics-btn">${t('display.copyDiagnostics')}</button>`
+    : '';
+  return `
+    <div class="hltb-status${error ? ' hltb-status-error' : ''}">
+      <p class="hltb-label">${escapeHtml(message)}</p>
+      ${retryHtml}${copyHtml}
+    </div>
+  `;
 }
 
 /**
  * Creates the HLTB display box.
  *
- * Display state is inferred from the `data` parameter:
- * - `undefined` → Loading (API call in progress, show "Loading...")
+ * Display state is inferred from the `data` and `error` parameters:
+ * - `error` → Failed (reason for the failure instead of the times)
+ * - `data` undefined → Loading (API call in progress, show "Loading...")
  * - `data` without `game_id` → Not found (show "Search HLTB" link)
  * - `data` with `game_id` → Found (show "View Details" button)
+ *
+ * Failed and not found displays offer `actions.onRetry` and
+ * `actions.onCopyDiagnostics` when given.
+ *
+ * When `data.playtime_hours` is set, the user's playtime is compared against
+ * `settings.progressTarget` as a progress bar, and optionally as a
+ * percentage under each stat.
+ *
+ * When `actions.onWrongGame` is given, a loaded display also offers a link
+ * to pick the HLTB game manually.
+ *
+ * Matches whose `data.confidence` is below `settings.confidenceThreshold`
+ * get a warning line explaining which HLTB game was matched.
+ *
+ * DLC (`data.is_dlc`) get a note naming the base game. For games,
+ * `data.owned_dlc` is listed under the times with each DLC's extra time.
+ *
+ * `data.personal_estimate` adds the Main Story time at the user's pace, and
+ * `actions.onToggleCompleted` a button to mark the game completed (see
+ * services/pace.ts).
+ *
+ * With `settings.extendedView` enabled, a found game also gets an expanded
+ * view with every HLTB category, submission counts and the review score,
+ * shown on hover or behind a "More" toggle.
  */
 export function createDisplay(
   doc: Document,
   settings: PluginSettings,
-  data?: HltbGameResult
+  data?: DisplayData,
+  actions?: DisplayActions,
+  error?: HltbError
 ): HTMLElement {
   const container = doc.createElement('div');
   container.id = CONTAINER_ID;
+  container.classList.add(`hltb-layout-${settings.displayLayout}`);
   if (settings.alignRight) {
     container.style.right = `${settings.horizontalOffset}px`;
     container.style.left = 'auto';
@@ -42,50 +268,107 @@ export function createDisplay(
     container.style.bottom = 'auto';
   }
 
-  const stats = [
-    { value: data?.comp_main, label: 'Main Story' },
-    { value: data?.comp_plus, label: 'Main + Extras' },
-    { value: data?.comp_100, label: 'Completionist' },
-  ];
+  const stats = settings.statColumns.map((key) => ({
+    value: data?.[key],
+    label: escapeHtml(getStatLabel(settings, key)),
+    marker: createLowConfidenceHtml(data, key),
+  }));
+
+  const playtime = data?.playtime_hours;
 
   const statsHtml = stats
     .map(stat => `
       <li>
-        <p class="hltb-gametime">${formatTime(stat.value)}</p>
+        <p class="hltb-gametime">${formatTime(stat.value, settings)}${stat.marker}</p>
         <p class="hltb-label">${stat.label}</p>
+        ${settings.showStatPercentages ? `<p class="hltb-percent">${formatPercent(playtime, stat.value)}</p>` : ''}
       </li>`)
     .join('');
 
   // Determine action column content based on state
   let actionHtml = '';
-  if (data === undefined) {
+  if (error) {
+    // Failed - the status row explains why
+  } else if (data === undefined) {
     // Loading state
-    actionHtml = `<li><span class="hltb-label">Loading...</span></li>`;
+    actionHtml = `<li><span class="hltb-label">${t('display.loading')}</span></li>`;
   } else if (!data.game_id) {
     // Not found - show search link
     actionHtml = settings.showViewDetails
-      ? `<li><button class="hltb-details-btn">Search HLTB</button></li>`
+      ? `<li><button class="hltb-details-btn hltb-view-details-btn">${t('display.searchHltb')}</button></li>`
       : '';
   } else {
     // Found - show view details button
     actionHtml = settings.showViewDetails
-      ? `<li><button class="hltb-details-btn">View Details</button></li>`
+      ? `<li><button class="hltb-details-btn hltb-view-details-btn">${t('display.viewDetails')}</button></li>`
       : '';
   }
 
+  const pickerHtml = data && actions?.onWrongGame
+    ? `<li><button class="hltb-details-btn hltb-wrong-game-btn">${t(data.game_id ? 'display.wrongGame' : 'display.pickGame')}</button></li>`
+    : '';
+
+  const completedHtml = data && actions?.onToggleCompleted
+    ? `<li><button class="hltb-details-btn hltb-completed-btn${data.completed ? ' hltb-completed' : ''}">${t(data.completed ? 'display.completed' : 'display.markCompleted')}</button></li>`
+    : '';
+
+  const extended = settings.extendedView !== 'off' && !!data?.game_id;
+  const moreHtml = extended && settings.extendedView === 'toggle'
+    ? `<li><button class="hltb-details-btn hltb-more-btn">${t(extendedOpen ? 'display.less' : 'display.more')}</button></li>`
+    : '';
+
   container.innerHTML = `
     <div class="hltb-info">
-      <ul>${statsHtml}${actionHtml}</ul>
+      ${createMatchWarningHtml(settings, data)}
+      ${error ? '' : `<ul>${statsHtml}${actionHtml}${pickerHtml}${completedHtml}${moreHtml}</ul>`}
+      ${createStatusHtml(data, actions, error)}
+      ${createPaceHtml(settings, data)}
+      ${createProgressHtml(settings, data)}
+      ${createDlcHtml(settings, data)}
+      ${extended && data ? createExtendedHtml(settings, data) : ''}
+      ${createCacheAgeHtml(data)}
     </div>
   `;
 
+  if (extended) {
+    container.classList.add(settings.extendedView === 'hover' ? 'hltb-extended-hover' : 'hltb-extended-toggle');
+    container.classList.toggle('hltb-expanded', extendedOpen);
+    const moreButton = container.querySelector('.hltb-more-btn');
+    moreButton?.addEventListener('click', () => {
+      extendedOpen = !extendedOpen;
+      container.classList.toggle('hltb-expanded', extendedOpen);
+      moreButton.textContent = t(extendedOpen ? 'display.less' : 'display.more');
+    });
+  }
+
+  if (actions?.onWrongGame) {
+    container.querySelector('.hltb-wrong-game-btn')?.addEventListener('click', actions.onWrongGame);
+  }
+
+  if (actions?.onToggleCompleted) {
+    container.querySelector('.hltb-completed-btn')?.addEventListener('click', actions.onToggleCompleted);
+  }
+
+  if (actions?.onRetry) {
+    container.querySelector('.hltb-retry-btn')?.addEventListener('click', actions.onRetry);
+  }
+
+  const onCopyDiagnostics = actions?.onCopyDiagnostics;
+  if (onCopyDiagnostics) {
+    const button = container.querySelector('.hltb-diagnostics-btn');
+    button?.addEventListener('click', async () => {
+      const copied = await onCopyDiagnostics();
+      button.textContent = t(copied ? 'display.copied' : 'display.copyFailed');
+    });
+  }
+
   // Attach click handler
   if (data && settings.showViewDetails) {
-    const button = container.querySelector('.hltb-details-btn');
+    const button = container.querySelector('.hltb-view-details-btn');
     if (data.game_id) {
-      button?.addEventListener('click', () => {
-        window.open(`steam://openurl_external/https://howlongtobeat.com/game/${data.game_id}`);
-      });
+      const gameId = data.game_id;
+      const onViewDetails = settings.detailsOpenExternal ? undefined : actions?.onViewDetails;
+      button?.addEventListener('click', () => (onViewDetails ? onViewDetails() : openExternalGamePage(gameId)));
     } else {
       button?.addEventListener('click', () => {
         const query = encodeURIComponent(data.searched_name);
@@ -104,3 +387,42 @@ export function getExistingDisplay(doc: Document): HTMLElement | null {
 export function removeExistingDisplay(doc: Document): void {
   doc.getElementById(CONTAINER_ID)?.remove();
 }
+
+// One-line list of the visible columns, for rows such as the store wishlist
+export function createInlineTimes(doc: Document, settings: PluginSettings, data: HltbGameResult): HTMLElement {
+  const element = doc.createElement('span');
+  element.className = 'hltb-inline';
+  element.innerHTML = settings.statColumns
+    .map((key) => `<span class="hltb-label">${escapeHtml(getStatLabel(settings, key))}</span> ${formatTime(data[key], settings)}`)
+    .join(' · ');
+  return element;
+}
+
+/**
+ * Compact display for a library grid tile: a single time ('badge') or a card
+ * with every visible column that appears while the tile is hovered ('hover').
+ */
+export function createTileDisplay(doc: Document, settings: PluginSettings, data: HltbGameResult): HTMLElement {
+  const element = doc.createElement('div');
+  element.className = `${TILE_CLASS} hltb-tile-${settings.tileBadgePosition}`;
+
+  if (settings.tileBadges === 'hover') {
+    element.classList.add('hltb-tile-card');
+    const rows = settings.statColumns
+      .map(
+        (key) => `
+          <tr>
+            <td class="hltb-label">${escapeHtml(getStatLabel(settings, key))}</td>
+            <td>${formatTime(data[key], settings)}</td>
+          </tr>
+        `
+      )
+      .join('');
+    element.innerHTML = `<table>${rows}</table>`;
+  } else {
+    element.classList.add('hltb-tile-badge');
+    element.textContent = formatTime(data[settings.tileBadgeStat], settings);
+  }
+
+  return element;
+}
@@ -0,0 +1,43 @@
+import type { PluginSettings } from '../services/settings';
+import { t, formatNumber } from '../i18n';
+
+export type TimeFormatOptions = Pick<PluginSettings, 'timeFormat' | 'hoursPerDay'>;
+
+const DEFAULT_FORMAT: TimeFormatOptions = { timeFormat: 'decimal', hoursPerDay: 2 };
+
+/**
+ * Formats an HLTB time (in hours) for display.
+ *
+ * - `decimal` → "12.5h" (HLTB's own precision), "45m" under an hour
+ * - `h`       → "13h", "45m" under an hour
+ * - `hm`      → "12h 30m"
+ * - `days`    → "6.3 days", at `hoursPerDay` hours of play per day
+ *
+ * Examples are in English; units and decimal separators follow the active
+ * locale. Missing or zero times render as "--".
+ */
+export function formatTime(hours: number | null | undefined, options: TimeFormatOptions = DEFAULT_FORMAT): string {
+  if (!hours || hours === 0) return '--';
+
+  const minutes = () => t('time.minutes', { value: formatNumber(Math.round(hours * 60)) });
+
+  switch (options.timeFormat) {
+    case 'h':
+      return hours < 1 ? minutes() : t('time.hours', { value: formatNumber(Math.round(hours)) });
+    case 'hm': {
+      const totalMinutes = Math.round(hours * 60);
+      const h = Math.floor(totalMinutes / 60);
+      const m = totalMinutes % 60;
+      if (h === 0) return t('time.minutes', { value: formatNumber(m) });
+      if (m === 0) return t('time.hours', { value: formatNumber(h) });
+      return t('time.hoursMinutes', { hours: formatNumber(h), minutes: formatNumber(m) });
+    }
+    case 'days': {
+      const hoursPerDay = options.hoursPerDay > 0 ? options.hoursPerDay : DEFAULT_FORMAT.hoursPerDay;
+      const days = Math.round((hours / hoursPerDay) * 10) / 10;
+      return t('time.days', { value: formatNumber(days), count: days });
+    }
+    default:
+      return hours < 1 ? minutes() : t('time.hours', { value: formatNumber(hours) });
+  }
+}
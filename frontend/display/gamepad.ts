@@ -0,0 +1,141 @@
+/**
+ * GamepadUI Display
+ *
+ * Big Picture and the Steam Deck are driven by a controller and often viewed
+ * from a distance, so the game page box there differs from desktop:
+ *
+ * - Larger type and buttons (`.hltb-gamepad` styles)
+ * - Position from the gamepad* settings, kept inside the screen's safe areas
+ * - Buttons take controller focus. The box's DOM buttons are outside
+ *   GamepadUI's focus navigation, so the D-pad never reaches them on its
+ *   own: clicking the left stick (L3) moves focus into the box. There A
+ *   activates the focused button, left/right move between buttons, and B
+ *   or up/down hand focus back to where it was. Keyboard: Enter, Space and
+ *   the arrow keys.
+ */
+
+import { GamepadButton } from '@steambrew/client';
+import type { DisplayData, HltbError } from '../types';
+import type { PluginSettings } from '../services/settings';
+import { createDisplay, type DisplayActions } from './components';
+
+const GAMEPAD_CLASS = 'hltb-gamepad';
+const BUTTON_SELECTOR = '.hltb-details-btn';
+const FOCUS_CLASS = 'gpfocus';
+const EDITING_CLASS = 'hltb-editing';
+
+// GamepadUI dispatches this on the element that has controller focus
+const GAMEPAD_BUTTON_EVENT = 'vgp_onbuttondown';
+
+// Documents with the controller listener installed
+const controllerDocs = new WeakSet<Document>();
+// Where controller focus was before it moved into the box
+let returnFocus: HTMLElement | null = null;
+
+// The box is positioned the same way as on desktop, from the gamepad settings
+function withGamepadPosition(settings: PluginSettings): PluginSettings {
+  return {
+    ...settings,
+    horizontalOffset: settings.gamepadHorizontalOffset,
+    verticalOffset: settings.gamepadVerticalOffset,
+    alignRight: settings.gamepadAlignRight,
+    alignBottom: settings.gamepadAlignBottom,
+  };
+}
+
+// Push the offsets in by the safe area inset on each aligned edge (the
+// Deck's rounded corners, or a TV's overscan)
+function applySafeAreas(container: HTMLElement, settings: PluginSettings): void {
+  const horizontal = settings.gamepadAlignRight ? 'right' : 'left';
+  const vertical = settings.gamepadAlignBottom ? 'bottom' : 'top';
+  container.style[horizontal] = `calc(${settings.gamepadHorizontalOffset}px + env(safe-area-inset-${horizontal}, 0px))`;
+  container.style[vertical] = `calc(${settings.gamepadVerticalOffset}px + env(safe-area-inset-${vertical}, 0px))`;
+}
+
+function getButtons(box: HTMLElement): HTMLButtonElement[] {
+  return Array.from(box.querySelectorAll<HTMLButtonElement>(BUTTON_SELECTOR));
+}
+
+function leaveBox(): void {
+  const target = returnFocus;
+  returnFocus = null;
+  if (target?.isConnected) {
+    target.focus();
+  } else {
+    (target?.ownerDocument.activeElement as HTMLElement | null)?.blur();
+  }
+}
+
+// Controller input arrives at whatever GamepadUI has focused, so it is taken
+// at the document: L3 enters the box, and while a box button has focus every
+// button press is handled here instead of by GamepadUI
+function onGamepadButton(e: Event): void {
+  const doc = e.currentTarget as Document;
+  const box = doc.querySelector<HTMLElement>(`.${GAMEPAD_CLASS}`);
+  // The layout editor handles input while the box is being moved
+  if (!box || box.classList.contains(EDITING_CLASS)) return;
+
+  const button = (e as CustomEvent<{ button?: number }>).detail?.button;
+  const buttons = getButtons(box);
+  const focused = buttons.indexOf(doc.activeElement as HTMLButtonElement);
+
+  if (focused === -1) {
+    if (button !== GamepadButton.LSTICK_CLICK || buttons.length === 0) return;
+    returnFocus = doc.activeElement as HTMLElement | null;
+    buttons[0].focus();
+  } else if (button === GamepadButton.OK) {
+    buttons[focused].click();
+  } else if (button === GamepadButton.DIR_LEFT) {
+    buttons[Math.max(0, focused - 1)].focus();
+  } else if (button === GamepadButton.DIR_RIGHT) {
+    buttons[Math.min(buttons.length - 1, focused + 1)].focus();
+  } else if (button === GamepadButton.CANCEL || button === GamepadButton.DIR_UP || button === GamepadButton.DIR_DOWN) {
+    leaveBox();
+  } else {
+    return;
+  }
+  e.preventDefault();
+  e.stopImmediatePropagation();
+}
+
+function setupFocus(container: HTMLElement): void {
+  const doc = container.ownerDocument;
+  if (!controllerDocs.has(doc)) {
+    controllerDocs.add(doc);
+    doc.addEventListener(GAMEPAD_BUTTON_EVENT, onGamepadButton, true);
+  }
+
+  const buttons = getButtons(container);
+  buttons.forEach((button, i) => {
+    button.tabIndex = 0;
+    button.addEventListener('focus', () => button.classList.add(FOCUS_CLASS));
+    button.addEventListener('blur', () => button.classList.remove(FOCUS_CLASS));
+
+    button.addEventListener('keydown', (e) => {
+      if (e.key === 'ArrowLeft' && i > 0) {
+        buttons[i - 1].focus();
+      } else if (e.key === 'ArrowRight' && i < buttons.length - 1) {
+        buttons[i + 1].focus();
+      } else {
+        // Enter and Space already click a focused <button>
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    });
+  });
+}
+
+export function createGamepadDisplay(
+  doc: Document,
+  settings: PluginSettings,
+  data?: DisplayData,
+  actions?: DisplayActions,
+  error?: HltbError
+): HTMLElement {
+  const container = createDisplay(doc, withGamepadPosition(settings), data, actions, error);
+  container.classList.add(GAMEPAD_CLASS);
+  applySafeAreas(container, settings);
+  setupFocus(container);
+  return container;
+}
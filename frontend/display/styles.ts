@@ -1,4 +1,28 @@
-const HLTB_STYLES = `
+import type { PluginSettings } from '../services/settings';
+import { resolveTheme, toRgba, type ResolvedTheme } from './themes';
+
+/**
+ * Style sheet for the box and library tiles, generated from the resolved
+ * theme. Colors, background, text sizes and corner radius come from the
+ * theme; the layout variants add .hltb-layout-* rules.
+ */
+function createStyles(theme: ResolvedTheme): string {
+  const px = (size: number) => `${Math.round(size * theme.fontScale * 10) / 10}px`;
+  const background = toRgba(theme.background, theme.backgroundAlpha);
+  // Text over a transparent box needs a shadow to stay readable on bright artwork
+  const shadow = theme.textShadow
+    ? `
+
+.hltb-info p,
+.hltb-details-btn,
+.hltb-extended td,
+.hltb-dlc td,
+.hltb-tile {
+  text-shadow: 0 1px 3px rgba(0, 0, 0, 0.9);
+}`
+    : '';
+
+  return `
 #hltb-for-millennium {
   position: absolute;
   width: fit-content;
@@ -6,7 +30,8 @@ const HLTB_STYLES = `
 }
 
 .hltb-info {
-  background: rgba(14, 20, 27, 0.85);
+  background: ${background};
+  border-radius: ${theme.cornerRadius}px;
   padding: 8px 0;
 }
 
@@ -26,25 +51,51 @@ const HLTB_STYLES = `
 
 .hltb-info p {
   margin: 0;
-  color: #ffffff;
-}
+  color: ${theme.text};
+}${shadow}
 
 .hltb-gametime {
-  font-size: 16px;
+  font-size: ${px(16)};
   font-weight: bold;
 }
 
 .hltb-label {
   text-transform: uppercase;
-  font-size: 10px;
+  font-size: ${px(10)};
   opacity: 0.7;
 }
 
+.hltb-percent {
+  font-size: ${px(10)};
+  opacity: 0.7;
+}
+
+.hltb-progress {
+  padding: 6px 30px 0;
+}
+
+.hltb-progress-bar {
+  height: 4px;
+  background: ${toRgba(theme.text, 0.15)};
+  border-radius: 2px;
+  overflow: hidden;
+}
+
+.hltb-progress-fill {
+  height: 100%;
+  background: ${theme.accent};
+}
+
+.hltb-progress .hltb-label {
+  margin-top: 4px;
+  text-align: center;
+}
+
 .hltb-details-btn {
   background: transparent;
   border: none;
-  color: #1a9fff;
-  font-size: 10px;
+  color: ${theme.accent};
+  font-size: ${px(10)};
   font-weight: bold;
   text-transform: uppercase;
   cursor: pointer;
@@ -52,18 +103,269 @@ const HLTB_STYLES = `
 }
 
 .hltb-details-btn:hover {
-  color: #ffffff;
+  color: ${theme.text};
+}
+
+.hltb-wrong-game-btn {
+  color: ${theme.muted};
+}
+
+.hltb-status {
+  text-align: center;
+  padding: 4px 30px 0;
+}
+
+.hltb-status-error .hltb-label {
+  color: #e0a030;
+  opacity: 1;
+}
+
+.hltb-completed-btn.hltb-completed {
+  color: #59bf40;
+}
+
+.hltb-info .hltb-pace {
+  text-align: center;
+  padding-top: 4px;
+  cursor: help;
+}
+
+.hltb-info .hltb-fuzzy-warning {
+  color: #e0a030;
+  opacity: 1;
+  text-align: center;
+  padding-bottom: 4px;
+  cursor: help;
+}
+
+.hltb-low-confidence {
+  color: #e0a030;
+  margin-left: 2px;
+  cursor: help;
+}
+
+.hltb-extended {
+  display: none;
+  padding: 6px 30px 0;
+}
+
+.hltb-extended-hover:hover .hltb-extended,
+.hltb-extended-toggle.hltb-expanded .hltb-extended {
+  display: block;
+}
+
+.hltb-extended table {
+  width: 100%;
+  border-collapse: collapse;
+}
+
+.hltb-extended td {
+  padding: 1px 6px;
+  color: ${theme.text};
+}
+
+.hltb-extended-time {
+  font-weight: bold;
+  text-align: right;
+  white-space: nowrap;
+}
+
+.hltb-extended > .hltb-label {
+  margin-top: 4px;
+  text-align: center;
+}
+
+.hltb-info .hltb-dlc-note {
+  text-align: center;
+  padding-bottom: 4px;
+}
+
+.hltb-dlc {
+  padding: 6px 30px 0;
+}
+
+.hltb-info .hltb-cache-age {
+  text-align: center;
+  padding-top: 4px;
+  opacity: 0.5;
+}
+
+.hltb-dlc table {
+  width: 100%;
+  border-collapse: collapse;
+}
+
+.hltb-dlc td {
+  padding: 1px 6px;
+  color: ${theme.text};
+}
+
+.hltb-dlc-time {
+  font-weight: bold;
+  text-align: right;
+  white-space: nowrap;
+}
+
+.hltb-dlc > .hltb-label {
+  text-align: center;
+}
+
+.hltb-editing {
+  outline: 2px dashed ${theme.accent};
+  outline-offset: 2px;
+  cursor: move;
+  touch-action: none;
+  user-select: none;
+}
+
+.hltb-edit-bar {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 8px;
+  margin-top: 4px;
+  padding: 2px 8px;
+  background: ${toRgba(theme.background, Math.max(theme.backgroundAlpha, 0.85))};
+  border-radius: ${theme.cornerRadius}px;
+}
+
+.hltb-edit-bar .hltb-label {
+  color: ${theme.text};
+}
+
+.hltb-gamepad .hltb-info {
+  padding: 12px 0;
+  border-radius: ${theme.cornerRadius || 4}px;
+}
+
+.hltb-gamepad .hltb-gametime {
+  font-size: ${px(24)};
+}
+
+.hltb-gamepad .hltb-label,
+.hltb-gamepad .hltb-percent {
+  font-size: ${px(14)};
+}
+
+.hltb-gamepad .hltb-details-btn {
+  font-size: ${px(14)};
+  padding: 8px 14px;
+  border-radius: 4px;
+  outline: none;
+}
+
+.hltb-gamepad .hltb-details-btn:focus,
+.hltb-gamepad .hltb-details-btn.gpfocus {
+  background: ${theme.text};
+  color: ${theme.background};
+  box-shadow: 0 0 0 2px ${theme.accent};
+}
+
+.hltb-tile {
+  position: absolute;
+  z-index: 10;
+  pointer-events: none;
+  background: ${background};
+  color: ${theme.text};
+  border-radius: ${Math.max(theme.cornerRadius, 3)}px;
+}
+
+.hltb-tile-top-left { top: 4px; left: 4px; }
+.hltb-tile-top-right { top: 4px; right: 4px; }
+.hltb-tile-bottom-left { bottom: 4px; left: 4px; }
+.hltb-tile-bottom-right { bottom: 4px; right: 4px; }
+
+.hltb-tile-badge {
+  padding: 2px 6px;
+  font-size: ${px(11)};
+  font-weight: bold;
+}
+
+.hltb-tile-card {
+  display: none;
+  padding: 4px 8px;
+  font-size: ${px(11)};
+}
+
+[draggable="true"]:hover .hltb-tile-card {
+  display: block;
+}
+
+.hltb-tile-card table {
+  border-collapse: collapse;
+}
+
+.hltb-tile-card td {
+  padding: 1px 4px;
+  white-space: nowrap;
+}
+
+.hltb-tile-card .hltb-label {
+  font-size: ${px(9)};
+}
+
+.hltb-layout-compact .hltb-info {
+  padding: 4px 0;
+}
+
+.hltb-layout-compact .hltb-info ul {
+  padding: 0 8px;
+}
+
+.hltb-layout-compact .hltb-info ul li {
+  padding: 0 6px;
+}
+
+.hltb-layout-compact .hltb-gametime {
+  font-size: ${px(13)};
+}
+
+.hltb-layout-compact .hltb-progress,
+.hltb-layout-compact .hltb-extended,
+.hltb-layout-compact .hltb-dlc,
+.hltb-layout-compact .hltb-status {
+  padding-left: 12px;
+  padding-right: 12px;
+}
+
+.hltb-layout-vertical .hltb-info ul {
+  flex-direction: column;
+  align-items: stretch;
+  padding: 0 12px;
+}
+
+.hltb-layout-vertical .hltb-info ul li {
+  display: flex;
+  align-items: baseline;
+  gap: 12px;
+  padding: 2px 0;
+}
+
+.hltb-layout-vertical .hltb-info ul li .hltb-label {
+  order: -1;
+  margin-right: auto;
+}
+
+.hltb-layout-vertical .hltb-info ul li:has(button) {
+  justify-content: center;
 }
 `;
+}
 
 const STYLE_ID = 'hltb-styles';
 
-export function injectStyles(doc: Document): void {
-  if (doc.getElementById(STYLE_ID)) return;
+// Adds the style sheet, or regenerates it when the theme settings changed
+export function injectStyles(doc: Document, settings: PluginSettings): void {
+  const css = createStyles(resolveTheme(settings));
+  const existing = doc.getElementById(STYLE_ID);
+  if (existing) {
+    if (existing.textContent !== css) existing.textContent = css;
+    return;
+  }
 
   const style = doc.createElement('style');
   style.id = STYLE_ID;
-  style.textContent = HLTB_STYLES;
+  style.textContent = css;
   doc.head.appendChild(style);
 }
 
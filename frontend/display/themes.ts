@@ -0,0 +1,63 @@
+/**
+ * Display Themes
+ *
+ * Built-in color sets for the HLTB box and library tiles. The Appearance
+ * settings pick a theme and can override its colors, background opacity,
+ * text size and corner radius; resolveTheme() merges both into the values
+ * the style sheet is generated from (see styles.ts).
+ */
+
+import type { PluginSettings, ThemeId } from '../services/settings';
+
+export interface ThemeColors {
+  background: string; // '#rrggbb'
+  text: string;
+  accent: string;     // Buttons and the progress bar
+  muted: string;      // Secondary buttons
+}
+
+interface Theme extends ThemeColors {
+  transparent?: boolean; // No background; text gets a shadow to stay readable
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  default: { background: '#0e141b', text: '#ffffff', accent: '#1a9fff', muted: '#8f98a0' },
+  light: { background: '#f2f4f7', text: '#1b2838', accent: '#0b6fc7', muted: '#5c6773' },
+  transparent: { background: '#000000', text: '#ffffff', accent: '#66c0f4', muted: '#c7d5e0', transparent: true },
+  steam: { background: '#1b2838', text: '#c7d5e0', accent: '#66c0f4', muted: '#8f98a0' },
+};
+
+export interface ResolvedTheme extends ThemeColors {
+  backgroundAlpha: number; // 0-1
+  textShadow: boolean;
+  fontScale: number;       // 1 keeps the built-in sizes
+  cornerRadius: number;    // px
+}
+
+// Theme colors with the user's overrides applied; empty overrides keep the theme's
+export function getThemeColors(settings: PluginSettings): ThemeColors {
+  const theme = THEMES[settings.theme] ?? THEMES.default;
+  return {
+    background: settings.backgroundColor || theme.background,
+    text: settings.textColor || theme.text,
+    accent: settings.accentColor || theme.accent,
+    muted: theme.muted,
+  };
+}
+
+export function resolveTheme(settings: PluginSettings): ResolvedTheme {
+  const transparent = !!THEMES[settings.theme]?.transparent;
+  return {
+    ...getThemeColors(settings),
+    backgroundAlpha: transparent ? 0 : settings.backgroundOpacity / 100,
+    textShadow: transparent,
+    fontScale: settings.fontScale / 100,
+    cornerRadius: settings.cornerRadius,
+  };
+}
+
+// '#rrggbb' at the given alpha, as rgba()
+export function toRgba(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
@@ -0,0 +1,16 @@
+import type { en } from './locales/en';
+
+// Forms follow Intl.PluralRules categories; 'other' is always required
+export interface PluralMessage {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+export type MessageKey = keyof typeof en;
+
+// Catalogs must define exactly the keys of the English catalog
+export type Catalog = Record<MessageKey, string | PluralMessage>;
@@ -0,0 +1,96 @@
+/**
+ * Localization
+ *
+ * Message catalogs live in ./locales, one file per locale. English defines
+ * the message keys; the other catalogs are typed against it, and
+ * tests/frontend/i18n.test.ts fails on missing or extra keys, plural forms
+ * or placeholders that differ from English.
+ *
+ * The locale comes from the `language` setting, or when that is 'auto',
+ * from the Steam client language (falling back to English).
+ */
+
+import type { Catalog, MessageKey, PluralMessage } from './catalog';
+import { en } from './locales/en';
+import { de } from './locales/de';
+import { fr } from './locales/fr';
+import { es } from './locales/es';
+import { getSettings } from '../services/settings';
+
+export type { MessageKey } from './catalog';
+
+export type Locale = 'en' | 'de' | 'fr' | 'es';
+
+export const LOCALES: Record<Locale, { name: string; messages: Catalog }> = {
+  en: { name: 'English', messages: en },
+  de: { name: 'Deutsch', messages: de },
+  fr: { name: 'Français', messages: fr },
+  es: { name: 'Español', messages: es },
+};
+
+// Steam reports its UI language by name rather than by locale code
+const STEAM_LANGUAGES: Record<string, Locale> = {
+  english: 'en',
+  german: 'de',
+  french: 'fr',
+  spanish: 'es',
+  latam: 'es',
+};
+
+let activeLocale: Locale | null = null;
+
+function isLocale(value: string): value is Locale {
+  return value in LOCALES;
+}
+
+function matchLocale(value: string | undefined): Locale | null {
+  if (!value) return null;
+  const lower = value.toLowerCase();
+  if (STEAM_LANGUAGES[lower]) return STEAM_LANGUAGES[lower];
+
+  const prefix = lower.split(/[-_]/)[0];
+  return isLocale(prefix) ? prefix : null;
+}
+
+export function detectLocale(): Locale {
+  const candidates = [...(window.LocalizationManager?.m_rgLocalesToUse ?? []), navigator.language];
+  for (const candidate of candidates) {
+    const locale = matchLocale(candidate);
+    if (locale) return locale;
+  }
+  return 'en';
+}
+
+export function getLocale(): Locale {
+  if (!activeLocale) {
+    const setting = getSettings().language;
+    activeLocale = setting !== 'auto' && isLocale(setting) ? setting : detectLocale();
+  }
+  return activeLocale;
+}
+
+// Call after the language setting changes
+export function resetLocale(): void {
+  activeLocale = null;
+}
+
+export function formatNumber(value: number): string {
+  return new Intl.NumberFormat(getLocale(), { maximumFractionDigits: 1 }).format(value);
+}
+
+function selectPlural(message: PluralMessage, count: number): string {
+  const category = new Intl.PluralRules(getLocale()).select(count);
+  return message[category] ?? message.other;
+}
+
+/**
+ * Looks up a message and fills in `{name}` placeholders from `params`.
+ * Plural messages pick their form from `params.count`.
+ */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = LOCALES[getLocale()].messages[key] ?? en[key];
+  const text = typeof message === 'string' ? message : selectPlural(message, Number(params.count ?? 0));
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
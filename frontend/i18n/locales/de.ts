@@ -0,0 +1,296 @@
+import type { Catalog } from '../catalog';
+
+export const de: Catalog = {
+  // Display box
+  'display.loading': 'Lädt...',
+  'display.searchHltb': 'Auf HLTB suchen',
+  'display.viewDetails': 'Details',
+  'display.wrongGame': 'Falsches Spiel?',
+  'display.pickGame': 'Spiel wählen',
+  'display.timeLeft': 'noch {time}',
+  'display.targetReached': 'Ziel erreicht',
+  'display.played': '{time} gespielt',
+  'display.more': 'Mehr',
+  'display.less': 'Weniger',
+  'display.lowConfidence': { one: 'Basiert auf nur {count} Eintrag', other: 'Basiert auf nur {count} Einträgen' },
+  'display.submissions': { one: '{count} Eintrag', other: '{count} Einträge' },
+  'display.reviewScore': 'Bewertung: {score} %',
+  'display.fuzzyMatch': 'Mögliche Verwechslung',
+  'display.fuzzyMatchTooltip': '„{matched}“ für „{searched}“ gefunden ({confidence} % ähnlich)',
+  'display.dlcFor': 'DLC für {game}',
+  'display.ownedDlc': { one: '{count} eigener DLC: +{time} {stat}', other: '{count} eigene DLCs: +{time} {stat}' },
+  'display.markCompleted': 'Als beendet markieren',
+  'display.completed': 'Beendet ✓',
+  'display.personalEstimate': 'Etwa {time} für dich ({stat})',
+  'display.personalEstimateTooltip': { one: 'Basiert auf {count} beendeten Spiel: Du brauchst das {factor}-fache der HLTB-Zeit', other: 'Basiert auf {count} beendeten Spielen: Du brauchst das {factor}-fache der HLTB-Zeit' },
+  'display.noMatch': 'Kein HLTB-Treffer für „{name}“',
+  'display.retry': 'Erneut versuchen',
+  'display.copyDiagnostics': 'Diagnose kopieren',
+  'display.copied': 'Kopiert',
+  'display.copyFailed': 'Kopieren fehlgeschlagen',
+  'display.editHint': 'Ziehen zum Verschieben · Enter zum Speichern · Esc zum Abbrechen',
+  'display.editDone': 'Fertig',
+  'display.error.offline': 'Offline - HLTB ist nicht erreichbar',
+  'display.error.backend_unavailable': 'Das Plugin-Backend antwortet nicht',
+  'display.error.name_unresolved': 'Spielname konnte nicht von Steam abgerufen werden',
+  'display.error.hltb_unreachable': 'HLTB ist nicht erreichbar',
+  'display.error.hltb_invalid_response': 'HLTB hat eine unerwartete Antwort gesendet',
+  'display.error.import_unavailable': 'Der Steam-Bibliotheksimport ist nicht verfügbar',
+  'display.error.bad_request': 'Ungültige Anfrage an das Plugin-Backend',
+  'display.error.internal': 'Beim Nachschlagen dieses Spiels ist ein Fehler aufgetreten',
+  'display.offline': 'Offline',
+  'display.cachedHoursAgo': { one: 'Vor {count} Stunde gespeichert', other: 'Vor {count} Stunden gespeichert' },
+  'display.cachedDaysAgo': { one: 'Vor {count} Tag gespeichert', other: 'Vor {count} Tagen gespeichert' },
+
+  // Stat labels
+  'stat.comp_main': 'Hauptstory',
+  'stat.comp_plus': 'Story + Extras',
+  'stat.comp_100': 'Komplettierung',
+  'stat.comp_all': 'Alle Spielstile',
+  'stat.invested_co': 'Koop',
+  'stat.invested_mp': 'Versus',
+
+  // Time units
+  'time.hours': '{value} Std.',
+  'time.minutes': '{value} Min.',
+  'time.hoursMinutes': '{hours} Std. {minutes} Min.',
+  'time.days': { one: '{value} Tag', other: '{value} Tage' },
+
+  // Common
+  'common.open': 'Öffnen',
+  'common.close': 'Schließen',
+  'common.remove': 'Entfernen',
+
+  // Settings page
+  'settings.language.label': 'Sprache',
+  'settings.language.description': 'Standard: Sprache des Steam-Clients',
+  'settings.language.auto': 'Automatisch',
+  'settings.horizontalOffset.label': 'Horizontaler Abstand (px)',
+  'settings.horizontalOffset.description': 'Abstand vom Rand. Standard: 0',
+  'settings.verticalOffset.label': 'Vertikaler Abstand (px)',
+  'settings.verticalOffset.description': 'Abstand vom Rand. Standard: 0',
+  'settings.alignRight.label': 'Rechts ausrichten',
+  'settings.alignRight.description': 'Rechts im Header anzeigen. Deaktivieren für links.',
+  'settings.alignBottom.label': 'Unten ausrichten',
+  'settings.alignBottom.description': 'Unten im Header anzeigen. Deaktivieren für oben.',
+  'settings.editLayout.label': 'Layout bearbeiten',
+  'settings.editLayout.description': 'Verschiebe die Box auf der geöffneten Spielseite per Ziehen oder mit den Pfeiltasten. Sie rastet an den Kanten und Ecken des Headers ein. Die Position wird für den Modus gespeichert, in dem die Spielseite angezeigt wird: Desktop oder Big Picture / Steam Deck.',
+  'settings.editLayout.start': 'Bearbeiten',
+  'settings.editLayout.started': 'Verschiebe die Box auf der Spielseite und klicke dann auf Fertig',
+  'settings.editLayout.noGamePage': 'Öffne zuerst eine Spielseite',
+  'settings.gamepad.label': 'Big Picture / Steam Deck',
+  'settings.gamepad.description': 'Position der Box in Big Picture und auf dem Steam Deck, getrennt vom Desktop eingestellt. Dort hält die Box außerdem Abstand zu den Bildschirmrändern.',
+  'settings.theme.label': 'Design',
+  'settings.theme.description': 'Farben der Box und der Zeiten auf den Bibliothekskacheln',
+  'settings.theme.default': 'Standard',
+  'settings.theme.light': 'Hell',
+  'settings.theme.transparent': 'Transparent',
+  'settings.theme.steam': 'Steam-Akzent',
+  'settings.displayLayout.label': 'Layout',
+  'settings.displayLayout.description': 'Kompakt nutzt kleinere Zeiten und Abstände; Vertikal zeigt eine Zeit pro Zeile',
+  'settings.displayLayout.standard': 'Standard',
+  'settings.displayLayout.compact': 'Kompakt',
+  'settings.displayLayout.vertical': 'Vertikal',
+  'settings.backgroundColor.label': 'Hintergrundfarbe',
+  'settings.textColor.label': 'Textfarbe',
+  'settings.accentColor.label': 'Akzentfarbe',
+  'settings.themeColor.description': 'Zurücksetzen, um die Farbe des Designs zu verwenden',
+  'settings.backgroundOpacity.label': 'Deckkraft des Hintergrunds (%)',
+  'settings.backgroundOpacity.description': 'Standard: 85',
+  'settings.fontScale.label': 'Textgröße (%)',
+  'settings.fontScale.description': 'Standard: 100',
+  'settings.cornerRadius.label': 'Eckenradius (px)',
+  'settings.cornerRadius.description': 'Standard: 0',
+  'settings.showViewDetails.label': 'Details-Link anzeigen',
+  'settings.showViewDetails.description': 'Link zur HLTB-Spieleseite anzeigen',
+  'settings.detailsOpenExternal.label': 'Details im Browser öffnen',
+  'settings.detailsOpenExternal.description': 'Die HLTB-Website statt der Detailansicht in Steam öffnen',
+  'settings.preview.label': 'Vorschau',
+  'settings.columns.label': 'Spalten',
+  'settings.columns.description': 'Welche Zeiten angezeigt werden, ihre Reihenfolge und Beschriftung',
+  'settings.timeFormat.label': 'Zeitformat',
+  'settings.timeFormat.decimal': 'Stunden (12,5 Std.)',
+  'settings.timeFormat.h': 'Ganze Stunden (13 Std.)',
+  'settings.timeFormat.hm': 'Stunden und Minuten (12 Std. 30 Min.)',
+  'settings.timeFormat.days': 'Tage',
+  'settings.hoursPerDay.label': 'Stunden pro Tag',
+  'settings.hoursPerDay.description': 'Spielzeit pro Tag für die Umrechnung in Tage. Standard: 2',
+  'settings.hoursPerWeek.description': 'Spielzeit pro Woche für die Prognose in der Statistik. Standard: 10',
+  'settings.progressTarget.label': 'Spielfortschritt',
+  'settings.progressTarget.description': 'Deine Steam-Spielzeit mit einer HLTB-Kategorie vergleichen',
+  'settings.progressTarget.off': 'Aus',
+  'settings.showPercentages.label': 'Spielzeit in Prozent anzeigen',
+  'settings.showPercentages.description': 'Deine Spielzeit als Prozentsatz jeder Kategorie anzeigen',
+  'settings.extendedView.label': 'Erweiterte Ansicht',
+  'settings.extendedView.description': 'Alle Spielstile, Anzahl der Einträge und die Bewertung anzeigen',
+  'settings.extendedView.off': 'Aus',
+  'settings.extendedView.hover': 'Beim Überfahren mit der Maus',
+  'settings.extendedView.toggle': 'Mit „Mehr“-Schaltfläche',
+  'settings.confidenceThreshold.label': 'Warnschwelle für Zuordnung (%)',
+  'settings.confidenceThreshold.description': 'Warnen, wenn ein Spiel über einen weniger ähnlichen Namen zugeordnet wurde. 0 schaltet Warnungen aus. Standard: 80',
+  'settings.showOwnedDlc.label': 'Eigene DLCs anzeigen',
+  'settings.showOwnedDlc.description': 'Zeigt unter den Zeiten die zusätzliche HLTB-Zeit deiner DLCs. Benötigt eine zusätzliche HLTB-Anfrage pro Spiel',
+  'settings.personalPace.label': 'Persönliches Tempo',
+  'settings.personalPace.description': 'Fügt eine Schaltfläche „Als beendet markieren“ hinzu. Ab {count} beendeten Spielen wird anhand deiner Steam-Spielzeit in diesen Spielen angezeigt, wie lange du für die Hauptgeschichte brauchen solltest',
+  'settings.tileBadges.label': 'Bibliothekskacheln',
+  'settings.tileBadges.description': 'HLTB-Zeiten auf Spielen im Bibliotheksraster und in Sammlungsregalen anzeigen',
+  'settings.tileBadges.off': 'Aus',
+  'settings.tileBadges.badge': 'Plakette',
+  'settings.tileBadges.hover': 'Karte beim Überfahren',
+  'settings.tileBadgeStat.label': 'Zeit auf der Plakette',
+  'settings.tileBadgePosition.label': 'Position auf der Kachel',
+  'settings.tileBadgePosition.topLeft': 'Oben links',
+  'settings.tileBadgePosition.topRight': 'Oben rechts',
+  'settings.tileBadgePosition.bottomLeft': 'Unten links',
+  'settings.tileBadgePosition.bottomRight': 'Unten rechts',
+  'settings.prefetch.label': 'Im Hintergrund laden',
+  'settings.prefetch.description': 'HLTB-Zeiten für deine gesamte Bibliothek im Hintergrund laden',
+  'settings.prefetch.progress': { one: '{done} / {count} Spiel', other: '{done} / {count} Spiele' },
+  'settings.prefetch.failed': '{count} fehlgeschlagen',
+  'settings.prefetch.paused': 'pausiert',
+  'settings.prefetch.done': 'fertig',
+  'settings.prefetch.backoff': 'HLTB-Fehler, neuer Versuch später',
+  'settings.prefetch.pause': 'Pausieren',
+  'settings.prefetch.resume': 'Fortsetzen',
+  'settings.backlog.label': 'Backlog',
+  'settings.backlog.description': 'HLTB-Zeiten für jedes Spiel in deiner Bibliothek',
+  'settings.stats.label': 'Statistiken',
+  'settings.stats.description': 'Verbleibende Stunden im Backlog, Spiellängen und Spiele, die du dieses Wochenende schaffen kannst',
+  'settings.collections.label': 'Sammlungen nach Länge',
+  'settings.collections.description': 'Erstellt oder aktualisiert eine Steam-Sammlung mit den Spielen, die alle Bedingungen erfüllen. Nur Spiele mit gespeicherten HLTB-Zeiten werden berücksichtigt; öffne den Backlog oder aktiviere das Vorabladen, um deine Bibliothek zu speichern. Zuerst die Vorschau öffnen: Erstellen / Aktualisieren speichert genau die Änderungen der Vorschau, und Spiele ohne gespeicherte Zeiten werden nie entfernt.',
+  'settings.collections.preset.shortMain': 'Hauptgeschichte unter 10 Std.',
+  'settings.collections.preset.unmatched': 'Spiele ohne Treffer',
+  'settings.collections.preset.longCompletionist': 'Komplettierung über 100 Std.',
+  'settings.collections.kind.time': 'Zeit',
+  'settings.collections.kind.matched': 'Auf HLTB gefunden',
+  'settings.collections.kind.unmatched': 'Kein HLTB-Treffer',
+  'settings.collections.under': 'unter',
+  'settings.collections.over': 'über',
+  'settings.collections.hours': 'Stunden',
+  'settings.collections.addCondition': 'Bedingung hinzufügen',
+  'settings.collections.name': 'Name der Sammlung',
+  'settings.collections.preview': 'Vorschau',
+  'settings.collections.apply': 'Erstellen / Aktualisieren',
+  'settings.collections.nameRequired': 'Gib einen Namen für die Sammlung ein',
+  'settings.collections.unavailable': 'Steam-Sammlungen sind nicht verfügbar',
+  'settings.collections.dynamic': '„{name}“ ist eine dynamische Sammlung und kann nicht geändert werden',
+  'settings.collections.matches': { one: '{count} Spiel passt', other: '{count} Spiele passen' },
+  'settings.collections.toCreate': { one: 'Erstellt „{name}“ mit {count} Spiel:', other: 'Erstellt „{name}“ mit {count} Spielen:' },
+  'settings.collections.toAdd': { one: 'Fügt {count} Spiel hinzu:', other: 'Fügt {count} Spiele hinzu:' },
+  'settings.collections.toRemove': { one: 'Entfernt {count} Spiel:', other: 'Entfernt {count} Spiele:' },
+  'settings.collections.keptUnknown': { one: 'Behält {count} Spiel ohne gespeicherte HLTB-Zeiten', other: 'Behält {count} Spiele ohne gespeicherte HLTB-Zeiten' },
+  'settings.collections.noChanges': 'Die Sammlung ist bereits aktuell',
+  'settings.collections.created': { one: '„{name}“ mit {count} Spiel erstellt', other: '„{name}“ mit {count} Spielen erstellt' },
+  'settings.collections.updated': '„{name}“ aktualisiert: {added} hinzugefügt, {removed} entfernt',
+  'settings.collections.failed': 'Die Sammlung konnte nicht gespeichert werden',
+  'settings.overrides.label': 'Manuelle Zuordnungen',
+  'settings.overrides.description': 'Mit „Falsches Spiel?“ manuell zugeordnete Spiele',
+  'settings.overrides.empty': 'Keine manuellen Zuordnungen. Nutze „Falsches Spiel?“ auf einer Spieleseite.',
+  'settings.overrides.app': 'App {id}',
+  'settings.overrides.matchedTo': 'Zugeordnet zu {name}',
+  'settings.backup.label': 'Sicherung',
+  'settings.backup.description': 'Einstellungen, Caches und Zuordnungen als JSON exportieren oder unten eine Sicherung zum Importieren einfügen',
+  'settings.backup.export': 'Exportieren',
+  'settings.backup.placeholder': 'Sicherung (JSON)',
+  'settings.backup.importMerge': 'Importieren (Zusammenführen)',
+  'settings.backup.importReplace': 'Importieren (Ersetzen)',
+  'settings.backup.copied': 'Sicherung in die Zwischenablage kopiert',
+  'settings.backup.copyManually': 'Sicherung unten bereit, bitte manuell kopieren',
+  'settings.backup.importFailed': 'Import fehlgeschlagen: {errors}',
+  'settings.backup.moreErrors': '(+{count} weitere)',
+  'settings.backup.merged': 'Sicherung zusammengeführt',
+  'settings.backup.restored': 'Sicherung wiederhergestellt',
+  'settings.selectors.label': 'Eigene Selektoren',
+  'settings.selectors.description': 'Selektor-Pakete als JSON, die vor den eingebauten Selektoren versucht werden, falls ein Steam-Update die Erkennung bricht',
+  'settings.selectors.placeholder': '{"name": "...", "containerSelector": "..."}',
+  'settings.selectors.save': 'Speichern',
+  'settings.selectors.validate': 'Auf aktueller Seite testen',
+  'settings.selectors.saved': { one: '{count} eigenes Selektor-Paket gespeichert', other: '{count} eigene Selektor-Pakete gespeichert' },
+  'settings.selectors.invalid': 'Ungültige Selektoren: {errors}',
+  'settings.selectors.match': '{name}: passt',
+  'settings.selectors.noMatch': '{name}: kein Treffer (Container {container}, Bilder {images})',
+  'settings.maxCacheAge.label': 'Maximales Cache-Alter (Tage)',
+  'settings.maxCacheAge.description': 'Ältere gespeicherte Zeiten werden nicht angezeigt, auch wenn HLTB nicht erreichbar ist (1-90)',
+  'settings.cacheStats.label': 'Cache-Statistik',
+  'settings.cacheStats.view': 'Anzeigen',
+  'settings.cacheStats.resultEmpty': 'Ergebnis-Cache: leer',
+  'settings.cacheStats.result': { one: 'Ergebnis-Cache: {count} Spiel, ältestes {age} T.', other: 'Ergebnis-Cache: {count} Spiele, ältestes {age} T.' },
+  'settings.cacheStats.idEmpty': 'ID-Cache: leer',
+  'settings.cacheStats.id': { one: 'ID-Cache: {count} Zuordnung, {age} T. alt', other: 'ID-Cache: {count} Zuordnungen, {age} T. alt' },
+  'settings.clearCache.label': 'Cache leeren',
+  'settings.clearCache.clear': 'Leeren',
+  'settings.clearCache.cleared': 'Alle Caches geleert',
+  'settings.section.general': 'Allgemein',
+  'settings.section.position': 'Position',
+  'settings.section.appearance': 'Aussehen',
+  'settings.section.display': 'Anzeige',
+  'settings.section.matching': 'Zuordnung',
+  'settings.section.library': 'Bibliothek',
+  'settings.section.data': 'Daten',
+  'settings.reset': 'Zurücksetzen',
+  'settings.invalidNumber': 'Gib eine Zahl von {min} bis {max} ein',
+  'settings.invalidWholeNumber': 'Gib eine ganze Zahl von {min} bis {max} ein',
+  'settings.presets.label': 'Vorlagen',
+  'settings.presets.description': 'Ein Ausgangspunkt; jede Einstellung kann danach weiter geändert werden',
+  'settings.presets.topLeft': 'Oben links',
+  'settings.presets.topRight': 'Oben rechts',
+  'settings.presets.bottomLeft': 'Unten links',
+  'settings.presets.bottomRight': 'Unten rechts',
+  'settings.presets.compact': 'Kompakt',
+  'settings.presets.applied': 'Vorlage angewendet: {name}',
+  'settings.restoreDefaults.label': 'Standardwerte wiederherstellen',
+  'settings.restoreDefaults.description': 'Setzt alle Einstellungen zurück. Caches, manuelle Zuordnungen und abgeschlossene Spiele bleiben erhalten.',
+  'settings.restoreDefaults.confirm': 'Alle Einstellungen auf die Standardwerte zurücksetzen?',
+  'settings.restoreDefaults.restore': 'Wiederherstellen',
+  'settings.restoreDefaults.done': 'Standardwerte wiederhergestellt',
+
+  // Backlog view
+  'backlog.title': 'HLTB-Backlog',
+  'backlog.empty': 'Keine Spiele in deiner Bibliothek gefunden.',
+  'backlog.summary': { one: '{count} Spiel, {matched} auf HLTB gefunden', other: '{count} Spiele, {matched} auf HLTB gefunden' },
+  'backlog.fetching': 'Lade {count} weitere...',
+  'backlog.game': 'Spiel',
+  'backlog.total': 'Gesamt',
+
+  // Statistics view
+  'stats.title': 'HLTB-Statistiken',
+  'stats.library': 'Bibliothek',
+  'stats.matched': { one: '{count} gefunden', other: '{count} gefunden' },
+  'stats.unmatched': { one: '{count} ohne HLTB-Treffer', other: '{count} ohne HLTB-Treffer' },
+  'stats.uncached': { one: '{count} noch nicht nachgeschlagen', other: '{count} noch nicht nachgeschlagen' },
+  'stats.imported': { one: '{count} aus dem Steam-Import', other: '{count} aus dem Steam-Import' },
+  'stats.completed': { one: '{count} abgeschlossen', other: '{count} abgeschlossen' },
+  'stats.hoursPerWeek': 'Stunden pro Woche',
+  'stats.hoursLeft': 'Verbleibende Stunden',
+  'stats.hoursLeftDescription': 'HLTB-Zeiten gefundener Spiele abzüglich deiner Spielzeit, ohne abgeschlossene Spiele',
+  'stats.weeks': { one: 'etwa {count} Woche', other: 'etwa {count} Wochen' },
+  'stats.histogram': 'Spiellängen',
+  'stats.histogramDescription': 'Gefundene Spiele nach Hauptgeschichte',
+  'stats.bucket': '{min}-{max} Std.',
+  'stats.bucketOver': '{min}+ Std.',
+  'stats.quickWins': 'Dieses Wochenende schaffbar',
+  'stats.quickWinsDescription': 'Spiele mit höchstens {hours} Std. verbleibender Hauptgeschichte',
+  'stats.quickWinsEmpty': 'Kein Spiel hat {hours} Std. oder weniger Hauptgeschichte übrig',
+
+  // Match picker
+  'picker.title': 'HLTB-Spiel wählen',
+  'picker.search': 'Suchen',
+  'picker.searching': 'Suche...',
+  'picker.noResults': 'Keine HLTB-Ergebnisse',
+  'picker.use': 'Wählen',
+
+  // Details panel
+  'details.title': 'HLTB-Details',
+  'details.loading': 'Details werden geladen...',
+  'details.failed': 'Details konnten nicht von HLTB geladen werden.',
+  'details.alias': 'Auch bekannt als',
+  'details.release': 'Veröffentlicht',
+  'details.developer': 'Entwickler',
+  'details.publisher': 'Publisher',
+  'details.genres': 'Genres',
+  'details.platforms': 'Plattformen',
+  'details.platformTimes': 'Zeiten nach Plattform',
+  'details.platform': 'Plattform',
+  'details.dlc': 'DLCs und Erweiterungen',
+  'details.openExternal': 'Auf HowLongToBeat öffnen',
+};
@@ -0,0 +1,296 @@
+// English messages. This catalog defines the message keys; every other
+// catalog must have the same keys and placeholders (tests/frontend/i18n.test.ts).
+export const en = {
+  // Display box
+  'display.loading': 'Loading...',
+  'display.searchHltb': 'Search HLTB',
+  'display.viewDetails': 'View Details',
+  'display.wrongGame': 'Wrong game?',
+  'display.pickGame': 'Pick game',
+  'display.timeLeft': '{time} left',
+  'display.targetReached': 'Target reached',
+  'display.played': '{time} played',
+  'display.more': 'More',
+  'display.less': 'Less',
+  'display.lowConfidence': { one: 'Based on only {count} submission', other: 'Based on only {count} submissions' },
+  'display.submissions': { one: '{count} submission', other: '{count} submissions' },
+  'display.reviewScore': 'Rating: {score}%',
+  'display.fuzzyMatch': 'Possible mismatch',
+  'display.fuzzyMatchTooltip': 'Matched "{matched}" for "{searched}" ({confidence}% similar)',
+  'display.dlcFor': 'DLC for {game}',
+  'display.ownedDlc': { one: '{count} owned DLC: +{time} {stat}', other: '{count} owned DLC: +{time} {stat}' },
+  'display.markCompleted': 'Mark completed',
+  'display.completed': 'Completed ✓',
+  'display.personalEstimate': 'About {time} for you ({stat})',
+  'display.personalEstimateTooltip': { one: 'Based on {count} completed game: you take {factor}× the HLTB time', other: 'Based on {count} completed games: you take {factor}× the HLTB time' },
+  'display.noMatch': 'No HLTB match for "{name}"',
+  'display.retry': 'Retry',
+  'display.copyDiagnostics': 'Copy diagnostics',
+  'display.copied': 'Copied',
+  'display.copyFailed': 'Copy failed',
+  'display.editHint': 'Drag to move · Enter to save · Esc to cancel',
+  'display.editDone': 'Done',
+  'display.error.offline': "Offline - HLTB can't be reached",
+  'display.error.backend_unavailable': "The plugin backend isn't responding",
+  'display.error.name_unresolved': "Couldn't get the game's name from Steam",
+  'display.error.hltb_unreachable': "HLTB couldn't be reached",
+  'display.error.hltb_invalid_response': 'HLTB sent an unexpected response',
+  'display.error.import_unavailable': 'Steam library import is unavailable',
+  'display.error.bad_request': 'Invalid request to the plugin backend',
+  'display.error.internal': 'Something went wrong looking up this game',
+  'display.offline': 'Offline',
+  'display.cachedHoursAgo': { one: 'Cached {count} hour ago', other: 'Cached {count} hours ago' },
+  'display.cachedDaysAgo': { one: 'Cached {count} day ago', other: 'Cached {count} days ago' },
+
+  // Stat labels
+  'stat.comp_main': 'Main Story',
+  'stat.comp_plus': 'Main + Extras',
+  'stat.comp_100': 'Completionist',
+  'stat.comp_all': 'All Styles',
+  'stat.invested_co': 'Co-Op',
+  'stat.invested_mp': 'Versus',
+
+  // Time units
+  'time.hours': '{value}h',
+  'time.minutes': '{value}m',
+  'time.hoursMinutes': '{hours}h {minutes}m',
+  'time.days': { one: '{value} day', other: '{value} days' },
+
+  // Common
+  'common.open': 'Open',
+  'common.close': 'Close',
+  'common.remove': 'Remove',
+
+  // Settings page
+  'settings.language.label': 'Language',
+  'settings.language.description': 'Default: Steam client language',
+  'settings.language.auto': 'Automatic',
+  'settings.horizontalOffset.label': 'Horizontal Offset (px)',
+  'settings.horizontalOffset.description': 'Distance from edge. Default: 0',
+  'settings.verticalOffset.label': 'Vertical Offset (px)',
+  'settings.verticalOffset.description': 'Distance from edge. Default: 0',
+  'settings.alignRight.label': 'Align to Right',
+  'settings.alignRight.description': 'Position on right side of header. Disable for left side.',
+  'settings.alignBottom.label': 'Align to Bottom',
+  'settings.alignBottom.description': 'Position at bottom of header. Disable for top.',
+  'settings.editLayout.label': 'Edit Layout',
+  'settings.editLayout.description': 'Move the box on the open game page by dragging it or with the arrow keys. It snaps to the edges and corners of the header. The position is saved for the mode the game page is shown in: desktop, or Big Picture / Steam Deck.',
+  'settings.editLayout.start': 'Edit',
+  'settings.editLayout.started': 'Move the box on the game page, then click Done',
+  'settings.editLayout.noGamePage': 'Open a game page first',
+  'settings.gamepad.label': 'Big Picture / Steam Deck',
+  'settings.gamepad.description': 'Position of the box in Big Picture and on the Steam Deck, set separately from desktop. The box also keeps clear of the screen edges there.',
+  'settings.theme.label': 'Theme',
+  'settings.theme.description': 'Colors of the box and the library tile times',
+  'settings.theme.default': 'Default',
+  'settings.theme.light': 'Light',
+  'settings.theme.transparent': 'Transparent',
+  'settings.theme.steam': 'Steam accent',
+  'settings.displayLayout.label': 'Layout',
+  'settings.displayLayout.description': 'Compact uses smaller times and spacing; Vertical lists one time per row',
+  'settings.displayLayout.standard': 'Standard',
+  'settings.displayLayout.compact': 'Compact',
+  'settings.displayLayout.vertical': 'Vertical',
+  'settings.backgroundColor.label': 'Background Color',
+  'settings.textColor.label': 'Text Color',
+  'settings.accentColor.label': 'Accent Color',
+  'settings.themeColor.description': "Reset to use the theme's color",
+  'settings.backgroundOpacity.label': 'Background Opacity (%)',
+  'settings.backgroundOpacity.description': 'Default: 85',
+  'settings.fontScale.label': 'Text Size (%)',
+  'settings.fontScale.description': 'Default: 100',
+  'settings.cornerRadius.label': 'Corner Radius (px)',
+  'settings.cornerRadius.description': 'Default: 0',
+  'settings.showViewDetails.label': 'Show View Details Link',
+  'settings.showViewDetails.description': 'Display link to HLTB game page',
+  'settings.detailsOpenExternal.label': 'Open Details in Browser',
+  'settings.detailsOpenExternal.description': 'Open the HLTB website instead of the details panel inside Steam',
+  'settings.preview.label': 'Preview',
+  'settings.columns.label': 'Columns',
+  'settings.columns.description': 'Choose which times to show, their order and labels',
+  'settings.timeFormat.label': 'Time Format',
+  'settings.timeFormat.decimal': 'Hours (12.5h)',
+  'settings.timeFormat.h': 'Whole hours (13h)',
+  'settings.timeFormat.hm': 'Hours and minutes (12h 30m)',
+  'settings.timeFormat.days': 'Days',
+  'settings.hoursPerDay.label': 'Hours per Day',
+  'settings.hoursPerDay.description': 'Playing time per day, used to convert times to days. Default: 2',
+  'settings.hoursPerWeek.description': 'Playing time per week, used by the statistics projection. Default: 10',
+  'settings.progressTarget.label': 'Playtime Progress',
+  'settings.progressTarget.description': 'Compare your Steam playtime against an HLTB category',
+  'settings.progressTarget.off': 'Off',
+  'settings.showPercentages.label': 'Show Playtime Percentages',
+  'settings.showPercentages.description': 'Show your playtime as a percentage of each category',
+  'settings.extendedView.label': 'Expanded View',
+  'settings.extendedView.description': 'Show all play styles, submission counts and the review score',
+  'settings.extendedView.off': 'Off',
+  'settings.extendedView.hover': 'On hover',
+  'settings.extendedView.toggle': 'With a "More" button',
+  'settings.confidenceThreshold.label': 'Match Warning Threshold (%)',
+  'settings.confidenceThreshold.description': 'Warn when a game was matched by a name less similar than this. 0 turns warnings off. Default: 80',
+  'settings.showOwnedDlc.label': 'Show Owned DLC',
+  'settings.showOwnedDlc.description': 'List the extra HLTB time of the DLC you own under the times. Needs one extra HLTB request per game',
+  'settings.personalPace.label': 'Personal Pace',
+  'settings.personalPace.description': 'Adds a "Mark completed" button. Once you have completed {count} games, shows how long the Main Story should take you, based on your Steam playtime in those games',
+  'settings.tileBadges.label': 'Library Tiles',
+  'settings.tileBadges.description': 'Show HLTB times on games in the library grid and collection shelves',
+  'settings.tileBadges.off': 'Off',
+  'settings.tileBadges.badge': 'Badge',
+  'settings.tileBadges.hover': 'Card on hover',
+  'settings.tileBadgeStat.label': 'Badge Time',
+  'settings.tileBadgePosition.label': 'Tile Position',
+  'settings.tileBadgePosition.topLeft': 'Top left',
+  'settings.tileBadgePosition.topRight': 'Top right',
+  'settings.tileBadgePosition.bottomLeft': 'Bottom left',
+  'settings.tileBadgePosition.bottomRight': 'Bottom right',
+  'settings.prefetch.label': 'Background Prefetch',
+  'settings.prefetch.description': 'Fetch HLTB times for your whole library in the background',
+  'settings.prefetch.progress': { one: '{done} / {count} game', other: '{done} / {count} games' },
+  'settings.prefetch.failed': '{count} failed',
+  'settings.prefetch.paused': 'paused',
+  'settings.prefetch.done': 'done',
+  'settings.prefetch.backoff': 'HLTB errors, retrying later',
+  'settings.prefetch.pause': 'Pause',
+  'settings.prefetch.resume': 'Resume',
+  'settings.backlog.label': 'Backlog',
+  'settings.backlog.description': 'HLTB times for every game in your library',
+  'settings.stats.label': 'Statistics',
+  'settings.stats.description': 'Hours left in your backlog, game lengths and games you could finish this weekend',
+  'settings.collections.label': 'Collections by Length',
+  'settings.collections.description': 'Create or update a Steam collection with the games matching all conditions. Only games with cached HLTB times are included; open the Backlog or enable Background Prefetch to cache your library. Preview first: Create / Update saves exactly the previewed changes, and games without cached times are never removed.',
+  'settings.collections.preset.shortMain': 'Main Story under 10h',
+  'settings.collections.preset.unmatched': 'Unmatched games',
+  'settings.collections.preset.longCompletionist': 'Completionist over 100h',
+  'settings.collections.kind.time': 'Time',
+  'settings.collections.kind.matched': 'Matched on HLTB',
+  'settings.collections.kind.unmatched': 'No HLTB match',
+  'settings.collections.under': 'under',
+  'settings.collections.over': 'over',
+  'settings.collections.hours': 'hours',
+  'settings.collections.addCondition': 'Add condition',
+  'settings.collections.name': 'Collection name',
+  'settings.collections.preview': 'Preview',
+  'settings.collections.apply': 'Create / Update',
+  'settings.collections.nameRequired': 'Enter a collection name',
+  'settings.collections.unavailable': 'Steam collections are not available',
+  'settings.collections.dynamic': '"{name}" is a dynamic collection and cannot be changed',
+  'settings.collections.matches': { one: '{count} game matches', other: '{count} games match' },
+  'settings.collections.toCreate': { one: 'Creates "{name}" with {count} game:', other: 'Creates "{name}" with {count} games:' },
+  'settings.collections.toAdd': { one: 'Adds {count} game:', other: 'Adds {count} games:' },
+  'settings.collections.toRemove': { one: 'Removes {count} game:', other: 'Removes {count} games:' },
+  'settings.collections.keptUnknown': { one: 'Keeps {count} game without cached HLTB times', other: 'Keeps {count} games without cached HLTB times' },
+  'settings.collections.noChanges': 'The collection is already up to date',
+  'settings.collections.created': { one: 'Created "{name}" with {count} game', other: 'Created "{name}" with {count} games' },
+  'settings.collections.updated': 'Updated "{name}": {added} added, {removed} removed',
+  'settings.collections.failed': 'Could not save the collection',
+  'settings.overrides.label': 'Match Overrides',
+  'settings.overrides.description': 'Games matched manually with "Wrong game?"',
+  'settings.overrides.empty': 'No manual matches. Use "Wrong game?" on a game page to add one.',
+  'settings.overrides.app': 'App {id}',
+  'settings.overrides.matchedTo': 'Matched to {name}',
+  'settings.backup.label': 'Backup',
+  'settings.backup.description': 'Export settings, caches and overrides as JSON, or paste a backup below to import it',
+  'settings.backup.export': 'Export',
+  'settings.backup.placeholder': 'Backup JSON',
+  'settings.backup.importMerge': 'Import (Merge)',
+  'settings.backup.importReplace': 'Import (Replace)',
+  'settings.backup.copied': 'Backup copied to clipboard',
+  'settings.backup.copyManually': 'Backup ready below, copy it manually',
+  'settings.backup.importFailed': 'Import failed: {errors}',
+  'settings.backup.moreErrors': '(+{count} more)',
+  'settings.backup.merged': 'Backup merged',
+  'settings.backup.restored': 'Backup restored',
+  'settings.selectors.label': 'Custom Selectors',
+  'settings.selectors.description': 'Selector pack JSON tried before the built-in selectors, for when a Steam update breaks detection',
+  'settings.selectors.placeholder': '{"name": "...", "containerSelector": "..."}',
+  'settings.selectors.save': 'Save',
+  'settings.selectors.validate': 'Test on Current Page',
+  'settings.selectors.saved': { one: 'Saved {count} custom selector pack', other: 'Saved {count} custom selector packs' },
+  'settings.selectors.invalid': 'Invalid selectors: {errors}',
+  'settings.selectors.match': '{name}: matches',
+  'settings.selectors.noMatch': '{name}: no match (container {container}, images {images})',
+  'settings.maxCacheAge.label': 'Max Cached Age (days)',
+  'settings.maxCacheAge.description': "Older cached times are not shown, even when HLTB can't be reached (1-90)",
+  'settings.cacheStats.label': 'Cache Statistics',
+  'settings.cacheStats.view': 'View Stats',
+  'settings.cacheStats.resultEmpty': 'Result cache: empty',
+  'settings.cacheStats.result': { one: 'Result cache: {count} game, oldest {age}d', other: 'Result cache: {count} games, oldest {age}d' },
+  'settings.cacheStats.idEmpty': 'ID cache: empty',
+  'settings.cacheStats.id': { one: 'ID cache: {count} mapping, {age}d old', other: 'ID cache: {count} mappings, {age}d old' },
+  'settings.clearCache.label': 'Clear Cache',
+  'settings.clearCache.clear': 'Clear',
+  'settings.clearCache.cleared': 'All caches cleared',
+  'settings.section.general': 'General',
+  'settings.section.position': 'Position',
+  'settings.section.appearance': 'Appearance',
+  'settings.section.display': 'Display',
+  'settings.section.matching': 'Matching',
+  'settings.section.library': 'Library',
+  'settings.section.data': 'Data',
+  'settings.reset': 'Reset',
+  'settings.invalidNumber': 'Enter a number from {min} to {max}',
+  'settings.invalidWholeNumber': 'Enter a whole number from {min} to {max}',
+  'settings.presets.label': 'Presets',
+  'settings.presets.description': 'Apply a starting point; every setting can still be changed afterwards',
+  'settings.presets.topLeft': 'Top left',
+  'settings.presets.topRight': 'Top right',
+  'settings.presets.bottomLeft': 'Bottom left',
+  'settings.presets.bottomRight': 'Bottom right',
+  'settings.presets.compact': 'Compact',
+  'settings.presets.applied': 'Applied preset: {name}',
+  'settings.restoreDefaults.label': 'Restore Defaults',
+  'settings.restoreDefaults.description': 'Reset every setting. Caches, overrides and completed games are kept.',
+  'settings.restoreDefaults.confirm': 'Reset all settings to their defaults?',
+  'settings.restoreDefaults.restore': 'Restore',
+  'settings.restoreDefaults.done': 'Settings restored to defaults',
+
+  // Backlog view
+  'backlog.title': 'HLTB Backlog',
+  'backlog.empty': 'No games found in your library.',
+  'backlog.summary': { one: '{count} game, {matched} matched on HLTB', other: '{count} games, {matched} matched on HLTB' },
+  'backlog.fetching': 'Fetching {count} remaining...',
+  'backlog.game': 'Game',
+  'backlog.total': 'Total',
+
+  // Statistics view
+  'stats.title': 'HLTB Statistics',
+  'stats.library': 'Library',
+  'stats.matched': { one: '{count} matched', other: '{count} matched' },
+  'stats.unmatched': { one: '{count} without HLTB match', other: '{count} without HLTB match' },
+  'stats.uncached': { one: '{count} not looked up yet', other: '{count} not looked up yet' },
+  'stats.imported': { one: '{count} from Steam import', other: '{count} from Steam import' },
+  'stats.completed': { one: '{count} completed', other: '{count} completed' },
+  'stats.hoursPerWeek': 'Hours per Week',
+  'stats.hoursLeft': 'Hours Left',
+  'stats.hoursLeftDescription': 'HLTB times of matched games minus your playtime, without completed games',
+  'stats.weeks': { one: 'about {count} week', other: 'about {count} weeks' },
+  'stats.histogram': 'Game Lengths',
+  'stats.histogramDescription': 'Matched games by Main Story time',
+  'stats.bucket': '{min}-{max}h',
+  'stats.bucketOver': '{min}h+',
+  'stats.quickWins': 'Finish This Weekend',
+  'stats.quickWinsDescription': 'Games with at most {hours}h of Main Story left',
+  'stats.quickWinsEmpty': 'No game has {hours}h or less of Main Story left',
+
+  // Match picker
+  'picker.title': 'Pick HLTB Game',
+  'picker.search': 'Search',
+  'picker.searching': 'Searching...',
+  'picker.noResults': 'No HLTB results',
+  'picker.use': 'Use',
+
+  // Details panel
+  'details.title': 'HLTB Details',
+  'details.loading': 'Loading details...',
+  'details.failed': 'Could not load details from HLTB.',
+  'details.alias': 'Also known as',
+  'details.release': 'Released',
+  'details.developer': 'Developer',
+  'details.publisher': 'Publisher',
+  'details.genres': 'Genres',
+  'details.platforms': 'Platforms',
+  'details.platformTimes': 'Times by Platform',
+  'details.platform': 'Platform',
+  'details.dlc': 'DLC and Expansions',
+  'details.openExternal': 'Open on HowLongToBeat',
+};
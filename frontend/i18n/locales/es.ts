@@ -0,0 +1,296 @@
+import type { Catalog } from '../catalog';
+
+export const es: Catalog = {
+  // Display box
+  'display.loading': 'Cargando...',
+  'display.searchHltb': 'Buscar en HLTB',
+  'display.viewDetails': 'Ver detalles',
+  'display.wrongGame': '¿Juego incorrecto?',
+  'display.pickGame': 'Elegir juego',
+  'display.timeLeft': 'quedan {time}',
+  'display.targetReached': 'Objetivo alcanzado',
+  'display.played': '{time} jugadas',
+  'display.more': 'Más',
+  'display.less': 'Menos',
+  'display.lowConfidence': { one: 'Basado en solo {count} envío', other: 'Basado en solo {count} envíos' },
+  'display.submissions': { one: '{count} envío', other: '{count} envíos' },
+  'display.reviewScore': 'Valoración: {score}%',
+  'display.fuzzyMatch': 'Posible error de coincidencia',
+  'display.fuzzyMatchTooltip': 'Se encontró «{matched}» para «{searched}» ({confidence}% de similitud)',
+  'display.dlcFor': 'DLC de {game}',
+  'display.ownedDlc': { one: '{count} DLC adquirido: +{time} {stat}', other: '{count} DLC adquiridos: +{time} {stat}' },
+  'display.markCompleted': 'Marcar como completado',
+  'display.completed': 'Completado ✓',
+  'display.personalEstimate': 'Unas {time} para ti ({stat})',
+  'display.personalEstimateTooltip': { one: 'Según {count} juego completado: tardas {factor}× el tiempo de HLTB', other: 'Según {count} juegos completados: tardas {factor}× el tiempo de HLTB' },
+  'display.noMatch': 'Sin coincidencia en HLTB para "{name}"',
+  'display.retry': 'Reintentar',
+  'display.copyDiagnostics': 'Copiar diagnóstico',
+  'display.copied': 'Copiado',
+  'display.copyFailed': 'Error al copiar',
+  'display.editHint': 'Arrastra para mover · Intro para guardar · Esc para cancelar',
+  'display.editDone': 'Listo',
+  'display.error.offline': 'Sin conexión - no se puede acceder a HLTB',
+  'display.error.backend_unavailable': 'El backend del plugin no responde',
+  'display.error.name_unresolved': 'No se pudo obtener el nombre del juego de Steam',
+  'display.error.hltb_unreachable': 'No se puede acceder a HLTB',
+  'display.error.hltb_invalid_response': 'HLTB envió una respuesta inesperada',
+  'display.error.import_unavailable': 'La importación de la biblioteca de Steam no está disponible',
+  'display.error.bad_request': 'Solicitud no válida al backend del plugin',
+  'display.error.internal': 'Algo salió mal al buscar este juego',
+  'display.offline': 'Sin conexión',
+  'display.cachedHoursAgo': { one: 'Guardado hace {count} hora', other: 'Guardado hace {count} horas' },
+  'display.cachedDaysAgo': { one: 'Guardado hace {count} día', other: 'Guardado hace {count} días' },
+
+  // Stat labels
+  'stat.comp_main': 'Historia',
+  'stat.comp_plus': 'Historia + extras',
+  'stat.comp_100': 'Completista',
+  'stat.comp_all': 'Todos los estilos',
+  'stat.invested_co': 'Cooperativo',
+  'stat.invested_mp': 'Competitivo',
+
+  // Time units
+  'time.hours': '{value} h',
+  'time.minutes': '{value} min',
+  'time.hoursMinutes': '{hours} h {minutes} min',
+  'time.days': { one: '{value} día', other: '{value} días' },
+
+  // Common
+  'common.open': 'Abrir',
+  'common.close': 'Cerrar',
+  'common.remove': 'Quitar',
+
+  // Settings page
+  'settings.language.label': 'Idioma',
+  'settings.language.description': 'Predeterminado: idioma del cliente de Steam',
+  'settings.language.auto': 'Automático',
+  'settings.horizontalOffset.label': 'Desplazamiento horizontal (px)',
+  'settings.horizontalOffset.description': 'Distancia al borde. Predeterminado: 0',
+  'settings.verticalOffset.label': 'Desplazamiento vertical (px)',
+  'settings.verticalOffset.description': 'Distancia al borde. Predeterminado: 0',
+  'settings.alignRight.label': 'Alinear a la derecha',
+  'settings.alignRight.description': 'Mostrar a la derecha de la cabecera. Desactívalo para la izquierda.',
+  'settings.alignBottom.label': 'Alinear abajo',
+  'settings.alignBottom.description': 'Mostrar en la parte inferior de la cabecera. Desactívalo para arriba.',
+  'settings.editLayout.label': 'Editar diseño',
+  'settings.editLayout.description': 'Mueve la caja en la página del juego abierta arrastrándola o con las flechas. Se ajusta a los bordes y esquinas del encabezado. La posición se guarda para el modo en que se muestra la página del juego: escritorio, o Big Picture / Steam Deck.',
+  'settings.editLayout.start': 'Editar',
+  'settings.editLayout.started': 'Mueve la caja en la página del juego y luego haz clic en Listo',
+  'settings.editLayout.noGamePage': 'Abre primero la página de un juego',
+  'settings.gamepad.label': 'Big Picture / Steam Deck',
+  'settings.gamepad.description': 'Posición del recuadro en Big Picture y en la Steam Deck, configurada por separado del escritorio. Allí el recuadro también se aleja de los bordes de la pantalla.',
+  'settings.theme.label': 'Tema',
+  'settings.theme.description': 'Colores de la caja y de los tiempos en las miniaturas de la biblioteca',
+  'settings.theme.default': 'Predeterminado',
+  'settings.theme.light': 'Claro',
+  'settings.theme.transparent': 'Transparente',
+  'settings.theme.steam': 'Acento de Steam',
+  'settings.displayLayout.label': 'Diseño',
+  'settings.displayLayout.description': 'Compacto usa tiempos y espacios más pequeños; Vertical muestra un tiempo por fila',
+  'settings.displayLayout.standard': 'Estándar',
+  'settings.displayLayout.compact': 'Compacto',
+  'settings.displayLayout.vertical': 'Vertical',
+  'settings.backgroundColor.label': 'Color de fondo',
+  'settings.textColor.label': 'Color del texto',
+  'settings.accentColor.label': 'Color de acento',
+  'settings.themeColor.description': 'Restablece para usar el color del tema',
+  'settings.backgroundOpacity.label': 'Opacidad del fondo (%)',
+  'settings.backgroundOpacity.description': 'Predeterminado: 85',
+  'settings.fontScale.label': 'Tamaño del texto (%)',
+  'settings.fontScale.description': 'Predeterminado: 100',
+  'settings.cornerRadius.label': 'Radio de las esquinas (px)',
+  'settings.cornerRadius.description': 'Predeterminado: 0',
+  'settings.showViewDetails.label': 'Mostrar enlace de detalles',
+  'settings.showViewDetails.description': 'Mostrar un enlace a la página del juego en HLTB',
+  'settings.detailsOpenExternal.label': 'Abrir detalles en el navegador',
+  'settings.detailsOpenExternal.description': 'Abrir el sitio de HLTB en lugar del panel de detalles dentro de Steam',
+  'settings.preview.label': 'Vista previa',
+  'settings.columns.label': 'Columnas',
+  'settings.columns.description': 'Elige qué tiempos mostrar, su orden y sus etiquetas',
+  'settings.timeFormat.label': 'Formato de tiempo',
+  'settings.timeFormat.decimal': 'Horas (12,5 h)',
+  'settings.timeFormat.h': 'Horas enteras (13 h)',
+  'settings.timeFormat.hm': 'Horas y minutos (12 h 30 min)',
+  'settings.timeFormat.days': 'Días',
+  'settings.hoursPerDay.label': 'Horas por día',
+  'settings.hoursPerDay.description': 'Tiempo de juego por día, para convertir los tiempos en días. Predeterminado: 2',
+  'settings.hoursPerWeek.description': 'Tiempo de juego por semana, usado para la proyección de las estadísticas. Predeterminado: 10',
+  'settings.progressTarget.label': 'Progreso',
+  'settings.progressTarget.description': 'Comparar tu tiempo de juego en Steam con una categoría de HLTB',
+  'settings.progressTarget.off': 'Desactivado',
+  'settings.showPercentages.label': 'Mostrar porcentajes',
+  'settings.showPercentages.description': 'Mostrar tu tiempo de juego como porcentaje de cada categoría',
+  'settings.extendedView.label': 'Vista ampliada',
+  'settings.extendedView.description': 'Mostrar todos los estilos de juego, el número de envíos y la valoración',
+  'settings.extendedView.off': 'Desactivada',
+  'settings.extendedView.hover': 'Al pasar el ratón',
+  'settings.extendedView.toggle': 'Con un botón «Más»',
+  'settings.confidenceThreshold.label': 'Umbral de aviso de coincidencia (%)',
+  'settings.confidenceThreshold.description': 'Avisar cuando un juego se encontró por un nombre menos parecido que este valor. 0 desactiva los avisos. Predeterminado: 80',
+  'settings.showOwnedDlc.label': 'Mostrar DLC adquiridos',
+  'settings.showOwnedDlc.description': 'Muestra bajo los tiempos el tiempo extra de HLTB de los DLC que tienes. Requiere una petición más a HLTB por juego',
+  'settings.personalPace.label': 'Ritmo personal',
+  'settings.personalPace.description': 'Añade un botón «Marcar como completado». Con {count} juegos completados, muestra cuánto debería llevarte la historia principal según tu tiempo de juego en Steam en esos juegos',
+  'settings.tileBadges.label': 'Miniaturas de la biblioteca',
+  'settings.tileBadges.description': 'Mostrar los tiempos de HLTB en los juegos de la cuadrícula y los estantes de colecciones',
+  'settings.tileBadges.off': 'Desactivado',
+  'settings.tileBadges.badge': 'Insignia',
+  'settings.tileBadges.hover': 'Tarjeta al pasar el ratón',
+  'settings.tileBadgeStat.label': 'Tiempo de la insignia',
+  'settings.tileBadgePosition.label': 'Posición en la miniatura',
+  'settings.tileBadgePosition.topLeft': 'Arriba a la izquierda',
+  'settings.tileBadgePosition.topRight': 'Arriba a la derecha',
+  'settings.tileBadgePosition.bottomLeft': 'Abajo a la izquierda',
+  'settings.tileBadgePosition.bottomRight': 'Abajo a la derecha',
+  'settings.prefetch.label': 'Carga en segundo plano',
+  'settings.prefetch.description': 'Cargar los tiempos de HLTB de toda tu biblioteca en segundo plano',
+  'settings.prefetch.progress': { one: '{done} / {count} juego', other: '{done} / {count} juegos' },
+  'settings.prefetch.failed': '{count} con error',
+  'settings.prefetch.paused': 'en pausa',
+  'settings.prefetch.done': 'terminado',
+  'settings.prefetch.backoff': 'Errores de HLTB, se reintentará más tarde',
+  'settings.prefetch.pause': 'Pausar',
+  'settings.prefetch.resume': 'Reanudar',
+  'settings.backlog.label': 'Backlog',
+  'settings.backlog.description': 'Tiempos de HLTB de cada juego de tu biblioteca',
+  'settings.stats.label': 'Estadísticas',
+  'settings.stats.description': 'Horas restantes del backlog, duración de los juegos y juegos que podrías terminar este fin de semana',
+  'settings.collections.label': 'Colecciones por duración',
+  'settings.collections.description': 'Crea o actualiza una colección de Steam con los juegos que cumplen todas las condiciones. Solo se incluyen juegos con tiempos de HLTB guardados; abre el Backlog o activa la precarga para guardar tu biblioteca. Primero abre la vista previa: Crear / Actualizar guarda exactamente los cambios de la vista previa, y los juegos sin tiempos guardados nunca se quitan.',
+  'settings.collections.preset.shortMain': 'Historia principal de menos de 10 h',
+  'settings.collections.preset.unmatched': 'Juegos sin coincidencia',
+  'settings.collections.preset.longCompletionist': 'Completista de más de 100 h',
+  'settings.collections.kind.time': 'Tiempo',
+  'settings.collections.kind.matched': 'Encontrado en HLTB',
+  'settings.collections.kind.unmatched': 'Sin coincidencia en HLTB',
+  'settings.collections.under': 'menos de',
+  'settings.collections.over': 'más de',
+  'settings.collections.hours': 'horas',
+  'settings.collections.addCondition': 'Añadir condición',
+  'settings.collections.name': 'Nombre de la colección',
+  'settings.collections.preview': 'Vista previa',
+  'settings.collections.apply': 'Crear / Actualizar',
+  'settings.collections.nameRequired': 'Introduce un nombre para la colección',
+  'settings.collections.unavailable': 'Las colecciones de Steam no están disponibles',
+  'settings.collections.dynamic': '"{name}" es una colección dinámica y no se puede modificar',
+  'settings.collections.matches': { one: '{count} juego coincide', other: '{count} juegos coinciden' },
+  'settings.collections.toCreate': { one: 'Crea "{name}" con {count} juego:', other: 'Crea "{name}" con {count} juegos:' },
+  'settings.collections.toAdd': { one: 'Añade {count} juego:', other: 'Añade {count} juegos:' },
+  'settings.collections.toRemove': { one: 'Quita {count} juego:', other: 'Quita {count} juegos:' },
+  'settings.collections.keptUnknown': { one: 'Mantiene {count} juego sin tiempos de HLTB guardados', other: 'Mantiene {count} juegos sin tiempos de HLTB guardados' },
+  'settings.collections.noChanges': 'La colección ya está al día',
+  'settings.collections.created': { one: 'Se creó "{name}" con {count} juego', other: 'Se creó "{name}" con {count} juegos' },
+  'settings.collections.updated': 'Se actualizó "{name}": {added} añadidos, {removed} quitados',
+  'settings.collections.failed': 'No se pudo guardar la colección',
+  'settings.overrides.label': 'Asignaciones manuales',
+  'settings.overrides.description': 'Juegos asignados manualmente con «¿Juego incorrecto?»',
+  'settings.overrides.empty': 'No hay asignaciones manuales. Usa «¿Juego incorrecto?» en la página de un juego.',
+  'settings.overrides.app': 'App {id}',
+  'settings.overrides.matchedTo': 'Asignado a {name}',
+  'settings.backup.label': 'Copia de seguridad',
+  'settings.backup.description': 'Exporta ajustes, cachés y asignaciones como JSON, o pega una copia abajo para importarla',
+  'settings.backup.export': 'Exportar',
+  'settings.backup.placeholder': 'Copia de seguridad JSON',
+  'settings.backup.importMerge': 'Importar (combinar)',
+  'settings.backup.importReplace': 'Importar (reemplazar)',
+  'settings.backup.copied': 'Copia de seguridad copiada al portapapeles',
+  'settings.backup.copyManually': 'Copia de seguridad lista abajo, cópiala manualmente',
+  'settings.backup.importFailed': 'Error al importar: {errors}',
+  'settings.backup.moreErrors': '(+{count} más)',
+  'settings.backup.merged': 'Copia de seguridad combinada',
+  'settings.backup.restored': 'Copia de seguridad restaurada',
+  'settings.selectors.label': 'Selectores personalizados',
+  'settings.selectors.description': 'Paquetes de selectores en JSON que se prueban antes de los integrados, por si una actualización de Steam rompe la detección',
+  'settings.selectors.placeholder': '{"name": "...", "containerSelector": "..."}',
+  'settings.selectors.save': 'Guardar',
+  'settings.selectors.validate': 'Probar en la página actual',
+  'settings.selectors.saved': { one: '{count} paquete de selectores guardado', other: '{count} paquetes de selectores guardados' },
+  'settings.selectors.invalid': 'Selectores no válidos: {errors}',
+  'settings.selectors.match': '{name}: coincide',
+  'settings.selectors.noMatch': '{name}: sin coincidencia (contenedor {container}, imágenes {images})',
+  'settings.maxCacheAge.label': 'Antigüedad máxima de la caché (días)',
+  'settings.maxCacheAge.description': 'Los tiempos guardados más antiguos no se muestran, aunque no se pueda acceder a HLTB (1-90)',
+  'settings.cacheStats.label': 'Estadísticas de caché',
+  'settings.cacheStats.view': 'Ver',
+  'settings.cacheStats.resultEmpty': 'Caché de resultados: vacía',
+  'settings.cacheStats.result': { one: 'Caché de resultados: {count} juego, el más antiguo {age} d', other: 'Caché de resultados: {count} juegos, el más antiguo {age} d' },
+  'settings.cacheStats.idEmpty': 'Caché de ID: vacía',
+  'settings.cacheStats.id': { one: 'Caché de ID: {count} asignación, {age} d', other: 'Caché de ID: {count} asignaciones, {age} d' },
+  'settings.clearCache.label': 'Vaciar caché',
+  'settings.clearCache.clear': 'Vaciar',
+  'settings.clearCache.cleared': 'Todas las cachés vaciadas',
+  'settings.section.general': 'General',
+  'settings.section.position': 'Posición',
+  'settings.section.appearance': 'Apariencia',
+  'settings.section.display': 'Visualización',
+  'settings.section.matching': 'Coincidencias',
+  'settings.section.library': 'Biblioteca',
+  'settings.section.data': 'Datos',
+  'settings.reset': 'Restablecer',
+  'settings.invalidNumber': 'Introduce un número de {min} a {max}',
+  'settings.invalidWholeNumber': 'Introduce un número entero de {min} a {max}',
+  'settings.presets.label': 'Ajustes predefinidos',
+  'settings.presets.description': 'Un punto de partida; cada ajuste se puede seguir cambiando después',
+  'settings.presets.topLeft': 'Arriba a la izquierda',
+  'settings.presets.topRight': 'Arriba a la derecha',
+  'settings.presets.bottomLeft': 'Abajo a la izquierda',
+  'settings.presets.bottomRight': 'Abajo a la derecha',
+  'settings.presets.compact': 'Compacto',
+  'settings.presets.applied': 'Ajuste predefinido aplicado: {name}',
+  'settings.restoreDefaults.label': 'Restaurar valores predeterminados',
+  'settings.restoreDefaults.description': 'Restablece todos los ajustes. Las cachés, asignaciones manuales y juegos completados se conservan.',
+  'settings.restoreDefaults.confirm': '¿Restablecer todos los ajustes a sus valores predeterminados?',
+  'settings.restoreDefaults.restore': 'Restaurar',
+  'settings.restoreDefaults.done': 'Ajustes predeterminados restaurados',
+
+  // Backlog view
+  'backlog.title': 'Backlog de HLTB',
+  'backlog.empty': 'No se encontraron juegos en tu biblioteca.',
+  'backlog.summary': { one: '{count} juego, {matched} encontrados en HLTB', other: '{count} juegos, {matched} encontrados en HLTB' },
+  'backlog.fetching': 'Cargando, quedan {count}...',
+  'backlog.game': 'Juego',
+  'backlog.total': 'Total',
+
+  // Statistics view
+  'stats.title': 'Estadísticas de HLTB',
+  'stats.library': 'Biblioteca',
+  'stats.matched': { one: '{count} encontrado', other: '{count} encontrados' },
+  'stats.unmatched': { one: '{count} sin coincidencia en HLTB', other: '{count} sin coincidencia en HLTB' },
+  'stats.uncached': { one: '{count} sin buscar aún', other: '{count} sin buscar aún' },
+  'stats.imported': { one: '{count} de la importación de Steam', other: '{count} de la importación de Steam' },
+  'stats.completed': { one: '{count} completado', other: '{count} completados' },
+  'stats.hoursPerWeek': 'Horas por semana',
+  'stats.hoursLeft': 'Horas restantes',
+  'stats.hoursLeftDescription': 'Tiempos de HLTB de los juegos encontrados menos tu tiempo de juego, sin los juegos completados',
+  'stats.weeks': { one: 'unas {count} semana', other: 'unas {count} semanas' },
+  'stats.histogram': 'Duración de los juegos',
+  'stats.histogramDescription': 'Juegos encontrados según la historia principal',
+  'stats.bucket': '{min}-{max} h',
+  'stats.bucketOver': '{min} h+',
+  'stats.quickWins': 'Para terminar este fin de semana',
+  'stats.quickWinsDescription': 'Juegos con {hours} h o menos de historia principal restante',
+  'stats.quickWinsEmpty': 'Ningún juego tiene {hours} h o menos de historia principal restante',
+
+  // Match picker
+  'picker.title': 'Elegir juego de HLTB',
+  'picker.search': 'Buscar',
+  'picker.searching': 'Buscando...',
+  'picker.noResults': 'Sin resultados en HLTB',
+  'picker.use': 'Elegir',
+
+  // Details panel
+  'details.title': 'Detalles de HLTB',
+  'details.loading': 'Cargando detalles...',
+  'details.failed': 'No se pudieron cargar los detalles de HLTB.',
+  'details.alias': 'También conocido como',
+  'details.release': 'Lanzamiento',
+  'details.developer': 'Desarrollador',
+  'details.publisher': 'Editor',
+  'details.genres': 'Géneros',
+  'details.platforms': 'Plataformas',
+  'details.platformTimes': 'Tiempos por plataforma',
+  'details.platform': 'Plataforma',
+  'details.dlc': 'DLC y expansiones',
+  'details.openExternal': 'Abrir en HowLongToBeat',
+};
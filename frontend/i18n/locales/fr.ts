@@ -0,0 +1,296 @@
+import type { Catalog } from '../catalog';
+
+export const fr: Catalog = {
+  // Display box
+  'display.loading': 'Chargement...',
+  'display.searchHltb': 'Chercher sur HLTB',
+  'display.viewDetails': 'Détails',
+  'display.wrongGame': 'Mauvais jeu ?',
+  'display.pickGame': 'Choisir le jeu',
+  'display.timeLeft': 'encore {time}',
+  'display.targetReached': 'Objectif atteint',
+  'display.played': '{time} joué',
+  'display.more': 'Plus',
+  'display.less': 'Moins',
+  'display.lowConfidence': { one: 'Basé sur seulement {count} contribution', other: 'Basé sur seulement {count} contributions' },
+  'display.submissions': { one: '{count} contribution', other: '{count} contributions' },
+  'display.reviewScore': 'Note : {score} %',
+  'display.fuzzyMatch': 'Correspondance incertaine',
+  'display.fuzzyMatchTooltip': '« {matched} » trouvé pour « {searched} » ({confidence} % de similarité)',
+  'display.dlcFor': 'DLC de {game}',
+  'display.ownedDlc': { one: '{count} DLC possédé : +{time} {stat}', other: '{count} DLC possédés : +{time} {stat}' },
+  'display.markCompleted': 'Marquer comme terminé',
+  'display.completed': 'Terminé ✓',
+  'display.personalEstimate': 'Environ {time} pour vous ({stat})',
+  'display.personalEstimateTooltip': { one: 'D’après {count} jeu terminé : vous mettez {factor}× le temps HLTB', other: 'D’après {count} jeux terminés : vous mettez {factor}× le temps HLTB' },
+  'display.noMatch': 'Aucun résultat HLTB pour « {name} »',
+  'display.retry': 'Réessayer',
+  'display.copyDiagnostics': 'Copier le diagnostic',
+  'display.copied': 'Copié',
+  'display.copyFailed': 'Échec de la copie',
+  'display.editHint': 'Faites glisser pour déplacer · Entrée pour enregistrer · Échap pour annuler',
+  'display.editDone': 'Terminé',
+  'display.error.offline': 'Hors ligne - HLTB est injoignable',
+  'display.error.backend_unavailable': 'Le backend du plugin ne répond pas',
+  'display.error.name_unresolved': "Impossible d'obtenir le nom du jeu depuis Steam",
+  'display.error.hltb_unreachable': 'HLTB est injoignable',
+  'display.error.hltb_invalid_response': 'HLTB a envoyé une réponse inattendue',
+  'display.error.import_unavailable': "L'import de la bibliothèque Steam est indisponible",
+  'display.error.bad_request': 'Requête invalide vers le backend du plugin',
+  'display.error.internal': 'Une erreur est survenue lors de la recherche de ce jeu',
+  'display.offline': 'Hors ligne',
+  'display.cachedHoursAgo': { one: 'En cache depuis {count} heure', other: 'En cache depuis {count} heures' },
+  'display.cachedDaysAgo': { one: 'En cache depuis {count} jour', other: 'En cache depuis {count} jours' },
+
+  // Stat labels
+  'stat.comp_main': 'Histoire',
+  'stat.comp_plus': 'Histoire + extras',
+  'stat.comp_100': 'Complétionniste',
+  'stat.comp_all': 'Tous styles',
+  'stat.invested_co': 'Coop',
+  'stat.invested_mp': 'Versus',
+
+  // Time units
+  'time.hours': '{value} h',
+  'time.minutes': '{value} min',
+  'time.hoursMinutes': '{hours} h {minutes} min',
+  'time.days': { one: '{value} jour', other: '{value} jours' },
+
+  // Common
+  'common.open': 'Ouvrir',
+  'common.close': 'Fermer',
+  'common.remove': 'Supprimer',
+
+  // Settings page
+  'settings.language.label': 'Langue',
+  'settings.language.description': 'Par défaut : langue du client Steam',
+  'settings.language.auto': 'Automatique',
+  'settings.horizontalOffset.label': 'Décalage horizontal (px)',
+  'settings.horizontalOffset.description': 'Distance au bord. Par défaut : 0',
+  'settings.verticalOffset.label': 'Décalage vertical (px)',
+  'settings.verticalOffset.description': 'Distance au bord. Par défaut : 0',
+  'settings.alignRight.label': 'Aligner à droite',
+  'settings.alignRight.description': "Afficher à droite de l'en-tête. Désactiver pour la gauche.",
+  'settings.alignBottom.label': 'Aligner en bas',
+  'settings.alignBottom.description': "Afficher en bas de l'en-tête. Désactiver pour le haut.",
+  'settings.editLayout.label': 'Modifier la disposition',
+  'settings.editLayout.description': "Déplacez la boîte sur la page du jeu ouverte en la faisant glisser ou avec les flèches. Elle s'aimante aux bords et aux coins de l'en-tête. La position est enregistrée pour le mode dans lequel la page du jeu est affichée : bureau, ou Big Picture / Steam Deck.",
+  'settings.editLayout.start': 'Modifier',
+  'settings.editLayout.started': 'Déplacez la boîte sur la page du jeu, puis cliquez sur Terminé',
+  'settings.editLayout.noGamePage': "Ouvrez d'abord la page d'un jeu",
+  'settings.gamepad.label': 'Big Picture / Steam Deck',
+  'settings.gamepad.description': "Position du cadre en mode Big Picture et sur le Steam Deck, réglée séparément du bureau. Le cadre y reste aussi à l'écart des bords de l'écran.",
+  'settings.theme.label': 'Thème',
+  'settings.theme.description': 'Couleurs de la boîte et des temps sur les vignettes de la bibliothèque',
+  'settings.theme.default': 'Par défaut',
+  'settings.theme.light': 'Clair',
+  'settings.theme.transparent': 'Transparent',
+  'settings.theme.steam': 'Accent Steam',
+  'settings.displayLayout.label': 'Disposition',
+  'settings.displayLayout.description': 'Compacte réduit les temps et les espacements ; Verticale affiche un temps par ligne',
+  'settings.displayLayout.standard': 'Standard',
+  'settings.displayLayout.compact': 'Compacte',
+  'settings.displayLayout.vertical': 'Verticale',
+  'settings.backgroundColor.label': "Couleur d'arrière-plan",
+  'settings.textColor.label': 'Couleur du texte',
+  'settings.accentColor.label': "Couleur d'accent",
+  'settings.themeColor.description': 'Réinitialiser pour utiliser la couleur du thème',
+  'settings.backgroundOpacity.label': "Opacité de l'arrière-plan (%)",
+  'settings.backgroundOpacity.description': 'Par défaut : 85',
+  'settings.fontScale.label': 'Taille du texte (%)',
+  'settings.fontScale.description': 'Par défaut : 100',
+  'settings.cornerRadius.label': 'Arrondi des coins (px)',
+  'settings.cornerRadius.description': 'Par défaut : 0',
+  'settings.showViewDetails.label': 'Afficher le lien Détails',
+  'settings.showViewDetails.description': 'Afficher un lien vers la page HLTB du jeu',
+  'settings.detailsOpenExternal.label': 'Ouvrir les détails dans le navigateur',
+  'settings.detailsOpenExternal.description': 'Ouvrir le site HLTB au lieu du panneau de détails dans Steam',
+  'settings.preview.label': 'Aperçu',
+  'settings.columns.label': 'Colonnes',
+  'settings.columns.description': 'Choisir les temps affichés, leur ordre et leurs libellés',
+  'settings.timeFormat.label': "Format de l'heure",
+  'settings.timeFormat.decimal': 'Heures (12,5 h)',
+  'settings.timeFormat.h': 'Heures entières (13 h)',
+  'settings.timeFormat.hm': 'Heures et minutes (12 h 30 min)',
+  'settings.timeFormat.days': 'Jours',
+  'settings.hoursPerDay.label': 'Heures par jour',
+  'settings.hoursPerDay.description': 'Temps de jeu par jour, pour convertir les temps en jours. Par défaut : 2',
+  'settings.hoursPerWeek.description': 'Temps de jeu par semaine, utilisé pour la projection des statistiques. Par défaut : 10',
+  'settings.progressTarget.label': 'Progression',
+  'settings.progressTarget.description': 'Comparer votre temps de jeu Steam à une catégorie HLTB',
+  'settings.progressTarget.off': 'Désactivé',
+  'settings.showPercentages.label': 'Afficher les pourcentages',
+  'settings.showPercentages.description': 'Afficher votre temps de jeu en pourcentage de chaque catégorie',
+  'settings.extendedView.label': 'Vue détaillée',
+  'settings.extendedView.description': 'Afficher tous les styles de jeu, le nombre de contributions et la note',
+  'settings.extendedView.off': 'Désactivée',
+  'settings.extendedView.hover': 'Au survol',
+  'settings.extendedView.toggle': 'Avec un bouton « Plus »',
+  'settings.confidenceThreshold.label': "Seuil d'alerte de correspondance (%)",
+  'settings.confidenceThreshold.description': "Avertir quand un jeu a été trouvé avec un nom moins similaire que ce seuil. 0 désactive les alertes. Par défaut : 80",
+  'settings.showOwnedDlc.label': 'Afficher les DLC possédés',
+  'settings.showOwnedDlc.description': 'Affiche sous les durées le temps HLTB supplémentaire des DLC que vous possédez. Nécessite une requête HLTB de plus par jeu',
+  'settings.personalPace.label': 'Rythme personnel',
+  'settings.personalPace.description': 'Ajoute un bouton « Marquer comme terminé ». Après {count} jeux terminés, indique le temps que devrait vous prendre l’histoire principale, d’après votre temps de jeu Steam dans ces jeux',
+  'settings.tileBadges.label': 'Vignettes de la bibliothèque',
+  'settings.tileBadges.description': 'Afficher les durées HLTB sur les jeux de la grille et des étagères de collections',
+  'settings.tileBadges.off': 'Désactivé',
+  'settings.tileBadges.badge': 'Badge',
+  'settings.tileBadges.hover': 'Carte au survol',
+  'settings.tileBadgeStat.label': 'Durée du badge',
+  'settings.tileBadgePosition.label': 'Position sur la vignette',
+  'settings.tileBadgePosition.topLeft': 'En haut à gauche',
+  'settings.tileBadgePosition.topRight': 'En haut à droite',
+  'settings.tileBadgePosition.bottomLeft': 'En bas à gauche',
+  'settings.tileBadgePosition.bottomRight': 'En bas à droite',
+  'settings.prefetch.label': 'Préchargement',
+  'settings.prefetch.description': "Charger les temps HLTB de toute votre bibliothèque en arrière-plan",
+  'settings.prefetch.progress': { one: '{done} / {count} jeu', other: '{done} / {count} jeux' },
+  'settings.prefetch.failed': '{count} en échec',
+  'settings.prefetch.paused': 'en pause',
+  'settings.prefetch.done': 'terminé',
+  'settings.prefetch.backoff': 'Erreurs HLTB, nouvel essai plus tard',
+  'settings.prefetch.pause': 'Pause',
+  'settings.prefetch.resume': 'Reprendre',
+  'settings.backlog.label': 'Backlog',
+  'settings.backlog.description': 'Temps HLTB de chaque jeu de votre bibliothèque',
+  'settings.stats.label': 'Statistiques',
+  'settings.stats.description': 'Heures restantes dans votre backlog, durées des jeux et jeux à finir ce week-end',
+  'settings.collections.label': 'Collections par durée',
+  'settings.collections.description': "Crée ou met à jour une collection Steam avec les jeux qui remplissent toutes les conditions. Seuls les jeux dont les temps HLTB sont en cache sont inclus ; ouvrez le Backlog ou activez le préchargement pour mettre votre bibliothèque en cache. Affichez d'abord l'aperçu : Créer / Mettre à jour enregistre exactement les changements de l'aperçu, et les jeux sans temps en cache ne sont jamais retirés.",
+  'settings.collections.preset.shortMain': 'Histoire principale de moins de 10 h',
+  'settings.collections.preset.unmatched': 'Jeux sans correspondance',
+  'settings.collections.preset.longCompletionist': 'Complétionniste de plus de 100 h',
+  'settings.collections.kind.time': 'Temps',
+  'settings.collections.kind.matched': 'Trouvé sur HLTB',
+  'settings.collections.kind.unmatched': 'Aucun résultat HLTB',
+  'settings.collections.under': 'moins de',
+  'settings.collections.over': 'plus de',
+  'settings.collections.hours': 'heures',
+  'settings.collections.addCondition': 'Ajouter une condition',
+  'settings.collections.name': 'Nom de la collection',
+  'settings.collections.preview': 'Aperçu',
+  'settings.collections.apply': 'Créer / Mettre à jour',
+  'settings.collections.nameRequired': 'Saisissez un nom de collection',
+  'settings.collections.unavailable': 'Les collections Steam ne sont pas disponibles',
+  'settings.collections.dynamic': '« {name} » est une collection dynamique et ne peut pas être modifiée',
+  'settings.collections.matches': { one: '{count} jeu correspond', other: '{count} jeux correspondent' },
+  'settings.collections.toCreate': { one: 'Crée « {name} » avec {count} jeu :', other: 'Crée « {name} » avec {count} jeux :' },
+  'settings.collections.toAdd': { one: 'Ajoute {count} jeu :', other: 'Ajoute {count} jeux :' },
+  'settings.collections.toRemove': { one: 'Retire {count} jeu :', other: 'Retire {count} jeux :' },
+  'settings.collections.keptUnknown': { one: 'Garde {count} jeu sans temps HLTB en cache', other: 'Garde {count} jeux sans temps HLTB en cache' },
+  'settings.collections.noChanges': 'La collection est déjà à jour',
+  'settings.collections.created': { one: '« {name} » créée avec {count} jeu', other: '« {name} » créée avec {count} jeux' },
+  'settings.collections.updated': '« {name} » mise à jour : {added} ajoutés, {removed} retirés',
+  'settings.collections.failed': "Impossible d'enregistrer la collection",
+  'settings.overrides.label': 'Correspondances manuelles',
+  'settings.overrides.description': 'Jeux associés manuellement avec « Mauvais jeu ? »',
+  'settings.overrides.empty': 'Aucune correspondance manuelle. Utilisez « Mauvais jeu ? » sur la page d\'un jeu.',
+  'settings.overrides.app': 'App {id}',
+  'settings.overrides.matchedTo': 'Associé à {name}',
+  'settings.backup.label': 'Sauvegarde',
+  'settings.backup.description': 'Exporter les paramètres, caches et correspondances en JSON, ou coller une sauvegarde ci-dessous pour l\'importer',
+  'settings.backup.export': 'Exporter',
+  'settings.backup.placeholder': 'Sauvegarde JSON',
+  'settings.backup.importMerge': 'Importer (fusionner)',
+  'settings.backup.importReplace': 'Importer (remplacer)',
+  'settings.backup.copied': 'Sauvegarde copiée dans le presse-papiers',
+  'settings.backup.copyManually': 'Sauvegarde prête ci-dessous, copiez-la manuellement',
+  'settings.backup.importFailed': "Échec de l'import : {errors}",
+  'settings.backup.moreErrors': '(+{count} autres)',
+  'settings.backup.merged': 'Sauvegarde fusionnée',
+  'settings.backup.restored': 'Sauvegarde restaurée',
+  'settings.selectors.label': 'Sélecteurs personnalisés',
+  'settings.selectors.description': 'Packs de sélecteurs en JSON essayés avant les sélecteurs intégrés, si une mise à jour de Steam casse la détection',
+  'settings.selectors.placeholder': '{"name": "...", "containerSelector": "..."}',
+  'settings.selectors.save': 'Enregistrer',
+  'settings.selectors.validate': 'Tester sur la page actuelle',
+  'settings.selectors.saved': { one: '{count} pack de sélecteurs enregistré', other: '{count} packs de sélecteurs enregistrés' },
+  'settings.selectors.invalid': 'Sélecteurs invalides : {errors}',
+  'settings.selectors.match': '{name} : correspond',
+  'settings.selectors.noMatch': '{name} : aucune correspondance (conteneur {container}, images {images})',
+  'settings.maxCacheAge.label': 'Âge maximal du cache (jours)',
+  'settings.maxCacheAge.description': 'Les temps en cache plus anciens ne sont pas affichés, même si HLTB est injoignable (1-90)',
+  'settings.cacheStats.label': 'Statistiques du cache',
+  'settings.cacheStats.view': 'Afficher',
+  'settings.cacheStats.resultEmpty': 'Cache des résultats : vide',
+  'settings.cacheStats.result': { one: 'Cache des résultats : {count} jeu, le plus ancien {age} j', other: 'Cache des résultats : {count} jeux, le plus ancien {age} j' },
+  'settings.cacheStats.idEmpty': 'Cache des ID : vide',
+  'settings.cacheStats.id': { one: 'Cache des ID : {count} correspondance, {age} j', other: 'Cache des ID : {count} correspondances, {age} j' },
+  'settings.clearCache.label': 'Vider le cache',
+  'settings.clearCache.clear': 'Vider',
+  'settings.clearCache.cleared': 'Tous les caches ont été vidés',
+  'settings.section.general': 'Général',
+  'settings.section.position': 'Position',
+  'settings.section.appearance': 'Apparence',
+  'settings.section.display': 'Affichage',
+  'settings.section.matching': 'Correspondance',
+  'settings.section.library': 'Bibliothèque',
+  'settings.section.data': 'Données',
+  'settings.reset': 'Réinitialiser',
+  'settings.invalidNumber': 'Saisissez un nombre de {min} à {max}',
+  'settings.invalidWholeNumber': 'Saisissez un nombre entier de {min} à {max}',
+  'settings.presets.label': 'Préréglages',
+  'settings.presets.description': 'Un point de départ ; chaque paramètre reste modifiable ensuite',
+  'settings.presets.topLeft': 'En haut à gauche',
+  'settings.presets.topRight': 'En haut à droite',
+  'settings.presets.bottomLeft': 'En bas à gauche',
+  'settings.presets.bottomRight': 'En bas à droite',
+  'settings.presets.compact': 'Compact',
+  'settings.presets.applied': 'Préréglage appliqué : {name}',
+  'settings.restoreDefaults.label': 'Restaurer les valeurs par défaut',
+  'settings.restoreDefaults.description': 'Réinitialise tous les paramètres. Les caches, correspondances manuelles et jeux terminés sont conservés.',
+  'settings.restoreDefaults.confirm': 'Réinitialiser tous les paramètres à leurs valeurs par défaut ?',
+  'settings.restoreDefaults.restore': 'Restaurer',
+  'settings.restoreDefaults.done': 'Paramètres par défaut restaurés',
+
+  // Backlog view
+  'backlog.title': 'Backlog HLTB',
+  'backlog.empty': 'Aucun jeu trouvé dans votre bibliothèque.',
+  'backlog.summary': { one: '{count} jeu, {matched} trouvés sur HLTB', other: '{count} jeux, {matched} trouvés sur HLTB' },
+  'backlog.fetching': 'Chargement, encore {count}...',
+  'backlog.game': 'Jeu',
+  'backlog.total': 'Total',
+
+  // Statistics view
+  'stats.title': 'Statistiques HLTB',
+  'stats.library': 'Bibliothèque',
+  'stats.matched': { one: '{count} trouvé', other: '{count} trouvés' },
+  'stats.unmatched': { one: '{count} sans résultat HLTB', other: '{count} sans résultat HLTB' },
+  'stats.uncached': { one: '{count} pas encore recherché', other: '{count} pas encore recherchés' },
+  'stats.imported': { one: "{count} via l'import Steam", other: "{count} via l'import Steam" },
+  'stats.completed': { one: '{count} terminé', other: '{count} terminés' },
+  'stats.hoursPerWeek': 'Heures par semaine',
+  'stats.hoursLeft': 'Heures restantes',
+  'stats.hoursLeftDescription': 'Temps HLTB des jeux trouvés moins votre temps de jeu, sans les jeux terminés',
+  'stats.weeks': { one: 'environ {count} semaine', other: 'environ {count} semaines' },
+  'stats.histogram': 'Durée des jeux',
+  'stats.histogramDescription': "Jeux trouvés selon l'histoire principale",
+  'stats.bucket': '{min}-{max} h',
+  'stats.bucketOver': '{min} h+',
+  'stats.quickWins': 'À finir ce week-end',
+  'stats.quickWinsDescription': "Jeux avec au plus {hours} h d'histoire principale restante",
+  'stats.quickWinsEmpty': "Aucun jeu n'a {hours} h ou moins d'histoire principale restante",
+
+  // Match picker
+  'picker.title': 'Choisir le jeu HLTB',
+  'picker.search': 'Chercher',
+  'picker.searching': 'Recherche...',
+  'picker.noResults': 'Aucun résultat HLTB',
+  'picker.use': 'Choisir',
+
+  // Details panel
+  'details.title': 'Détails HLTB',
+  'details.loading': 'Chargement des détails...',
+  'details.failed': 'Impossible de charger les détails depuis HLTB.',
+  'details.alias': 'Aussi connu sous le nom',
+  'details.release': 'Sortie',
+  'details.developer': 'Développeur',
+  'details.publisher': 'Éditeur',
+  'details.genres': 'Genres',
+  'details.platforms': 'Plateformes',
+  'details.platformTimes': 'Durées par plateforme',
+  'details.platform': 'Plateforme',
+  'details.dlc': 'DLC et extensions',
+  'details.openExternal': 'Ouvrir sur HowLongToBeat',
+};
@@ -1,159 +1,550 @@
-import { useState, useEffect } from 'react';
-import { definePlugin, Millennium, IconsModule, Field, DialogButton } from '@steambrew/client';
+import { useState, useEffect, Fragment } from 'react';
+import { definePlugin, callable, Millennium, IconsModule, Field, DialogButton, ConfirmModal, showModal } from '@steambrew/client';
 import { log } from './services/logger';
-import { LIBRARY_SELECTORS } from './types';
-import { setupObserver, resetState, disconnectObserver, refreshDisplay } from './injection/observer';
+import { installCallable } from './services/rpc';
+import { setupObserver, resetState, disconnectObserver, refreshDisplay, editLayout } from './injection/observer';
+import { setupTileBadges, refreshTileBadges, disconnectTileBadges } from './injection/tiles';
 import { exposeDebugTools, removeDebugTools } from './debug/tools';
 import { removeStyles } from './display/styles';
-import { removeExistingDisplay } from './display/components';
-import { clearCache, getCacheStats } from './services/cache';
-import { getSettings, saveSettings } from './services/settings';
+import { removeExistingDisplay, getDefaultStatLabel } from './display/components';
+import { clearCache, getCacheStats, removeCacheEntry } from './services/cache';
+import { STAT_KEYS, type StatKey } from './types';
+import { getSettings, saveSettings, type PluginSettings } from './services/settings';
+import {
+  SETTINGS_SCHEMA,
+  SETTINGS_SECTIONS,
+  SETTINGS_PRESETS,
+  SETTING_KEYS,
+  getDefaultSettings,
+  type SettingsSection,
+  type SettingsPreset,
+} from './services/settingsSchema';
 import { initializeIdCache } from './services/hltbApi';
 import { getIdCacheStats, clearIdCache } from './services/hltbIdCache';
+import { getAllOverrides, removeOverride, type MatchOverride } from './services/overrides';
+import { exportStateJson, importState, type ImportMode } from './services/backup';
+import { publishState, schedulePublish } from './services/sharedState';
+import { MIN_PACE_SAMPLES } from './services/pace';
+import {
+  startPrefetch,
+  pausePrefetch,
+  resumePrefetch,
+  stopPrefetch,
+  getPrefetchProgress,
+  subscribePrefetch,
+  type PrefetchProgress,
+} from './services/prefetch';
+import { openBacklog } from './views/backlog';
+import { openStats } from './views/stats';
+import { DisplayPreview } from './views/displayPreview';
+import { CollectionFilter } from './views/collectionFilter';
+import { SettingField, ResetButton } from './views/settingField';
+import { parseSelectorPacks, reloadSelectorPacks, validateSelectorPacks } from './injection/selectors';
+import { t, resetLocale, LOCALES, type Locale, type MessageKey } from './i18n';
 
 let currentDocument: Document | undefined;
 let initializedForUserId: string | null = null;
 
+// Settings that change what library tiles show
+const TILE_SETTINGS: Array<keyof PluginSettings> = [
+  'tileBadges',
+  'tileBadgeStat',
+  'tileBadgePosition',
+  'statColumns',
+  'statLabels',
+  'timeFormat',
+  'hoursPerDay',
+];
+
+const SECTION_LABELS: Record<SettingsSection, MessageKey> = {
+  general: 'settings.section.general',
+  position: 'settings.section.position',
+  gamepad: 'settings.gamepad.label',
+  appearance: 'settings.section.appearance',
+  display: 'settings.section.display',
+  matching: 'settings.section.matching',
+  library: 'settings.section.library',
+  data: 'settings.section.data',
+};
+
+const SECTION_DESCRIPTIONS: Partial<Record<SettingsSection, MessageKey>> = {
+  gamepad: 'settings.gamepad.description',
+};
+
+// Parameters for descriptions that mention a constant
+const DESCRIPTION_PARAMS: Partial<Record<keyof PluginSettings, Record<string, number>>> = {
+  personalPace: { count: MIN_PACE_SAMPLES },
+};
+
+const SectionHeader = ({ section }: { section: SettingsSection }) => {
+  const description = SECTION_DESCRIPTIONS[section];
+  return (
+    <Field
+      label={<span style={{ fontSize: '18px', fontWeight: 'bold' }}>{t(SECTION_LABELS[section])}</span>}
+      description={description ? t(description) : undefined}
+      bottomSeparator="thick"
+    />
+  );
+};
+
 const SettingsContent = () => {
+  const [settings, setSettings] = useState<PluginSettings>(() => getSettings());
   const [message, setMessage] = useState('');
-  const [horizontalOffset, setHorizontalOffset] = useState('0');
-  const [verticalOffset, setVerticalOffset] = useState('0');
-  const [showViewDetails, setShowViewDetails] = useState(true);
-  const [alignRight, setAlignRight] = useState(true);
-  const [alignBottom, setAlignBottom] = useState(true);
+  const [overrides, setOverrides] = useState<Array<{ appId: number } & MatchOverride>>([]);
+  const [backupJson, setBackupJson] = useState('');
+  const [prefetchProgress, setPrefetchProgress] = useState<PrefetchProgress>(getPrefetchProgress());
+  const [previewVersion, setPreviewVersion] = useState(0);
+  const [selectorPacks, setSelectorPacks] = useState('');
+
+  const loadSettings = () => {
+    const stored = getSettings();
+    setSettings(stored);
+    setSelectorPacks(stored.selectorPacks);
+    setOverrides(getAllOverrides());
+    setPreviewVersion((v) => v + 1);
+  };
 
   useEffect(() => {
-    const settings = getSettings();
-    setHorizontalOffset(String(settings.horizontalOffset));
-    setVerticalOffset(String(settings.verticalOffset));
-    setShowViewDetails(settings.showViewDetails);
-    setAlignRight(settings.alignRight);
-    setAlignBottom(settings.alignBottom);
+    loadSettings();
+    return subscribePrefetch(setPrefetchProgress);
   }, []);
 
-  const onHorizontalOffsetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setHorizontalOffset(value);
-    const numValue = parseInt(value, 10);
-    if (!isNaN(numValue) && numValue >= 0) {
-      saveSettings({ ...getSettings(), horizontalOffset: numValue });
-      refreshDisplay();
+  // Save, then update the game page display, library tiles and the settings preview
+  const updateSettings = (changes: Partial<PluginSettings>) => {
+    const next = { ...getSettings(), ...changes };
+    saveSettings(next);
+    setSettings(next);
+    schedulePublish();
+
+    // Changing the language re-renders the whole page, since every label changes
+    if ('language' in changes) resetLocale();
+    if ('prefetchEnabled' in changes) {
+      if (next.prefetchEnabled) {
+        startPrefetch();
+      } else {
+        stopPrefetch();
+      }
+    }
+    if ('selectorPacks' in changes) {
+      setSelectorPacks(next.selectorPacks);
+      reloadSelectorPacks();
     }
+
+    refreshDisplay();
+    if ('language' in changes || TILE_SETTINGS.some((key) => key in changes)) {
+      refreshTileBadges();
+    }
+    setPreviewVersion((v) => v + 1);
+  };
+
+  const { statColumns, statLabels } = settings;
+
+  const onStatVisibleChange = (key: StatKey, visible: boolean) => {
+    updateSettings({ statColumns: visible ? [...statColumns, key] : statColumns.filter((k) => k !== key) });
+  };
+
+  const onStatMove = (key: StatKey, offset: -1 | 1) => {
+    const index = statColumns.indexOf(key);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= statColumns.length) return;
+
+    const columns = [...statColumns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateSettings({ statColumns: columns });
+  };
+
+  const onStatLabelChange = (key: StatKey, label: string) => {
+    const labels = { ...statLabels, [key]: label };
+    if (!label) delete labels[key];
+    updateSettings({ statLabels: labels });
   };
 
-  const onVerticalOffsetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setVerticalOffset(value);
-    const numValue = parseInt(value, 10);
-    if (!isNaN(numValue) && numValue >= 0) {
-      saveSettings({ ...getSettings(), verticalOffset: numValue });
-      refreshDisplay();
+  // Visible stats in display order, then the hidden ones
+  const orderedStats: StatKey[] = [
+    ...statColumns,
+    ...STAT_KEYS.filter((key) => !statColumns.includes(key)),
+  ];
+
+  const onPrefetchPauseResume = () => {
+    if (prefetchProgress.status === 'paused') {
+      resumePrefetch();
+    } else {
+      pausePrefetch();
     }
   };
 
-  const onShowViewDetailsChange = (checked: boolean) => {
-    setShowViewDetails(checked);
-    saveSettings({ ...getSettings(), showViewDetails: checked });
-    refreshDisplay();
+  const describePrefetch = (): string => {
+    const { status, total, completed, failed, backoffUntil } = prefetchProgress;
+    if (status === 'idle') return t('settings.prefetch.description');
+
+    const parts = [t('settings.prefetch.progress', { done: completed + failed, count: total })];
+    if (failed > 0) parts.push(t('settings.prefetch.failed', { count: failed }));
+    if (status === 'paused') parts.push(t('settings.prefetch.paused'));
+    if (status === 'done') parts.push(t('settings.prefetch.done'));
+    if (status === 'running' && backoffUntil && backoffUntil > Date.now()) {
+      parts.push(t('settings.prefetch.backoff'));
+    }
+    return parts.join(', ');
   };
 
-  const onAlignRightChange = (checked: boolean) => {
-    setAlignRight(checked);
-    saveSettings({ ...getSettings(), alignRight: checked });
-    refreshDisplay();
+  const onApplyPreset = (preset: SettingsPreset) => {
+    updateSettings(preset.changes);
+    setMessage(t('settings.presets.applied', { name: t(preset.label) }));
   };
 
-  const onAlignBottomChange = (checked: boolean) => {
-    setAlignBottom(checked);
-    saveSettings({ ...getSettings(), alignBottom: checked });
+  const onEditLayout = () => {
+    setMessage(t(editLayout() ? 'settings.editLayout.started' : 'settings.editLayout.noGamePage'));
+  };
+
+  const onRestoreDefaults = () => {
+    showModal(
+      <ConfirmModal
+        strTitle={t('settings.restoreDefaults.label')}
+        strDescription={t('settings.restoreDefaults.confirm')}
+        strOKButtonText={t('settings.restoreDefaults.restore')}
+        bDestructiveWarning
+        onOK={() => {
+          updateSettings(getDefaultSettings());
+          setMessage(t('settings.restoreDefaults.done'));
+        }}
+      />,
+      window
+    );
+  };
+
+  const onRemoveOverride = async (appId: number) => {
+    removeOverride(appId);
+    // Drop the cached result too, so the next visit re-matches automatically
+    await removeCacheEntry(appId);
+    setOverrides(getAllOverrides());
+    schedulePublish();
+  };
+
+  const onExport = async () => {
+    const json = await exportStateJson();
+    setBackupJson(json);
+    navigator.clipboard
+      ?.writeText(json)
+      .then(() => setMessage(t('settings.backup.copied')))
+      .catch(() => setMessage(t('settings.backup.copyManually')));
+  };
+
+  const onImport = async (mode: ImportMode) => {
+    const result = await importState(backupJson, mode);
+    if (!result.success) {
+      const more = result.errors.length > 3 ? ` ${t('settings.backup.moreErrors', { count: result.errors.length - 3 })}` : '';
+      setMessage(t('settings.backup.importFailed', { errors: result.errors.slice(0, 3).join('; ') + more }));
+      return;
+    }
+
+    resetLocale();
+    loadSettings();
+    reloadSelectorPacks();
     refreshDisplay();
+    refreshTileBadges();
+    schedulePublish();
+    setMessage(t(mode === 'merge' ? 'settings.backup.merged' : 'settings.backup.restored'));
+  };
+
+  const onSaveSelectors = () => {
+    const { packs, errors } = parseSelectorPacks(selectorPacks);
+    if (errors.length > 0) {
+      setMessage(t('settings.selectors.invalid', { errors: errors.join('; ') }));
+      return;
+    }
+
+    updateSettings({ selectorPacks: selectorPacks.trim() });
+    setMessage(t('settings.selectors.saved', { count: packs.length }));
+  };
+
+  const onValidateSelectors = () => {
+    const report = validateSelectorPacks(currentDocument ?? document);
+    setMessage(
+      report
+        .map((pack) =>
+          pack.matches
+            ? t('settings.selectors.match', { name: pack.name })
+            : t('settings.selectors.noMatch', {
+                name: pack.name,
+                container: pack.containerMatches,
+                images: pack.headerImageMatches + pack.fallbackImageMatches,
+              })
+        )
+        .join(' | ')
+    );
   };
 
-  const onCacheStats = () => {
-    const stats = getCacheStats();
-    const idStats = getIdCacheStats();
+  const onCacheStats = async () => {
+    const stats = await getCacheStats();
+    const idStats = await getIdCacheStats();
 
     const parts: string[] = [];
 
     // Result cache stats
     if (stats.count === 0) {
-      parts.push('Result cache: empty');
+      parts.push(t('settings.cacheStats.resultEmpty'));
     } else {
       const age = stats.oldestTimestamp
         ? Math.round((Date.now() - stats.oldestTimestamp) / (1000 * 60 * 60 * 24))
         : 0;
-      parts.push(`Result cache: ${stats.count} games, oldest ${age}d`);
+      parts.push(t('settings.cacheStats.result', { count: stats.count, age }));
     }
 
     // ID cache stats
     if (idStats.count === 0) {
-      parts.push('ID cache: empty');
+      parts.push(t('settings.cacheStats.idEmpty'));
     } else {
       const age = idStats.ageMs
         ? Math.round(idStats.ageMs / (1000 * 60 * 60 * 24))
         : 0;
-      parts.push(`ID cache: ${idStats.count} mappings, ${age}d old`);
+      parts.push(t('settings.cacheStats.id', { count: idStats.count, age }));
     }
 
     setMessage(parts.join(' | '));
   };
 
-  const onClearCache = () => {
-    clearCache();
-    clearIdCache();
-    setMessage('All caches cleared');
+  const onClearCache = async () => {
+    await clearCache();
+    await clearIdCache();
+    setMessage(t('settings.clearCache.cleared'));
+  };
+
+  // Fields the schema marks 'custom' or leaves without a label are drawn here
+  const renderCustomField = (key: keyof PluginSettings) => {
+    switch (key) {
+      case 'language':
+        return (
+          <Field label={t('settings.language.label')} description={t('settings.language.description')} bottomSeparator="standard">
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <select
+                value={settings.language}
+                onChange={(e) => updateSettings({ language: e.target.value as 'auto' | Locale })}
+                style={{ padding: '4px 8px' }}
+              >
+                <option value="auto">{t('settings.language.auto')}</option>
+                {(Object.keys(LOCALES) as Locale[]).map((locale) => (
+                  <option key={locale} value={locale}>
+                    {LOCALES[locale].name}
+                  </option>
+                ))}
+              </select>
+              <ResetButton keys={['language']} settings={settings} onChange={updateSettings} />
+            </div>
+          </Field>
+        );
+
+      case 'statColumns':
+        return (
+          <>
+            <Field label={t('settings.preview.label')} bottomSeparator="standard">
+              <DisplayPreview version={previewVersion} />
+            </Field>
+            <Field label={t('settings.columns.label')} description={t('settings.columns.description')} bottomSeparator="none">
+              <ResetButton keys={['statColumns', 'statLabels']} settings={settings} onChange={updateSettings} />
+            </Field>
+            {orderedStats.map((stat, i) => {
+              const visible = statColumns.includes(stat);
+              const index = statColumns.indexOf(stat);
+              return (
+                <Field
+                  key={stat}
+                  label={getDefaultStatLabel(stat)}
+                  bottomSeparator={i === orderedStats.length - 1 ? 'standard' : 'none'}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <input
+                      type="text"
+                      value={statLabels[stat] ?? ''}
+                      placeholder={getDefaultStatLabel(stat)}
+                      onChange={(e) => onStatLabelChange(stat, e.target.value)}
+                      style={{ width: '120px', padding: '4px 8px' }}
+                    />
+                    <DialogButton onClick={() => onStatMove(stat, -1)} disabled={!visible || index === 0} style={{ width: 'auto', padding: '4px 12px' }}>
+                      ▲
+                    </DialogButton>
+                    <DialogButton
+                      onClick={() => onStatMove(stat, 1)}
+                      disabled={!visible || index === statColumns.length - 1}
+                      style={{ width: 'auto', padding: '4px 12px' }}
+                    >
+                      ▼
+                    </DialogButton>
+                    <input
+                      type="checkbox"
+                      checked={visible}
+                      onChange={(e) => onStatVisibleChange(stat, e.target.checked)}
+                      style={{ width: '20px', height: '20px' }}
+                    />
+                  </div>
+                </Field>
+              );
+            })}
+          </>
+        );
+
+      case 'prefetchEnabled':
+        return (
+          <Field label={t('settings.prefetch.label')} description={describePrefetch()} bottomSeparator="standard">
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              {(prefetchProgress.status === 'running' || prefetchProgress.status === 'paused') && (
+                <DialogButton onClick={onPrefetchPauseResume} style={{ padding: '8px 16px' }}>
+                  {t(prefetchProgress.status === 'paused' ? 'settings.prefetch.resume' : 'settings.prefetch.pause')}
+                </DialogButton>
+              )}
+              <input
+                type="checkbox"
+                checked={settings.prefetchEnabled}
+                onChange={(e) => updateSettings({ prefetchEnabled: e.target.checked })}
+                style={{ width: '20px', height: '20px' }}
+              />
+            </div>
+          </Field>
+        );
+
+      case 'selectorPacks':
+        return (
+          <>
+            <Field label={t('settings.selectors.label')} description={t('settings.selectors.description')} bottomSeparator="none">
+              <ResetButton keys={['selectorPacks']} settings={settings} onChange={updateSettings} />
+            </Field>
+            <Field bottomSeparator="standard">
+              <textarea
+                value={selectorPacks}
+                onChange={(e) => setSelectorPacks(e.target.value)}
+                placeholder={t('settings.selectors.placeholder')}
+                rows={3}
+                style={{ width: '100%', padding: '4px 8px', resize: 'vertical', fontFamily: 'monospace' }}
+              />
+              <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                <DialogButton onClick={onSaveSelectors} style={{ padding: '8px 16px' }}>{t('settings.selectors.save')}</DialogButton>
+                <DialogButton onClick={onValidateSelectors} style={{ padding: '8px 16px' }}>{t('settings.selectors.validate')}</DialogButton>
+              </div>
+            </Field>
+          </>
+        );
+
+      default:
+        // statLabels is edited together with the columns
+        return null;
+    }
+  };
+
+  const renderField = (key: keyof PluginSettings) => {
+    const schema = SETTINGS_SCHEMA[key];
+    if (schema.showIf && !schema.showIf(settings)) return null;
+    if (schema.type === 'custom' || !schema.label) return renderCustomField(key);
+    return <SettingField name={key} settings={settings} onChange={updateSettings} descriptionParams={DESCRIPTION_PARAMS[key]} />;
+  };
+
+  // Rows after a section's settings: presets, tools and maintenance actions
+  const renderSectionTools = (section: SettingsSection) => {
+    switch (section) {
+      case 'general':
+        return (
+          <Field label={t('settings.presets.label')} description={t('settings.presets.description')} bottomSeparator="standard">
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+              {SETTINGS_PRESETS.map((preset) => (
+                <DialogButton key={preset.id} onClick={() => onApplyPreset(preset)} style={{ width: 'auto', padding: '4px 12px' }}>
+                  {t(preset.label)}
+                </DialogButton>
+              ))}
+            </div>
+          </Field>
+        );
+
+      case 'position':
+        return (
+          <Field label={t('settings.editLayout.label')} description={t('settings.editLayout.description')} bottomSeparator="standard">
+            <DialogButton onClick={onEditLayout} style={{ padding: '8px 16px' }}>{t('settings.editLayout.start')}</DialogButton>
+          </Field>
+        );
+
+      case 'library':
+        return (
+          <>
+            <Field label={t('settings.backlog.label')} description={t('settings.backlog.description')} bottomSeparator="standard">
+              <DialogButton onClick={openBacklog} style={{ padding: '8px 16px' }}>{t('common.open')}</DialogButton>
+            </Field>
+            <Field label={t('settings.stats.label')} description={t('settings.stats.description')} bottomSeparator="standard">
+              <DialogButton onClick={openStats} style={{ padding: '8px 16px' }}>{t('common.open')}</DialogButton>
+            </Field>
+            <Field label={t('settings.collections.label')} description={t('settings.collections.description')} bottomSeparator="none" />
+            <Field bottomSeparator="standard">
+              <CollectionFilter />
+            </Field>
+          </>
+        );
+
+      case 'data':
+        return (
+          <>
+            <Field
+              label={t('settings.overrides.label')}
+              description={t(overrides.length > 0 ? 'settings.overrides.description' : 'settings.overrides.empty')}
+              bottomSeparator={overrides.length > 0 ? 'none' : 'standard'}
+            />
+            {overrides.map((override, i) => (
+              <Field
+                key={override.appId}
+                label={override.appName || t('settings.overrides.app', { id: override.appId })}
+                description={t('settings.overrides.matchedTo', { name: override.hltbName })}
+                bottomSeparator={i === overrides.length - 1 ? 'standard' : 'none'}
+              >
+                <DialogButton onClick={() => onRemoveOverride(override.appId)} style={{ padding: '8px 16px' }}>{t('common.remove')}</DialogButton>
+              </Field>
+            ))}
+            <Field
+              label={t('settings.backup.label')}
+              description={t('settings.backup.description')}
+              bottomSeparator="none"
+            >
+              <DialogButton onClick={onExport} style={{ padding: '8px 16px' }}>{t('settings.backup.export')}</DialogButton>
+            </Field>
+            <Field bottomSeparator="standard">
+              <textarea
+                value={backupJson}
+                onChange={(e) => setBackupJson(e.target.value)}
+                placeholder={t('settings.backup.placeholder')}
+                rows={3}
+                style={{ width: '100%', padding: '4px 8px', resize: 'vertical' }}
+              />
+              <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                <DialogButton onClick={() => onImport('merge')} disabled={!backupJson} style={{ padding: '8px 16px' }}>
+                  {t('settings.backup.importMerge')}
+                </DialogButton>
+                <DialogButton onClick={() => onImport('replace')} disabled={!backupJson} style={{ padding: '8px 16px' }}>
+                  {t('settings.backup.importReplace')}
+                </DialogButton>
+              </div>
+            </Field>
+            <Field label={t('settings.cacheStats.label')} bottomSeparator="standard">
+              <DialogButton onClick={onCacheStats} style={{ padding: '8px 16px' }}>{t('settings.cacheStats.view')}</DialogButton>
+            </Field>
+            <Field label={t('settings.clearCache.label')} bottomSeparator="standard">
+              <DialogButton onClick={onClearCache} style={{ padding: '8px 16px' }}>{t('settings.clearCache.clear')}</DialogButton>
+            </Field>
+            <Field label={t('settings.restoreDefaults.label')} description={t('settings.restoreDefaults.description')} bottomSeparator="standard">
+              <DialogButton onClick={onRestoreDefaults} style={{ padding: '8px 16px' }}>{t('settings.restoreDefaults.restore')}</DialogButton>
+            </Field>
+          </>
+        );
+
+      default:
+        return null;
+    }
   };
 
   return (
     <>
-      <Field label="Horizontal Offset (px)" description="Distance from edge. Default: 0" bottomSeparator="standard">
-        <input
-          type="number"
-          min={0}
-          value={horizontalOffset}
-          onChange={onHorizontalOffsetChange}
-          style={{ width: '60px', padding: '4px 8px' }}
-        />
-      </Field>
-      <Field label="Vertical Offset (px)" description="Distance from edge. Default: 0" bottomSeparator="standard">
-        <input
-          type="number"
-          min={0}
-          value={verticalOffset}
-          onChange={onVerticalOffsetChange}
-          style={{ width: '60px', padding: '4px 8px' }}
-        />
-      </Field>
-      <Field label="Align to Right" description="Position on right side of header. Disable for left side." bottomSeparator="standard">
-        <input
-          type="checkbox"
-          checked={alignRight}
-          onChange={(e) => onAlignRightChange(e.target.checked)}
-          style={{ width: '20px', height: '20px' }}
-        />
-      </Field>
-      <Field label="Align to Bottom" description="Position at bottom of header. Disable for top." bottomSeparator="standard">
-        <input
-          type="checkbox"
-          checked={alignBottom}
-          onChange={(e) => onAlignBottomChange(e.target.checked)}
-          style={{ width: '20px', height: '20px' }}
-        />
-      </Field>
-      <Field label="Show View Details Link" description="Display link to HLTB game page" bottomSeparator="standard">
-        <input
-          type="checkbox"
-          checked={showViewDetails}
-          onChange={(e) => onShowViewDetailsChange(e.target.checked)}
-          style={{ width: '20px', height: '20px' }}
-        />
-      </Field>
-      <Field label="Cache Statistics" bottomSeparator="standard">
-        <DialogButton onClick={onCacheStats} style={{ padding: '8px 16px' }}>View Stats</DialogButton>
-      </Field>
-      <Field label="Clear Cache" bottomSeparator="standard">
-        <DialogButton onClick={onClearCache} style={{ padding: '8px 16px' }}>Clear</DialogButton>
-      </Field>
+      {SETTINGS_SECTIONS.map((section) => (
+        <Fragment key={section}>
+          <SectionHeader section={section} />
+          {SETTING_KEYS.filter((key) => SETTINGS_SCHEMA[key].section === section).map((key) => (
+            <Fragment key={key}>{renderField(key)}</Fragment>
+          ))}
+          {renderSectionTools(section)}
+        </Fragment>
+      ))}
       {message && <Field description={message} />}
     </>
   );
@@ -163,6 +554,7 @@ window.lastClickedElement = "undefined";
 
 export default definePlugin(() => {
   log('HLTB plugin loading...');
+  installCallable(callable);
 
   Millennium.AddWindowCreateHook?.((context: any) => {
     // Only handle main Steam windows (Desktop or Big Picture)
@@ -206,25 +598,37 @@ export default definePlugin(() => {
       removeStyles(currentDocument);
       removeExistingDisplay(currentDocument);
       disconnectObserver();
+      disconnectTileBadges();
       resetState();
     }
 
     currentDocument = doc;
-    setupObserver(doc, LIBRARY_SELECTORS);
+    setupObserver(doc, context.m_strName.startsWith('SP GamepadUI') ? 'gamepad' : 'desktop');
+    setupTileBadges(doc);
     exposeDebugTools(doc);
 
     // Initialize ID cache in background (non-blocking)
     // Uses HLTB's Steam import API to get steam_id -> hltb_id mappings
     // Skip if already successfully initialized for this user ID
     const steamUserId = (window as any).App?.m_CurrentUser?.strSteamID;
+    let idCacheReady: Promise<unknown> = Promise.resolve();
     if (steamUserId && steamUserId !== initializedForUserId) {
-      initializeIdCache(steamUserId).then((success) => {
+      idCacheReady = initializeIdCache(steamUserId).then((success) => {
         if (success) {
           initializedForUserId = steamUserId;
           log('ID cache initialized successfully');
         }
       });
     }
+
+    // Start prefetch once ID mappings are known, so it can use direct lookups.
+    // The store pages get the same mappings with the rest of the state.
+    idCacheReady.then(() => {
+      publishState();
+      if (getSettings().prefetchEnabled) {
+        startPrefetch();
+      }
+    });
   });
 
   return {
@@ -20,17 +20,53 @@ function tryExtractGamePage(
   return { appId, container };
 }
 
-export async function detectGamePage(doc: Document, selectors: LibrarySelectors): Promise<GamePageInfo | null> {
+// App ID of the library route on screen (/app/<id>), or null on other pages
+export function getRouteAppId(): number | null {
+  const match = window.MainWindowBrowserManager?.m_lastLocation?.pathname?.match(/\/app\/(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// App ID in the src of the container's header image, or null without one (e.g. custom art)
+function getHeroAppId(container: HTMLElement, selectors: LibrarySelectors): number | null {
+  for (const imageSelector of [selectors.headerImageSelector, selectors.fallbackImageSelector]) {
+    const img = container.querySelector(imageSelector) as HTMLImageElement | null;
+    const match = img?.src.match(selectors.appIdPattern);
+    if (match) return parseInt(match[1], 10);
+  }
+  return null;
+}
+
+/**
+ * Container of the game page for `appId`, in candidate order. GamepadUI keeps
+ * the previous game page mounted before the current one with the same classes,
+ * so containers whose header image belongs to another app are skipped, and
+ * one showing `appId`'s image wins over one whose image has no app ID.
+ */
+function findContainer(doc: Document, candidates: LibrarySelectors[], appId: number): HTMLElement | null {
+  let withoutAppId: HTMLElement | null = null;
+  for (const selectors of candidates) {
+    for (const container of Array.from(doc.querySelectorAll<HTMLElement>(selectors.containerSelector))) {
+      const heroAppId = getHeroAppId(container, selectors);
+      if (heroAppId === appId) return container;
+      if (heroAppId === null) withoutAppId ??= container;
+    }
+  }
+  return withoutAppId;
+}
+
+/**
+ * Finds the game page's app ID and injection container. Each strategy tries
+ * every candidate selector set in order, so a newer set can take over when
+ * Steam changes its class names.
+ */
+export async function detectGamePage(doc: Document, candidates: LibrarySelectors[]): Promise<GamePageInfo | null> {
   // Strategy 1: Check Millennium's Location (URL path)
   // This is reliable and works even with custom art
-  if (window.MainWindowBrowserManager?.m_lastLocation?.pathname) {
-    const match = window.MainWindowBrowserManager.m_lastLocation.pathname.match(/\/app\/(\d+)/);
-    if (match) {
-      const appId = parseInt(match[1], 10);
-      const container = doc.querySelector(selectors.containerSelector) as HTMLElement | null;
-      if (container) {
-        return { appId, container };
-      }
+  const routeAppId = getRouteAppId();
+  if (routeAppId !== null) {
+    const container = findContainer(doc, candidates, routeAppId);
+    if (container) {
+      return { appId: routeAppId, container };
     }
   }
 
@@ -41,7 +77,7 @@ export async function detectGamePage(doc: Document, selectors: LibrarySelectors)
       // @ts-ignore - GetActiveAppID might return -1 or 0 if invalid
       const appId = await window.SteamClient.Apps.GetActiveAppID();
       if (appId > 0) {
-        const container = doc.querySelector(selectors.containerSelector) as HTMLElement | null;
+        const container = findContainer(doc, candidates, appId);
         if (container) {
           return { appId, container };
         }
@@ -53,8 +89,11 @@ export async function detectGamePage(doc: Document, selectors: LibrarySelectors)
 
   // Strategy 3 (Fallback): Legacy Image Source Check
   // Fragile: breaks with custom logos
-  return (
-    tryExtractGamePage(doc, selectors.headerImageSelector, selectors.containerSelector, selectors.appIdPattern) ||
-    tryExtractGamePage(doc, selectors.fallbackImageSelector, selectors.containerSelector, selectors.appIdPattern)
-  );
+  for (const selectors of candidates) {
+    const page =
+      tryExtractGamePage(doc, selectors.headerImageSelector, selectors.containerSelector, selectors.appIdPattern) ||
+      tryExtractGamePage(doc, selectors.fallbackImageSelector, selectors.containerSelector, selectors.appIdPattern);
+    if (page) return page;
+  }
+  return null;
 }
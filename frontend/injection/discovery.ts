@@ -0,0 +1,210 @@
+/**
+ * Selector Discovery
+ *
+ * Fallback for when no selector pack finds the game page, usually right after
+ * a Steam update renamed the obfuscated classes. Discovery looks for the
+ * `library_hero` image of the app on screen, walks up to the first ancestor
+ * that is positioned and large enough to hold the display, and builds a
+ * selector pack from the classes it finds. Other `/assets/` images (logos,
+ * capsules, friends' games) are never taken for the hero.
+ *
+ * Layout is read through a LayoutReader, so the same heuristic runs against
+ * the live page and against saved fixtures:
+ * - liveLayout: computed style and bounding box of the rendered element
+ * - fixtureLayout: `data-hltb-layout` attributes written by captureFixture(),
+ *   for HTML saved from desktop and GamepadUI pages and parsed with DOMParser
+ */
+
+import { LIBRARY_SELECTORS, type GamePageInfo, type SelectorPack } from '../types';
+
+export interface ElementLayout {
+  width: number;
+  height: number;
+  position: string;
+}
+
+export type LayoutReader = (el: Element) => ElementLayout | null;
+
+export interface DiscoveryStep {
+  element: string;
+  layout: ElementLayout | null;
+  suitable: boolean;
+}
+
+export interface DiscoveryReport {
+  appId: number | null;
+  imageSrc: string | null;
+  steps: DiscoveryStep[];
+  pack: SelectorPack | null;
+  // Why discovery failed; null on success
+  failure: string | null;
+}
+
+export interface DiscoveryResult {
+  page: GamePageInfo | null;
+  report: DiscoveryReport;
+}
+
+export const DISCOVERED_PACK_NAME = 'Discovered';
+
+const HERO_IMAGE_SELECTOR = 'img[src*="library_hero"]';
+const MIN_CONTAINER_WIDTH = 400;
+const MIN_CONTAINER_HEIGHT = 150;
+const MAX_ANCESTOR_DEPTH = 10;
+const LAYOUT_ATTRIBUTE = 'data-hltb-layout';
+
+export function liveLayout(el: Element): ElementLayout | null {
+  const view = el.ownerDocument.defaultView;
+  if (!view) return null;
+
+  const rect = el.getBoundingClientRect();
+  return { width: rect.width, height: rect.height, position: view.getComputedStyle(el).position };
+}
+
+// Reads layout recorded as `data-hltb-layout="<width>x<height> <position>"`
+export function fixtureLayout(el: Element): ElementLayout | null {
+  const match = el.getAttribute(LAYOUT_ATTRIBUTE)?.match(/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?) (\S+)$/);
+  if (!match) return null;
+
+  return { width: parseFloat(match[1]), height: parseFloat(match[2]), position: match[3] };
+}
+
+function isSuitableContainer(layout: ElementLayout | null): boolean {
+  return (
+    layout !== null &&
+    layout.position !== 'static' &&
+    layout.width >= MIN_CONTAINER_WIDTH &&
+    layout.height >= MIN_CONTAINER_HEIGHT
+  );
+}
+
+function describeElement(el: Element): string {
+  const classes = Array.from(el.classList).join('.');
+  return classes ? `${el.tagName.toLowerCase()}.${classes}` : el.tagName.toLowerCase();
+}
+
+function escapeClass(className: string): string {
+  return typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(className) : className.replace(/[^\w-]/g, '\\$&');
+}
+
+function classSelector(el: Element): string | null {
+  if (el.classList.length === 0) return null;
+  return Array.from(el.classList)
+    .map((c) => `.${escapeClass(c)}`)
+    .join('');
+}
+
+// A class-based selector matching only `el` in its document, or null.
+// `scope` is a selector for an ancestor to qualify it with as a last resort.
+function uniqueSelector(el: Element, suffix = '', scope?: string): string | null {
+  const doc = el.ownerDocument;
+  const own = classSelector(el);
+  if (own) {
+    const selector = `${el.tagName.toLowerCase()}${own}${suffix}`;
+    if (doc.querySelectorAll(selector).length === 1) return selector;
+  }
+
+  // Qualify with the nearest classed parent
+  const parent = el.parentElement;
+  const parentSelector = parent ? classSelector(parent) : null;
+  if (own && parentSelector) {
+    const selector = `${parentSelector} > ${el.tagName.toLowerCase()}${own}${suffix}`;
+    if (doc.querySelectorAll(selector).length === 1) return selector;
+  }
+
+  // GamepadUI keeps the previous game page mounted, with identical classes
+  if (own && scope) {
+    const selector = `${scope} ${el.tagName.toLowerCase()}${own}${suffix}`;
+    if (doc.querySelectorAll(selector).length === 1) return selector;
+  }
+  return null;
+}
+
+// The first hero image with an app ID, or with `appId` when one is given
+function findHeroImage(doc: Document, appId: number | null): { img: HTMLImageElement; appId: number } | null {
+  for (const img of Array.from(doc.querySelectorAll<HTMLImageElement>(HERO_IMAGE_SELECTOR))) {
+    const match = (img.getAttribute('src') ?? '').match(LIBRARY_SELECTORS.appIdPattern);
+    const imageAppId = match ? parseInt(match[1], 10) : null;
+    if (imageAppId !== null && (appId === null || imageAppId === appId)) return { img, appId: imageAppId };
+  }
+  return null;
+}
+
+/**
+ * Runs the discovery heuristic on `doc`. With `appId`, only that app's hero
+ * image counts. Does not touch the page or storage; the caller decides
+ * whether to use and persist the discovered pack.
+ */
+export function discoverGamePage(
+  doc: Document,
+  readLayout: LayoutReader = liveLayout,
+  appId: number | null = null
+): DiscoveryResult {
+  const report: DiscoveryReport = { appId: null, imageSrc: null, steps: [], pack: null, failure: null };
+  const fail = (failure: string): DiscoveryResult => ({ page: null, report: { ...report, failure } });
+
+  const hero = findHeroImage(doc, appId);
+  if (!hero) return fail(appId === null ? 'No hero image with an app ID found' : `No hero image for app ${appId} found`);
+  report.appId = hero.appId;
+  report.imageSrc = hero.img.getAttribute('src');
+
+  let container: HTMLElement | null = null;
+  let el = hero.img.parentElement;
+  for (let depth = 0; el && el !== doc.body && depth < MAX_ANCESTOR_DEPTH; depth++) {
+    const layout = readLayout(el);
+    const suitable = isSuitableContainer(layout);
+    report.steps.push({ element: describeElement(el), layout, suitable });
+    if (suitable) {
+      container = el;
+      break;
+    }
+    el = el.parentElement;
+  }
+  if (!container) return fail('No positioned ancestor of the hero image is large enough');
+
+  const containerSelector = uniqueSelector(container);
+  if (!containerSelector) return fail(`No unique selector for container ${describeElement(container)}`);
+
+  const headerImageSelector = uniqueSelector(hero.img, '[src*="library_hero"]', containerSelector);
+  if (!headerImageSelector) return fail(`No unique selector for image ${describeElement(hero.img)}`);
+
+  report.pack = {
+    name: DISCOVERED_PACK_NAME,
+    containerSelector,
+    headerImageSelector,
+    fallbackImageSelector: HERO_IMAGE_SELECTOR,
+    appIdPattern: LIBRARY_SELECTORS.appIdPattern,
+  };
+  return { page: { appId: hero.appId, container }, report };
+}
+
+/**
+ * Serializes the live page as a discovery fixture: every hero image and its
+ * ancestors get a `data-hltb-layout` attribute, so fixtureLayout() can replay
+ * the heuristic on the saved HTML without a renderer.
+ */
+export function captureFixture(doc: Document): string {
+  const annotated: Element[] = [];
+
+  for (const img of Array.from(doc.querySelectorAll(HERO_IMAGE_SELECTOR))) {
+    let el: Element | null = img;
+    for (let depth = 0; el && el !== doc.body && depth <= MAX_ANCESTOR_DEPTH; depth++) {
+      const layout = liveLayout(el);
+      if (layout && !el.hasAttribute(LAYOUT_ATTRIBUTE)) {
+        el.setAttribute(LAYOUT_ATTRIBUTE, `${Math.round(layout.width)}x${Math.round(layout.height)} ${layout.position}`);
+        annotated.push(el);
+      }
+      el = el.parentElement;
+    }
+  }
+
+  const html = doc.documentElement.outerHTML;
+  annotated.forEach((el) => el.removeAttribute(LAYOUT_ATTRIBUTE));
+  return html;
+}
+
+// Parses a fixture from captureFixture() and runs discovery on it
+export function discoverInFixture(html: string, appId: number | null = null): DiscoveryReport {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return discoverGamePage(doc, fixtureLayout, appId).report;
+}
@@ -0,0 +1,266 @@
+/**
+ * Layout Editor
+ *
+ * "Edit Layout" mode for the game page box. The box can be dragged with the
+ * mouse or by touch, or moved with the arrow keys (Shift for single pixels).
+ * On release it is anchored to the nearer edge of the header on each axis,
+ * and sticks to that edge when dropped within SNAP_DISTANCE of it.
+ *
+ * Done or Enter saves the position for the UI mode the box is shown in:
+ * desktop uses alignRight/alignBottom and the offsets, GamepadUI the
+ * gamepad* settings. GamepadUI adds the screen's safe area insets to those
+ * offsets when it draws the box, so they are saved without the insets.
+ * Escape puts the box back where it was.
+ */
+
+import type { UIMode } from '../types';
+import { log } from '../services/logger';
+import { getSettings, saveSettings, type PluginSettings } from '../services/settings';
+import { t } from '../i18n';
+
+export interface BoxPosition {
+  alignRight: boolean;
+  alignBottom: boolean;
+  horizontalOffset: number;
+  verticalOffset: number;
+}
+
+// Box bounds in pixels, relative to the header container
+export interface BoxRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface EdgeInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Dropped within this many pixels of an edge, the box sticks to it
+export const SNAP_DISTANCE = 16;
+
+const NUDGE = 10;
+const EDITING_CLASS = 'hltb-editing';
+const DONE_CLASS = 'hltb-edit-done';
+const GAMEPAD_OK_EVENT = 'vgp_onok';
+
+let session: { box: HTMLElement; finish: (save: boolean) => void } | null = null;
+
+/**
+ * Position for a box at `box` in a container of `width` x `height`: anchored
+ * to the nearer edge on each axis, offset by the distance to it. Offsets
+ * within `snapDistance` snap to 0, so a box dropped near a corner sits in it.
+ */
+export function snapPosition(box: BoxRect, width: number, height: number, snapDistance: number = SNAP_DISTANCE): BoxPosition {
+  const right = width - box.left - box.width;
+  const bottom = height - box.top - box.height;
+  const alignRight = right < box.left;
+  const alignBottom = bottom < box.top;
+
+  const snap = (offset: number) => {
+    const pixels = Math.max(0, Math.round(offset));
+    return pixels <= snapDistance ? 0 : pixels;
+  };
+
+  return {
+    alignRight,
+    alignBottom,
+    horizontalOffset: snap(alignRight ? right : box.left),
+    verticalOffset: snap(alignBottom ? bottom : box.top),
+  };
+}
+
+// The settings a position is stored in for each UI mode
+export function toPositionSettings(position: BoxPosition, mode: UIMode): Partial<PluginSettings> {
+  if (mode === 'desktop') return { ...position };
+  return {
+    gamepadAlignRight: position.alignRight,
+    gamepadAlignBottom: position.alignBottom,
+    gamepadHorizontalOffset: position.horizontalOffset,
+    gamepadVerticalOffset: position.verticalOffset,
+  };
+}
+
+// `position` less the insets of the edges it is anchored to
+export function withoutInsets(position: BoxPosition, insets: EdgeInsets): BoxPosition {
+  return {
+    ...position,
+    horizontalOffset: Math.max(0, position.horizontalOffset - (position.alignRight ? insets.right : insets.left)),
+    verticalOffset: Math.max(0, position.verticalOffset - (position.alignBottom ? insets.bottom : insets.top)),
+  };
+}
+
+// The safe area insets `env(safe-area-inset-*)` resolves to in `doc`, in pixels
+function readSafeAreaInsets(doc: Document): EdgeInsets {
+  const probe = doc.createElement('div');
+  probe.style.position = 'fixed';
+  probe.style.visibility = 'hidden';
+  probe.style.padding =
+    'env(safe-area-inset-top, 0px) env(safe-area-inset-right, 0px) env(safe-area-inset-bottom, 0px) env(safe-area-inset-left, 0px)';
+  doc.body.appendChild(probe);
+
+  const style = doc.defaultView?.getComputedStyle(probe);
+  const read = (side: keyof EdgeInsets) => parseFloat(style?.getPropertyValue(`padding-${side}`) ?? '') || 0;
+  const insets = { top: read('top'), right: read('right'), bottom: read('bottom'), left: read('left') };
+  probe.remove();
+  return insets;
+}
+
+function applyPosition(box: HTMLElement, position: BoxPosition): void {
+  box.style.left = position.alignRight ? 'auto' : `${position.horizontalOffset}px`;
+  box.style.right = position.alignRight ? `${position.horizontalOffset}px` : 'auto';
+  box.style.top = position.alignBottom ? 'auto' : `${position.verticalOffset}px`;
+  box.style.bottom = position.alignBottom ? `${position.verticalOffset}px` : 'auto';
+}
+
+// A box replaced while it was being edited no longer counts
+export function isEditingLayout(): boolean {
+  return session !== null && session.box.isConnected;
+}
+
+export function stopLayoutEdit(save: boolean): void {
+  session?.finish(save);
+}
+
+/**
+ * Makes `box` movable inside its container until Done, Enter or Escape.
+ * `onDone` runs afterwards with whether the position was saved.
+ */
+export function startLayoutEdit(box: HTMLElement, mode: UIMode, onDone: (saved: boolean) => void): boolean {
+  stopLayoutEdit(false);
+  const container = box.parentElement;
+  if (!container) return false;
+
+  const doc = box.ownerDocument;
+  const originalStyle = box.getAttribute('style') ?? '';
+
+  const bar = doc.createElement('div');
+  bar.className = 'hltb-edit-bar';
+  bar.innerHTML = `
+    <span class="hltb-label">${t('display.editHint')}</span>
+    <button class="hltb-details-btn ${DONE_CLASS}">${t('display.editDone')}</button>
+  `;
+  const doneButton = bar.querySelector<HTMLButtonElement>(`.${DONE_CLASS}`)!;
+  box.appendChild(bar);
+  box.classList.add(EDITING_CLASS);
+
+  const getRect = (): BoxRect => ({
+    left: box.offsetLeft,
+    top: box.offsetTop,
+    width: box.offsetWidth,
+    height: box.offsetHeight,
+  });
+
+  // Keep the box inside the container while it moves
+  const moveTo = (left: number, top: number) => {
+    const maxLeft = Math.max(0, container.clientWidth - box.offsetWidth);
+    const maxTop = Math.max(0, container.clientHeight - box.offsetHeight);
+    box.style.left = `${Math.min(Math.max(0, left), maxLeft)}px`;
+    box.style.top = `${Math.min(Math.max(0, top), maxTop)}px`;
+    box.style.right = 'auto';
+    box.style.bottom = 'auto';
+  };
+
+  const snap = () => applyPosition(box, snapPosition(getRect(), container.clientWidth, container.clientHeight));
+
+  let drag: { x: number; y: number; left: number; top: number } | null = null;
+
+  const onPointerDown = (e: PointerEvent) => {
+    if ((e.target as Element).closest(`.${DONE_CLASS}`)) return;
+    e.preventDefault();
+    drag = { x: e.clientX, y: e.clientY, left: box.offsetLeft, top: box.offsetTop };
+    box.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (!drag) return;
+    moveTo(drag.left + e.clientX - drag.x, drag.top + e.clientY - drag.y);
+  };
+
+  const onPointerUp = () => {
+    if (!drag) return;
+    drag = null;
+    snap();
+  };
+
+  // The box's own buttons don't act while it is being moved
+  const onClick = (e: MouseEvent) => {
+    if ((e.target as Element).closest(`.${DONE_CLASS}`)) return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!box.isConnected) {
+      // The box was re-rendered, so there is nothing left to move
+      finish(false);
+      return;
+    }
+
+    const step = e.shiftKey ? 1 : NUDGE;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+
+    if (e.key in moves) {
+      const [dx, dy] = moves[e.key];
+      moveTo(box.offsetLeft + dx, box.offsetTop + dy);
+      snap();
+    } else if (e.key === 'Enter') {
+      finish(true);
+    } else if (e.key === 'Escape') {
+      finish(false);
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const onDoneClick = () => finish(true);
+
+  const finish = (save: boolean) => {
+    // Measured with the edit bar still in place, as the box was shown when dropped
+    const dropped = snapPosition(getRect(), container.clientWidth, container.clientHeight);
+    const position = mode === 'gamepad' ? withoutInsets(dropped, readSafeAreaInsets(doc)) : dropped;
+    box.removeEventListener('pointerdown', onPointerDown);
+    box.removeEventListener('pointermove', onPointerMove);
+    box.removeEventListener('pointerup', onPointerUp);
+    box.removeEventListener('pointercancel', onPointerUp);
+    box.removeEventListener('click', onClick, true);
+    doc.removeEventListener('keydown', onKeyDown, true);
+    bar.remove();
+    box.classList.remove(EDITING_CLASS);
+    session = null;
+
+    if (save && box.isConnected) {
+      saveSettings({ ...getSettings(), ...toPositionSettings(position, mode) });
+      log('Layout saved for', mode, position);
+    } else {
+      box.setAttribute('style', originalStyle);
+      save = false;
+    }
+    onDone(save);
+  };
+
+  box.addEventListener('pointerdown', onPointerDown);
+  box.addEventListener('pointermove', onPointerMove);
+  box.addEventListener('pointerup', onPointerUp);
+  box.addEventListener('pointercancel', onPointerUp);
+  box.addEventListener('click', onClick, true);
+  doc.addEventListener('keydown', onKeyDown, true);
+  doneButton.addEventListener('click', onDoneClick);
+  doneButton.addEventListener(GAMEPAD_OK_EVENT, onDoneClick);
+  doneButton.tabIndex = 0;
+  doneButton.focus();
+
+  session = { box, finish };
+  return true;
+}
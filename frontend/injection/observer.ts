@@ -1,20 +1,41 @@
-import type { LibrarySelectors } from '../types';
+import type { HltbGameResult, HltbError, CacheEntry, DisplayData, GamePageInfo, UIMode } from '../types';
+import type { PluginSettings } from '../services/settings';
 import { log } from '../services/logger';
-import { fetchHltbData } from '../services/hltbApi';
+import { fetchHltbData, refetchHltbData, getClickedAppName } from '../services/hltbApi';
 import { getCache } from '../services/cache';
+import { getCacheStatus } from '../services/connectivity';
 import { getSettings } from '../services/settings';
-import { detectGamePage } from './detector';
+import { getPlaytimeHours } from '../services/playtime';
+import { getOwnedDlcNames, matchOwnedDlc } from '../services/dlc';
+import { getCompletion, markCompleted, unmarkCompleted } from '../services/completions';
+import { getPersonalPace, estimateForPace } from '../services/pace';
+import { buildDiagnostics, copyDiagnostics } from '../services/diagnostics';
+import { detectGamePage, getRouteAppId } from './detector';
+import { getSelectorPacks, saveDiscoveredPack } from './selectors';
+import { discoverGamePage, liveLayout, type DiscoveryReport } from './discovery';
+import { startLayoutEdit, stopLayoutEdit, isEditingLayout } from './layoutEditor';
+import { watchGamePages, unwatchGamePages } from './pageWatcher';
 import {
   createDisplay,
   getExistingDisplay,
   removeExistingDisplay,
+  type DisplayActions,
 } from '../display/components';
+import { createGamepadDisplay } from '../display/gamepad';
 import { injectStyles } from '../display/styles';
+import { openMatchPicker } from '../views/matchPicker';
+import { openGameDetails } from '../views/gameDetails';
 
 let currentAppId: number | null = null;
 let processingAppId: number | null = null;
 let currentDoc: Document | null = null;
-let observer: MutationObserver | null = null;
+let observedDoc: Document | null = null;
+let currentMode: UIMode = 'desktop';
+let lastDiscoveryAt = 0;
+let lastDiscoveryReport: DiscoveryReport | null = null;
+
+// Discovery reads layout, so it is rate limited rather than run on every mutation
+const DISCOVERY_INTERVAL = 10 * 1000;
 
 export function resetState(): void {
   currentAppId = null;
@@ -22,22 +43,176 @@ export function resetState(): void {
   currentDoc = null;
 }
 
-export function refreshDisplay(): void {
-  if (!currentDoc || !currentAppId) return;
+function renderDisplay(
+  doc: Document,
+  settings: PluginSettings,
+  data?: DisplayData,
+  actions?: DisplayActions,
+  error?: HltbError
+): HTMLElement {
+  return currentMode === 'gamepad'
+    ? createGamepadDisplay(doc, settings, data, actions, error)
+    : createDisplay(doc, settings, data, actions, error);
+}
+
+// Retry and diagnostics for a failed lookup or a game HLTB has no match for
+function getStatusActions(appId: number, outcome: { error: HltbError } | { data: HltbGameResult }): DisplayActions {
+  return {
+    onRetry: () => retryLookup(appId),
+    onCopyDiagnostics: async () => copyDiagnostics(await buildDiagnostics(appId, outcome)),
+  };
+}
 
-  const existing = getExistingDisplay(currentDoc);
+function showLookupError(doc: Document, appId: number, error: HltbError): void {
+  const existing = getExistingDisplay(doc);
   if (!existing) return;
 
-  const cached = getCache(currentAppId);
+  log('Lookup failed for appId:', appId, error.code, error.message);
+  existing.replaceWith(renderDisplay(doc, getSettings(), undefined, getStatusActions(appId, { error }), error));
+}
+
+async function retryLookup(appId: number): Promise<void> {
+  const doc = currentDoc;
+  const existing = doc ? getExistingDisplay(doc) : null;
+  if (!doc || !existing || currentAppId !== appId) return;
+
+  existing.replaceWith(renderDisplay(doc, getSettings())); // undefined data = loading state
+  const result = await refetchHltbData(appId, getClickedAppName());
+  if (currentAppId !== appId) return;
+
+  if (result.error) {
+    showLookupError(doc, appId, result.error);
+  } else {
+    refreshDisplay();
+  }
+}
+
+// Add what the Steam client knows about the app (playtime and owned DLC),
+// whether the user completed it or how long it should take them, and how
+// old the cached result is
+function withClientData(
+  appId: number,
+  data: HltbGameResult,
+  cached: { entry: CacheEntry; isStale: boolean },
+  settings: PluginSettings
+): DisplayData {
+  const completed = settings.personalPace && getCompletion(appId) !== null;
+  const pace = settings.personalPace && !completed ? getPersonalPace() : null;
+  const estimate = estimateForPace(data.comp_main, pace);
+
+  return {
+    ...data,
+    playtime_hours: getPlaytimeHours(appId),
+    owned_dlc: settings.showOwnedDlc ? matchOwnedDlc(data, getOwnedDlcNames(appId)) : undefined,
+    completed,
+    personal_estimate: pace && estimate !== null ? { hours: estimate, factor: pace.factor, sampleCount: pace.sampleCount } : null,
+    ...getCacheStatus(cached),
+  };
+}
+
+// Marking a game completed needs its playtime and Main Story time to learn
+// the pace from, so games without either can only be unmarked
+function getToggleCompleted(appId: number, data: HltbGameResult): (() => void) | undefined {
+  if (!getSettings().personalPace || !data.game_id) return undefined;
+
+  if (getCompletion(appId)) {
+    return () => {
+      unmarkCompleted(appId);
+      refreshDisplay();
+    };
+  }
+
+  const hltbMain = data.comp_main;
+  if (!hltbMain || !getPlaytimeHours(appId)) return undefined;
+  return () => {
+    const playtime = getPlaytimeHours(appId);
+    if (playtime) markCompleted(appId, playtime, hltbMain);
+    refreshDisplay();
+  };
+}
+
+function getDisplayActions(appId: number, data: HltbGameResult): DisplayActions {
+  const gameId = data.game_id;
+  return {
+    onWrongGame: () => {
+      const appName = window.appStore?.GetAppOverviewByAppID(appId)?.display_name ?? data.searched_name ?? '';
+      const query = data.searched_name || data.game_name || appName;
+      openMatchPicker(appId, appName, query, async () => {
+        await refetchHltbData(appId);
+        if (currentAppId === appId) {
+          refreshDisplay();
+        }
+      });
+    },
+    onViewDetails: gameId ? () => openGameDetails(gameId, data.game_name ?? '') : undefined,
+    onToggleCompleted: getToggleCompleted(appId, data),
+    ...(gameId ? {} : getStatusActions(appId, { data })),
+  };
+}
+
+export function getLastDiscoveryReport(): DiscoveryReport | null {
+  return lastDiscoveryReport;
+}
+
+// Known selectors failed; try to find the container heuristically. Only on
+// an /app/<id> route, and only around that app's hero image.
+function runDiscovery(doc: Document): GamePageInfo | null {
+  const routeAppId = getRouteAppId();
+  if (routeAppId === null) return null;
+  if (Date.now() - lastDiscoveryAt < DISCOVERY_INTERVAL) return null;
+  lastDiscoveryAt = Date.now();
+
+  const { page, report } = discoverGamePage(doc, liveLayout, routeAppId);
+  // No hero image yet means the page is still rendering, which isn't worth reporting
+  if (report.appId === null) return null;
+
+  lastDiscoveryReport = report;
+  if (!page || !report.pack) {
+    log('Selector discovery failed:', report.failure, '- run hltbDebug.lastDiscovery() for details');
+    return null;
+  }
+
+  log('Known selectors failed, discovered container:', report.pack.containerSelector);
+  saveDiscoveredPack(report.pack);
+  return page;
+}
+
+export async function refreshDisplay(): Promise<void> {
+  // Theme changes apply to the library tiles too, with or without a game page open
+  if (observedDoc) injectStyles(observedDoc, getSettings());
+  // Re-rendering would drop the box being moved; it is redrawn when editing ends
+  if (!currentDoc || !currentAppId || isEditingLayout()) return;
+
+  const doc = currentDoc;
+  const appId = currentAppId;
+  if (!getExistingDisplay(doc)) return;
+
+  const cached = await getCache(appId);
   const data = cached?.entry?.data;
-  if (!data) return;
+  // The page may have changed while the cache was read
+  const existing = getExistingDisplay(doc);
+  if (!cached || !data || !existing || currentAppId !== appId) return;
 
   const settings = getSettings();
-  existing.replaceWith(createDisplay(currentDoc, settings, data));
+  const display = renderDisplay(
+    doc,
+    settings,
+    withClientData(appId, data, cached, settings),
+    getDisplayActions(appId, data)
+  );
+  existing.replaceWith(display);
 }
 
-async function handleGamePage(doc: Document, selectors: LibrarySelectors): Promise<void> {
-  const gamePage = await detectGamePage(doc, selectors);
+// Starts edit layout mode for the box on the open game page; false if there is none
+export function editLayout(): boolean {
+  const box = currentDoc ? getExistingDisplay(currentDoc) : null;
+  if (!box) return false;
+
+  return startLayoutEdit(box, currentMode, () => refreshDisplay());
+}
+
+async function handleGamePage(doc: Document): Promise<void> {
+  const gamePage = (await detectGamePage(doc, getSelectorPacks())) ?? runDiscovery(doc);
   if (!gamePage) {
     // Silent return - game page not detected (common during DOM transitions)
     return;
@@ -45,7 +220,7 @@ async function handleGamePage(doc: Document, selectors: LibrarySelectors): Promi
 
   const { appId, container } = gamePage;
 
-  // Already processing this specific app - prevent re-entry from MutationObserver
+  // Already processing this specific app - prevent re-entry while its lookup runs
   if (appId === processingAppId) {
     return;
   }
@@ -66,25 +241,27 @@ async function handleGamePage(doc: Document, selectors: LibrarySelectors): Promi
   const settings = getSettings();
 
   try {
+    stopLayoutEdit(false);
     removeExistingDisplay(doc);
 
     // Ensure container has relative positioning for absolute child
     container.style.position = 'relative';
-    container.appendChild(createDisplay(doc, settings)); // undefined data = loading state
+    container.appendChild(renderDisplay(doc, settings)); // undefined data = loading state
 
     log('Fetching HLTB data for appId:', appId);
-    const result = await fetchHltbData(appId);
+    const result = await fetchHltbData(appId, getClickedAppName());
 
-    const updateDisplayForApp = (targetAppId: number) => {
-      const existing = getExistingDisplay(doc);
-      if (!existing) return false;
+    const updateDisplayForApp = async (targetAppId: number) => {
+      if (!getExistingDisplay(doc)) return false;
 
-      const cached = getCache(targetAppId);
+      const cached = await getCache(targetAppId);
       const data = cached?.entry?.data;
+      const existing = getExistingDisplay(doc);
 
-      if (data) {
+      if (cached && data && existing) {
         log('Updating display:', data.game_name || data.searched_name);
-        existing.replaceWith(createDisplay(doc, settings, data));
+        const actions = getDisplayActions(targetAppId, data);
+        existing.replaceWith(renderDisplay(doc, settings, withClientData(targetAppId, data, cached, settings), actions));
         return true;
       }
       return false;
@@ -93,16 +270,19 @@ async function handleGamePage(doc: Document, selectors: LibrarySelectors): Promi
     // If game changed during fetch, update display for the new game instead
     if (currentAppId !== null && currentAppId !== appId) {
       log('Game changed during fetch, updating display for current game:', currentAppId);
-      updateDisplayForApp(currentAppId);
+      await updateDisplayForApp(currentAppId);
       return;
     }
 
-    updateDisplayForApp(appId);
+    if (!(await updateDisplayForApp(appId)) && result.error) {
+      showLookupError(doc, appId, result.error);
+    }
 
-    // Handle background refresh for stale data
+    // Handle background refresh for stale data. A failed refresh re-renders
+    // too, so the display shows when HLTB went offline.
     if (result.refreshPromise) {
-      result.refreshPromise.then((newData) => {
-        if (newData && currentAppId === appId) {
+      result.refreshPromise.then(() => {
+        if (currentAppId === appId) {
           updateDisplayForApp(appId);
         }
       });
@@ -117,33 +297,30 @@ async function handleGamePage(doc: Document, selectors: LibrarySelectors): Promi
   }
 }
 
-export function setupObserver(doc: Document, selectors: LibrarySelectors): void {
-  // Clean up existing observer
-  if (observer) {
-    observer.disconnect();
-    observer = null;
-  }
+// Container of the box when it is shown with content (for `appId`, if given)
+function getShownContainer(doc: Document, appId: number | null): HTMLElement | null {
+  const display = getExistingDisplay(doc);
+  if (!display?.isConnected || display.children.length === 0) return null;
+  if (appId !== null && currentAppId !== appId) return null;
+  return display.parentElement;
+}
 
-  injectStyles(doc);
+export function setupObserver(doc: Document, mode: UIMode = 'desktop'): void {
+  currentMode = mode;
+  observedDoc = doc;
 
-  observer = new MutationObserver(() => {
-    handleGamePage(doc, selectors);
-  });
+  injectStyles(doc, getSettings());
 
-  observer.observe(doc.body, {
-    childList: true,
-    subtree: true,
+  // Checks for an already-rendered game page right away, then on navigation
+  watchGamePages(doc, {
+    detect: () => handleGamePage(doc),
+    getContainer: (appId) => getShownContainer(doc, appId),
   });
-
-  log('MutationObserver set up');
-
-  // Initial check for already-rendered game page
-  handleGamePage(doc, selectors);
+  log('Game page watcher set up');
 }
 
 export function disconnectObserver(): void {
-  if (observer) {
-    observer.disconnect();
-    observer = null;
-  }
+  stopLayoutEdit(false);
+  unwatchGamePages();
+  observedDoc = null;
 }
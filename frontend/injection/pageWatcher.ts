@@ -0,0 +1,157 @@
+/**
+ * Game Page Watcher
+ *
+ * Decides when to look for the game page, so detection doesn't run on every
+ * DOM mutation while Steam animates:
+ *
+ * - Navigation: route changes come from the main window's history (or, when
+ *   it can't be subscribed to, from polling `m_lastLocation`). Off /app/<id>
+ *   routes nothing is observed at all.
+ * - After navigating to a game page, the body is observed until the page has
+ *   rendered and the box is in place; from then on only the subtree around
+ *   the box's container is (its parent, so a replaced container is noticed),
+ *   to put the box back when Steam re-renders the header.
+ * - Bursts of mutations are debounced into one detection run.
+ *
+ * Without MainWindowBrowserManager (no route to follow) the body is observed
+ * throughout, still debounced.
+ *
+ * Detection runs are counted per navigation; hltbDebug.detectionStats()
+ * shows the counts.
+ */
+
+import { log } from '../services/logger';
+import { getRouteAppId } from './detector';
+
+export interface NavigationStats {
+  path: string | null;  // null when there is no route to follow
+  detections: number;   // Detection runs while this route was shown
+  found: boolean;       // Whether the box was placed
+  startedAt: number;
+}
+
+interface WatchOptions {
+  // Not awaited: it includes the HLTB lookup. Placing the box is a mutation
+  // of the observed body, which runs the watcher again.
+  detect: () => Promise<void>;
+  // The box's container once it is shown for `appId`, else null
+  getContainer: (appId: number | null) => HTMLElement | null;
+}
+
+const DEBOUNCE_DELAY = 100;
+const ROUTE_POLL_INTERVAL = 250;
+const MAX_RECENT_NAVIGATIONS = 20;
+
+let stopWatching: (() => void) | null = null;
+let current: NavigationStats | null = null;
+const recent: NavigationStats[] = [];
+
+function getRoutePath(): string | null {
+  return window.MainWindowBrowserManager?.m_lastLocation?.pathname ?? null;
+}
+
+function startNavigation(path: string | null): NavigationStats {
+  if (current) {
+    log('Detection runs for', current.path ?? 'page', current.detections, current.found ? '(box placed)' : '');
+    recent.unshift(current);
+    recent.length = Math.min(recent.length, MAX_RECENT_NAVIGATIONS);
+  }
+  current = { path, detections: 0, found: false, startedAt: Date.now() };
+  return current;
+}
+
+// Calls `listener` on every route change; returns the unsubscribe function
+function subscribeToRoute(listener: () => void): () => void {
+  const history = window.MainWindowBrowserManager?.m_history;
+  if (history?.listen) return history.listen(listener);
+
+  let lastPath = getRoutePath();
+  const timer = setInterval(() => {
+    const path = getRoutePath();
+    if (path === lastPath) return;
+    lastPath = path;
+    listener();
+  }, ROUTE_POLL_INTERVAL);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Runs `detect` when the game page may have appeared or changed, in place of
+ * a body-wide MutationObserver. Replaces the previous watcher, if any.
+ */
+export function watchGamePages(doc: Document, { detect, getContainer }: WatchOptions): void {
+  unwatchGamePages();
+
+  const routed = !!window.MainWindowBrowserManager;
+  let stats = startNavigation(routed ? getRoutePath() : null);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let observed: Element | null = null;
+
+  const observer = new MutationObserver(() => schedule());
+
+  const observe = (target: Element | null) => {
+    if (target === observed) return;
+    observer.disconnect();
+    observed = target;
+    if (target) observer.observe(target, { childList: true, subtree: true });
+  };
+
+  const run = () => {
+    timer = null;
+    if (routed) {
+      const path = getRoutePath();
+      if (path !== stats.path) stats = startNavigation(path);
+
+      const appId = getRouteAppId();
+      if (appId === null) {
+        observe(null);
+        return;
+      }
+      // The box is shown; from now on only its container needs watching
+      const shown = getContainer(appId);
+      if (shown) {
+        stats.found = true;
+        observe(shown.parentElement ?? shown);
+        return;
+      }
+    } else if (getContainer(null)) {
+      stats.found = true;
+    }
+
+    stats.detections++;
+    detect();
+    observe(doc.body);
+  };
+
+  function schedule(): void {
+    if (timer !== null) clearTimeout(timer);
+    timer = setTimeout(run, DEBOUNCE_DELAY);
+  }
+
+  // A new route renders a new page, so watch the body until the box is placed
+  const onRouteChange = () => {
+    if (getRouteAppId() !== null) observe(doc.body);
+    schedule();
+  };
+  const unsubscribe = routed ? subscribeToRoute(onRouteChange) : () => {};
+
+  stopWatching = () => {
+    if (timer !== null) clearTimeout(timer);
+    unsubscribe();
+    observer.disconnect();
+  };
+
+  // The game page may already be on screen
+  if (!routed) observe(doc.body);
+  run();
+}
+
+export function unwatchGamePages(): void {
+  stopWatching?.();
+  stopWatching = null;
+}
+
+// Detection runs for the route on screen and the last MAX_RECENT_NAVIGATIONS before it
+export function getDetectionStats(): { current: NavigationStats | null; recent: NavigationStats[] } {
+  return { current, recent: [...recent] };
+}
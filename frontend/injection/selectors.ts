@@ -0,0 +1,259 @@
+/**
+ * Selector Packs
+ *
+ * Steam's library classes are obfuscated and change with client updates.
+ * Instead of one hard-coded selector set, the detector tries a list of
+ * candidate packs in order:
+ *
+ * 1. Packs from the `selectorPacks` setting (JSON, user-editable), so a
+ *    broken Steam update can be worked around without a plugin release
+ * 2. The built-in packs shipped with the plugin: the desktop library's
+ *    classes, then the GamepadUI game page header
+ * 3. The pack found by selector discovery (see discovery.ts), stored under
+ *    'hltb-millennium-discovered-selectors' in localStorage
+ *
+ * Pack JSON is either one pack or an array of packs:
+ *   { "name": "...", "containerSelector": "...", "headerImageSelector": "...",
+ *     "fallbackImageSelector": "...", "appIdPattern": "/assets/(\\d+)" }
+ * Omitted fields fall back to the built-in pack's values.
+ */
+
+import { appDetailsHeaderClasses } from '@steambrew/client';
+import { LIBRARY_SELECTORS, type SelectorPack } from '../types';
+import { getSettings } from '../services/settings';
+import { log, logError } from '../services/logger';
+import { DISCOVERED_PACK_NAME } from './discovery';
+
+const DESKTOP_PACK: SelectorPack = { name: 'Desktop', ...LIBRARY_SELECTORS };
+
+// GamepadUI draws the game page header from the client's app details header
+// module. Its class names are read from the running client rather than
+// hard-coded; without the module there is no GamepadUI pack.
+function createGamepadPack(): SelectorPack[] {
+  const classes = appDetailsHeaderClasses;
+  if (!classes?.TopCapsule || !classes.ImgSrc) return [];
+
+  const container = `.${classes.TopCapsule}`;
+  return [
+    {
+      name: 'GamepadUI',
+      containerSelector: container,
+      headerImageSelector: `${container} img.${classes.ImgSrc}`,
+      fallbackImageSelector: `${container} img[src*="library_hero"]`,
+      appIdPattern: LIBRARY_SELECTORS.appIdPattern,
+    },
+  ];
+}
+
+export const BUILTIN_SELECTOR_PACKS: SelectorPack[] = [DESKTOP_PACK, ...createGamepadPack()];
+
+const SELECTOR_FIELDS = ['containerSelector', 'headerImageSelector', 'fallbackImageSelector'] as const;
+
+export interface SelectorPackParseResult {
+  packs: SelectorPack[];
+  errors: string[];
+}
+
+export type SelectorPackSource = 'custom' | 'builtin' | 'discovered';
+
+export interface SelectorPackReport {
+  name: string;
+  source: SelectorPackSource;
+  containerMatches: number;
+  headerImageMatches: number;
+  fallbackImageMatches: number;
+  // The container exists and at least one image selector finds the header
+  matches: boolean;
+}
+
+interface StoredDiscoveredPack {
+  containerSelector: string;
+  headerImageSelector: string;
+  fallbackImageSelector: string;
+  appIdPattern: string;
+  timestamp: number;
+}
+
+const DISCOVERED_STORAGE_KEY = 'hltb-millennium-discovered-selectors';
+
+let cachedPacks: Array<{ pack: SelectorPack; source: SelectorPackSource }> | null = null;
+
+function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parsePattern(value: unknown): RegExp | null {
+  if (value === undefined) return LIBRARY_SELECTORS.appIdPattern;
+  if (typeof value !== 'string') return null;
+
+  try {
+    return new RegExp(value);
+  } catch {
+    return null;
+  }
+}
+
+function parsePack(value: unknown, index: number, errors: string[]): SelectorPack | null {
+  const path = `pack ${index + 1}`;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path}: expected an object`);
+    return null;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const pack: SelectorPack = {
+    ...LIBRARY_SELECTORS,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : `Custom ${index + 1}`,
+  };
+
+  let valid = true;
+  for (const field of SELECTOR_FIELDS) {
+    const selector = raw[field];
+    if (selector === undefined) continue;
+    if (typeof selector !== 'string' || !isValidSelector(selector)) {
+      errors.push(`${path}.${field}: invalid selector`);
+      valid = false;
+      continue;
+    }
+    pack[field] = selector;
+  }
+
+  const pattern = parsePattern(raw.appIdPattern);
+  if (!pattern) {
+    errors.push(`${path}.appIdPattern: invalid regular expression`);
+    valid = false;
+  } else {
+    pack.appIdPattern = pattern;
+  }
+
+  return valid ? pack : null;
+}
+
+/**
+ * Parses user selector pack JSON. Invalid packs are skipped and reported;
+ * an empty string means no custom packs.
+ */
+export function parseSelectorPacks(json: string): SelectorPackParseResult {
+  if (!json.trim()) return { packs: [], errors: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { packs: [], errors: ['Invalid JSON'] };
+  }
+
+  const errors: string[] = [];
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  const packs = items
+    .map((item, i) => parsePack(item, i, errors))
+    .filter((pack): pack is SelectorPack => pack !== null);
+
+  return { packs, errors };
+}
+
+function getCustomPacks(): SelectorPack[] {
+  const { packs, errors } = parseSelectorPacks(getSettings().selectorPacks);
+  if (errors.length > 0) {
+    log('Ignoring invalid custom selector packs:', errors);
+  }
+  return packs;
+}
+
+export function getDiscoveredPack(): (SelectorPack & { timestamp: number }) | null {
+  try {
+    const raw = localStorage.getItem(DISCOVERED_STORAGE_KEY);
+    if (!raw) return null;
+
+    const stored: StoredDiscoveredPack = JSON.parse(raw);
+    return {
+      name: DISCOVERED_PACK_NAME,
+      containerSelector: stored.containerSelector,
+      headerImageSelector: stored.headerImageSelector,
+      fallbackImageSelector: stored.fallbackImageSelector,
+      appIdPattern: new RegExp(stored.appIdPattern),
+      timestamp: stored.timestamp,
+    };
+  } catch (e) {
+    logError('Discovered selectors unreadable:', e);
+    return null;
+  }
+}
+
+export function saveDiscoveredPack(pack: SelectorPack): void {
+  try {
+    const stored: StoredDiscoveredPack = {
+      containerSelector: pack.containerSelector,
+      headerImageSelector: pack.headerImageSelector,
+      fallbackImageSelector: pack.fallbackImageSelector,
+      appIdPattern: pack.appIdPattern.source,
+      timestamp: Date.now(),
+    };
+    localStorage.setItem(DISCOVERED_STORAGE_KEY, JSON.stringify(stored));
+    reloadSelectorPacks();
+    log('Saved discovered selectors:', stored.containerSelector);
+  } catch (e) {
+    logError('Discovered selectors write error:', e);
+  }
+}
+
+export function clearDiscoveredPack(): void {
+  localStorage.removeItem(DISCOVERED_STORAGE_KEY);
+  reloadSelectorPacks();
+}
+
+function getTaggedPacks(): Array<{ pack: SelectorPack; source: SelectorPackSource }> {
+  if (!cachedPacks) {
+    const discovered = getDiscoveredPack();
+    cachedPacks = [
+      ...getCustomPacks().map((pack) => ({ pack, source: 'custom' as const })),
+      ...BUILTIN_SELECTOR_PACKS.map((pack) => ({ pack, source: 'builtin' as const })),
+      ...(discovered ? [{ pack: discovered, source: 'discovered' as const }] : []),
+    ];
+  }
+  return cachedPacks;
+}
+
+// Candidate packs in the order they are tried: custom, built-in, discovered
+export function getSelectorPacks(): SelectorPack[] {
+  return getTaggedPacks().map(({ pack }) => pack);
+}
+
+// Call after the selectorPacks setting or the discovered pack changes
+export function reloadSelectorPacks(): void {
+  cachedPacks = null;
+}
+
+function countMatches(doc: Document, selector: string): number {
+  try {
+    return doc.querySelectorAll(selector).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Reports which candidate packs match the given document. Run it on a game
+ * page: on other pages no pack is expected to match.
+ */
+export function validateSelectorPacks(doc: Document): SelectorPackReport[] {
+  return getTaggedPacks().map(({ pack, source }) => {
+    const containerMatches = countMatches(doc, pack.containerSelector);
+    const headerImageMatches = countMatches(doc, pack.headerImageSelector);
+    const fallbackImageMatches = countMatches(doc, pack.fallbackImageSelector);
+
+    return {
+      name: pack.name,
+      source,
+      containerMatches,
+      headerImageMatches,
+      fallbackImageMatches,
+      matches: containerMatches > 0 && headerImageMatches + fallbackImageMatches > 0,
+    };
+  });
+}
@@ -0,0 +1,250 @@
+/**
+ * Library Grid Tile Badges
+ *
+ * Optionally shows HLTB times on game tiles in the library grid and on
+ * collection shelves (the `[draggable="true"]` elements), as a badge or as a
+ * hover card (see createTileDisplay).
+ *
+ * - Only tiles on screen are looked up, tracked with an IntersectionObserver
+ * - Visible tiles are collected into batches; cached results render at once
+ * - Misses are fetched one at a time, skipped once scrolled out of view, and
+ *   always wait for the game page request
+ * - Results are read from and written to the same cache as the game page
+ */
+
+import { LIBRARY_SELECTORS, type HltbGameResult } from '../types';
+import { log } from '../services/logger';
+import { getSettings, type PluginSettings } from '../services/settings';
+import { getCache } from '../services/cache';
+import { prefetchHltbData, hasForegroundRequest } from '../services/hltbApi';
+import { getOwnedApps } from '../services/library';
+import { createTileDisplay, TILE_CLASS } from '../display/components';
+
+const TILE_SELECTOR = '[draggable="true"]';
+const APP_ID_ATTRIBUTE = 'data-hltb-appid';
+const SCAN_DELAY = 250; // Debounce for tile scans after DOM changes
+const BATCH_DELAY = 100; // Collect tiles scrolling into view for this long
+const BATCH_SIZE = 20;
+const FETCH_INTERVAL = 1000; // ms between fetches for uncached tiles
+const FOREGROUND_POLL_INTERVAL = 250;
+
+let currentDoc: Document | null = null;
+let mutationObserver: MutationObserver | null = null;
+let intersectionObserver: IntersectionObserver | null = null;
+let observedTiles = new WeakSet<Element>();
+let scanTimer: ReturnType<typeof setTimeout> | null = null;
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+let appIdsByName: Map<string, number> | null = null;
+let fetchingGeneration: number | null = null; // Run whose fetch loop is active
+let lastFetchAt = 0;
+let generation = 0; // Bumped on every teardown, so pending work from earlier runs exits
+const visibleTiles = new Set<HTMLElement>();
+const pendingAppIds = new Set<number>();
+const fetchQueue: number[] = [];
+const fetchedAppIds = new Set<number>(); // Fetched this run, whether or not it worked
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getAppIdsByName(): Map<string, number> {
+  if (!appIdsByName) {
+    appIdsByName = new Map(getOwnedApps().map((app) => [app.name.toLowerCase(), app.appId]));
+  }
+  return appIdsByName;
+}
+
+function resolveAppId(tile: HTMLElement): number | null {
+  const images = Array.from(tile.querySelectorAll('img'));
+  // Game tiles always have capsule art; other draggables don't
+  if (images.length === 0) return null;
+
+  for (const img of images) {
+    const match = (img.getAttribute('src') ?? '').match(LIBRARY_SELECTORS.appIdPattern);
+    if (match) return parseInt(match[1], 10);
+  }
+
+  // Custom artwork has no app ID in its URL, so go by the tile's name label
+  const name = tile.children[1]?.textContent?.trim().toLowerCase();
+  return (name && getAppIdsByName().get(name)) || null;
+}
+
+function getTileDisplay(tile: HTMLElement): HTMLElement | null {
+  return tile.querySelector(`:scope > .${TILE_CLASS}`);
+}
+
+function renderTile(tile: HTMLElement, appId: number, data: HltbGameResult | null, settings: PluginSettings): void {
+  getTileDisplay(tile)?.remove();
+  // Nothing to show for games HLTB doesn't have
+  if (!data?.game_id) return;
+
+  if (tile.ownerDocument.defaultView?.getComputedStyle(tile).position === 'static') {
+    tile.style.position = 'relative';
+  }
+  const display = createTileDisplay(tile.ownerDocument, settings, data);
+  display.setAttribute(APP_ID_ATTRIBUTE, String(appId));
+  tile.appendChild(display);
+}
+
+function getVisibleTilesForApp(appId: number): HTMLElement[] {
+  return Array.from(visibleTiles).filter((tile) => resolveAppId(tile) === appId);
+}
+
+function renderApp(appId: number, data: HltbGameResult | null): void {
+  const settings = getSettings();
+  getVisibleTilesForApp(appId).forEach((tile) => renderTile(tile, appId, data, settings));
+}
+
+async function processFetchQueue(runGeneration: number): Promise<void> {
+  if (fetchingGeneration === runGeneration) return;
+  fetchingGeneration = runGeneration;
+  try {
+    while (runGeneration === generation && fetchQueue.length > 0) {
+      const wait = hasForegroundRequest() ? FOREGROUND_POLL_INTERVAL : lastFetchAt + FETCH_INTERVAL - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+        continue;
+      }
+
+      const appId = fetchQueue.shift()!;
+      // Scrolled out of view while queued; picked up again when it comes back
+      if (getVisibleTilesForApp(appId).length === 0) continue;
+
+      lastFetchAt = Date.now();
+      fetchedAppIds.add(appId);
+      if (!(await prefetchHltbData(appId))) {
+        log('Tile fetch failed for appId:', appId);
+        continue;
+      }
+
+      const cached = await getCache(appId);
+      if (runGeneration === generation && cached) {
+        renderApp(appId, cached.entry.data);
+      }
+    }
+  } finally {
+    if (fetchingGeneration === runGeneration) {
+      fetchingGeneration = null;
+    }
+  }
+}
+
+async function runBatch(runGeneration: number): Promise<void> {
+  batchTimer = null;
+  const appIds = Array.from(pendingAppIds).slice(0, BATCH_SIZE);
+  appIds.forEach((appId) => pendingAppIds.delete(appId));
+
+  for (const appId of appIds) {
+    const cached = await getCache(appId);
+    if (runGeneration !== generation) return;
+
+    if (cached) {
+      renderApp(appId, cached.entry.data);
+    } else if (!fetchedAppIds.has(appId) && !fetchQueue.includes(appId)) {
+      fetchQueue.push(appId);
+    }
+  }
+
+  if (pendingAppIds.size > 0) scheduleBatch();
+  processFetchQueue(runGeneration);
+}
+
+function scheduleBatch(): void {
+  if (batchTimer) return;
+  const runGeneration = generation;
+  batchTimer = setTimeout(() => runBatch(runGeneration), BATCH_DELAY);
+}
+
+function queueTile(tile: HTMLElement): void {
+  const appId = resolveAppId(tile);
+  if (!appId) return;
+  pendingAppIds.add(appId);
+  scheduleBatch();
+}
+
+// Observe new tiles, and re-render tiles Steam reused for a different game
+function scanTiles(): void {
+  scanTimer = null;
+  if (!currentDoc || !intersectionObserver) return;
+
+  for (const tile of Array.from(currentDoc.querySelectorAll<HTMLElement>(TILE_SELECTOR))) {
+    if (!observedTiles.has(tile)) {
+      observedTiles.add(tile);
+      intersectionObserver.observe(tile);
+    }
+  }
+
+  for (const tile of Array.from(visibleTiles)) {
+    if (!tile.isConnected) {
+      visibleTiles.delete(tile);
+      continue;
+    }
+    const display = getTileDisplay(tile);
+    if (display && display.getAttribute(APP_ID_ATTRIBUTE) !== String(resolveAppId(tile))) {
+      display.remove();
+      queueTile(tile);
+    }
+  }
+}
+
+function scheduleScan(): void {
+  if (!scanTimer) {
+    scanTimer = setTimeout(scanTiles, SCAN_DELAY);
+  }
+}
+
+/**
+ * Starts decorating tiles in `doc` if tile badges are enabled. Safe to call
+ * again; any earlier run is torn down first.
+ */
+export function setupTileBadges(doc: Document): void {
+  disconnectTileBadges();
+  currentDoc = doc;
+  if (getSettings().tileBadges === 'off') return;
+
+  const view = doc.defaultView ?? window;
+  intersectionObserver = new view.IntersectionObserver((entries) => {
+    for (const entry of entries) {
+      const tile = entry.target as HTMLElement;
+      if (entry.isIntersecting) {
+        visibleTiles.add(tile);
+        if (!getTileDisplay(tile)) queueTile(tile);
+      } else {
+        visibleTiles.delete(tile);
+      }
+    }
+  });
+
+  mutationObserver = new MutationObserver(scheduleScan);
+  mutationObserver.observe(doc.body, { childList: true, subtree: true });
+  scanTiles();
+  log('Tile badges set up');
+}
+
+// Re-render every tile, e.g. after a setting that affects tiles changed
+export function refreshTileBadges(): void {
+  if (currentDoc) {
+    setupTileBadges(currentDoc);
+  }
+}
+
+export function disconnectTileBadges(): void {
+  generation++;
+  mutationObserver?.disconnect();
+  mutationObserver = null;
+  intersectionObserver?.disconnect();
+  intersectionObserver = null;
+  if (scanTimer) clearTimeout(scanTimer);
+  if (batchTimer) clearTimeout(batchTimer);
+  scanTimer = null;
+  batchTimer = null;
+
+  observedTiles = new WeakSet();
+  appIdsByName = null;
+  visibleTiles.clear();
+  pendingAppIds.clear();
+  fetchQueue.length = 0;
+  fetchedAppIds.clear();
+
+  currentDoc?.querySelectorAll(`.${TILE_CLASS}`).forEach((el) => el.remove());
+}
@@ -0,0 +1,273 @@
+/**
+ * Plugin State Backup
+ *
+ * Exports and imports all locally stored plugin state (settings, result
+ * cache, ID cache, manual overrides and completed games) as a single
+ * versioned JSON bundle.
+ * This lets a known-good cache be copied to another machine without
+ * re-fetching every game from HLTB.
+ *
+ * Imports are validated before anything is written. In 'merge' mode the
+ * newer of two entries wins; in 'replace' mode the bundle overwrites
+ * everything. A part that can't be saved fails the import and is reported;
+ * the caches keep their old entries in that case.
+ */
+
+import type { CacheEntry } from '../types';
+import { log, logError } from './logger';
+import { getSettings, saveSettings, type PluginSettings } from './settings';
+import { SETTING_KEYS, getSettingError, getDefaultSettings, pickValidSettings } from './settingsSchema';
+import { getAllCacheEntries, replaceCacheEntries, type CacheStore } from './cache';
+import { getIdCacheData, replaceIdCacheData, clearIdCache, type IdCacheData } from './hltbIdCache';
+import { getOverrideStore, replaceOverrides, type OverrideStore, type MatchOverride } from './overrides';
+import { getCompletionStore, replaceCompletions, type CompletionStore, type Completion } from './completions';
+
+export const BACKUP_FORMAT = 'hltb-millennium-backup';
+export const BACKUP_VERSION = 1;
+
+export interface PluginBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  settings: PluginSettings;
+  cache: CacheStore;
+  idCache: IdCacheData | null;
+  overrides: OverrideStore;
+  completions?: CompletionStore; // Missing in bundles exported before games could be marked completed
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  success: boolean;
+  errors: string[];
+}
+
+export async function exportState(): Promise<PluginBackup> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    settings: getSettings(),
+    cache: await getAllCacheEntries(),
+    idCache: await getIdCacheData(),
+    overrides: getOverrideStore(),
+    completions: getCompletionStore(),
+  };
+}
+
+export async function exportStateJson(): Promise<string> {
+  return JSON.stringify(await exportState());
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAppIdKey(key: string): boolean {
+  return /^\d+$/.test(key);
+}
+
+function isOptionalHours(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === 'number';
+}
+
+function validateSettings(settings: unknown, errors: string[]): void {
+  if (!isObject(settings)) {
+    errors.push('settings: expected an object');
+    return;
+  }
+
+  // Unknown keys are ignored on import; known keys must pass the settings schema
+  for (const key of SETTING_KEYS) {
+    const error = settings[key] === undefined ? null : getSettingError(key, settings[key]);
+    if (error) errors.push(`settings.${key}: ${error}`);
+  }
+}
+
+function validateCacheEntry(appId: string, entry: unknown, errors: string[]): void {
+  const path = `cache.${appId}`;
+  if (!isObject(entry)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  if (typeof entry.timestamp !== 'number') errors.push(`${path}.timestamp: expected number`);
+  if (typeof entry.notFound !== 'boolean') errors.push(`${path}.notFound: expected boolean`);
+
+  const data = entry.data;
+  if (data === null) return;
+  if (!isObject(data)) {
+    errors.push(`${path}.data: expected object or null`);
+    return;
+  }
+  if (data.game_id !== undefined && typeof data.game_id !== 'number') {
+    errors.push(`${path}.data.game_id: expected number`);
+  }
+  for (const key of ['comp_main', 'comp_plus', 'comp_100', 'comp_all', 'invested_co', 'invested_mp']) {
+    if (!isOptionalHours(data[key])) errors.push(`${path}.data.${key}: expected number or null`);
+  }
+}
+
+function validateCache(cache: unknown, errors: string[]): void {
+  if (!isObject(cache)) {
+    errors.push('cache: expected an object');
+    return;
+  }
+  for (const [appId, entry] of Object.entries(cache)) {
+    if (!isAppIdKey(appId)) {
+      errors.push(`cache: invalid app ID "${appId}"`);
+      continue;
+    }
+    validateCacheEntry(appId, entry, errors);
+  }
+}
+
+function validateIdCache(idCache: unknown, errors: string[]): void {
+  if (idCache === null) return;
+  if (!isObject(idCache) || !isObject(idCache.mappings) || !isObject(idCache.metadata)) {
+    errors.push('idCache: expected { mappings, metadata } or null');
+    return;
+  }
+  for (const [appId, hltbId] of Object.entries(idCache.mappings)) {
+    if (!isAppIdKey(appId) || typeof hltbId !== 'number') {
+      errors.push(`idCache.mappings.${appId}: expected numeric app ID mapped to number`);
+    }
+  }
+  if (typeof idCache.metadata.timestamp !== 'number') errors.push('idCache.metadata.timestamp: expected number');
+  if (typeof idCache.metadata.steamUserId !== 'string') errors.push('idCache.metadata.steamUserId: expected string');
+}
+
+function validateOverrides(overrides: unknown, errors: string[]): void {
+  if (!isObject(overrides)) {
+    errors.push('overrides: expected an object');
+    return;
+  }
+  for (const [appId, override] of Object.entries(overrides)) {
+    const path = `overrides.${appId}`;
+    if (!isAppIdKey(appId) || !isObject(override)) {
+      errors.push(`${path}: expected numeric app ID mapped to object`);
+      continue;
+    }
+    if (typeof override.hltbId !== 'number') errors.push(`${path}.hltbId: expected number`);
+    if (typeof override.hltbName !== 'string') errors.push(`${path}.hltbName: expected string`);
+    if (typeof override.appName !== 'string') errors.push(`${path}.appName: expected string`);
+    if (typeof override.timestamp !== 'number') errors.push(`${path}.timestamp: expected number`);
+  }
+}
+
+function validateCompletions(completions: unknown, errors: string[]): void {
+  if (completions === undefined) return;
+  if (!isObject(completions)) {
+    errors.push('completions: expected an object');
+    return;
+  }
+  for (const [appId, completion] of Object.entries(completions)) {
+    const path = `completions.${appId}`;
+    if (!isAppIdKey(appId) || !isObject(completion)) {
+      errors.push(`${path}: expected numeric app ID mapped to object`);
+      continue;
+    }
+    if (typeof completion.playtimeHours !== 'number') errors.push(`${path}.playtimeHours: expected number`);
+    if (typeof completion.hltbMainHours !== 'number') errors.push(`${path}.hltbMainHours: expected number`);
+    if (typeof completion.timestamp !== 'number') errors.push(`${path}.timestamp: expected number`);
+  }
+}
+
+// Returns a list of problems; an empty list means the bundle is safe to import
+export function validateBackup(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return ['Backup must be a JSON object'];
+  }
+  if (value.format !== BACKUP_FORMAT) {
+    return [`Not an HLTB backup (format should be "${BACKUP_FORMAT}")`];
+  }
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    return ['version: expected a positive integer'];
+  }
+  if (value.version > BACKUP_VERSION) {
+    return [`Backup version ${value.version} is newer than supported version ${BACKUP_VERSION}`];
+  }
+
+  validateSettings(value.settings, errors);
+  validateCache(value.cache, errors);
+  validateIdCache(value.idCache, errors);
+  validateOverrides(value.overrides, errors);
+  validateCompletions(value.completions, errors);
+
+  return errors;
+}
+
+// Keep whichever entry is newer for each app ID
+function mergeByTimestamp<T extends { timestamp: number }>(
+  current: Record<number, T>,
+  incoming: Record<number, T>
+): Record<number, T> {
+  const merged = { ...current };
+  for (const [key, entry] of Object.entries(incoming)) {
+    const appId = Number(key);
+    const existing = merged[appId];
+    if (!existing || entry.timestamp > existing.timestamp) {
+      merged[appId] = entry;
+    }
+  }
+  return merged;
+}
+
+function mergeIdCache(current: IdCacheData | null, incoming: IdCacheData | null): IdCacheData | null {
+  if (!incoming) return current;
+  if (!current) return incoming;
+
+  const incomingIsNewer = incoming.metadata.timestamp > current.metadata.timestamp;
+  return {
+    mappings: incomingIsNewer
+      ? { ...current.mappings, ...incoming.mappings }
+      : { ...incoming.mappings, ...current.mappings },
+    metadata: incomingIsNewer ? incoming.metadata : current.metadata,
+  };
+}
+
+export async function importState(json: string, mode: ImportMode): Promise<ImportResult> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return { success: false, errors: ['Invalid JSON'] };
+  }
+
+  const errors = validateBackup(parsed);
+  if (errors.length > 0) {
+    log('Backup import rejected:', errors);
+    return { success: false, errors };
+  }
+
+  const backup = parsed as PluginBackup;
+  const importedSettings = pickValidSettings(backup.settings as unknown as Record<string, unknown>);
+
+  // Each part is written on its own; failed parts are reported, not rolled back
+  const written: Array<[string, boolean]> = [];
+  if (mode === 'replace') {
+    saveSettings({ ...getDefaultSettings(), ...importedSettings });
+    written.push(['cache', await replaceCacheEntries(backup.cache)]);
+    written.push(['idCache', backup.idCache ? await replaceIdCacheData(backup.idCache) : await clearIdCache()]);
+    written.push(['overrides', replaceOverrides(backup.overrides)]);
+    written.push(['completions', replaceCompletions(backup.completions ?? {})]);
+  } else {
+    saveSettings({ ...getSettings(), ...importedSettings });
+    written.push(['cache', await replaceCacheEntries(mergeByTimestamp<CacheEntry>(await getAllCacheEntries(), backup.cache))]);
+    const idCache = mergeIdCache(await getIdCacheData(), backup.idCache);
+    if (idCache) written.push(['idCache', await replaceIdCacheData(idCache)]);
+    written.push(['overrides', replaceOverrides(mergeByTimestamp<MatchOverride>(getOverrideStore(), backup.overrides))]);
+    written.push(['completions', replaceCompletions(mergeByTimestamp<Completion>(getCompletionStore(), backup.completions ?? {}))]);
+  }
+
+  const writeErrors = written.filter(([, ok]) => !ok).map(([part]) => `${part}: could not be saved`);
+  if (writeErrors.length > 0) {
+    logError('Backup import incomplete:', writeErrors);
+    return { success: false, errors: writeErrors };
+  }
+
+  log('Backup imported:', mode, Object.keys(backup.cache).length, 'cache entries');
+  return { success: true, errors: [] };
+}
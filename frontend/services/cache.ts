@@ -1,100 +1,185 @@
+/**
+ * HLTB Result Cache
+ *
+ * Caches backend results per Steam app ID, including misses, so game pages
+ * render immediately and HLTB isn't queried on every visit.
+ *
+ * Entries live in the 'results' entry store (IndexedDB when available), one
+ * record per app. Results cached by older versions under the
+ * 'hltb-millennium-cache' localStorage key are migrated on first use.
+ *
+ * Entries older than the Max Cached Age setting are kept but not returned,
+ * so lookups treat them as missing.
+ */
+
 import type { HltbGameResult, CacheEntry } from '../types';
 import { log, logError } from './logger';
+import { getSettings } from './settings';
+import { openStore, type EntryStore } from '../storage';
 
-interface CacheStore {
+export interface CacheStore {
   [appId: number]: CacheEntry;
 }
 
-const CACHE_KEY = 'hltb-millennium-cache';
+const LEGACY_CACHE_KEY = 'hltb-millennium-cache';
 const CACHE_DURATION = 12 * 60 * 60 * 1000; // 12 hours
-const MAX_CACHE_AGE = 90 * 24 * 60 * 60 * 1000; // 90 days
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_CACHE_AGE = 90 * DAY; // 90 days, also the upper limit of the Max Cached Age setting
 const MAX_CACHE_ENTRIES = 2000;
 const PRUNE_INTERVAL = 50; // Prune every N writes
 
 let writeCount = 0;
 
-export function getCache(appId: number): { entry: CacheEntry; isStale: boolean } | null {
+// Move the old single-blob localStorage cache into the entry store
+async function migrateLegacyCache(store: EntryStore<CacheEntry>): Promise<void> {
+  const raw = localStorage.getItem(LEGACY_CACHE_KEY);
+  if (!raw) return;
+
+  let legacy: CacheStore;
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    if (!raw) return null;
+    legacy = JSON.parse(raw);
+  } catch (e) {
+    logError('Legacy cache unreadable, discarding:', e);
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+    return;
+  }
 
-    const cache: CacheStore = JSON.parse(raw);
-    const entry = cache[appId];
+  const entries = Object.entries(legacy).map(([appId, entry]): [number, CacheEntry] => [Number(appId), entry]);
+  await store.putMany(entries);
+  localStorage.removeItem(LEGACY_CACHE_KEY);
+  log('Migrated', entries.length, 'cache entries from localStorage');
+}
 
-    if (!entry) return null;
+function getStore(): EntryStore<CacheEntry> {
+  return openStore<CacheEntry>('results', migrateLegacyCache);
+}
 
-    const isStale = Date.now() - entry.timestamp > CACHE_DURATION;
-    return { entry, isStale };
+export function isCacheEntryStale(entry: CacheEntry): boolean {
+  return Date.now() - entry.timestamp > CACHE_DURATION;
+}
+
+// Older than the Max Cached Age setting, so treated as missing
+export function isCacheEntryExpired(entry: CacheEntry): boolean {
+  return Date.now() - entry.timestamp > getSettings().maxCacheAgeDays * DAY;
+}
+
+export async function getCache(appId: number): Promise<{ entry: CacheEntry; isStale: boolean } | null> {
+  try {
+    const entry = await getStore().get(appId);
+    if (!entry || isCacheEntryExpired(entry)) return null;
+
+    return { entry, isStale: isCacheEntryStale(entry) };
   } catch (e) {
     logError('Cache read error:', e);
     return null;
   }
 }
 
-function pruneCache(cache: CacheStore): CacheStore {
-  const now = Date.now();
-  let entries = Object.entries(cache);
-
+async function pruneCache(store: EntryStore<CacheEntry>): Promise<void> {
   // Remove entries older than MAX_CACHE_AGE
-  entries = entries.filter(([_, entry]) => {
-    return now - entry.timestamp < MAX_CACHE_AGE;
-  });
+  await store.pruneOlderThan(Date.now() - MAX_CACHE_AGE);
 
   // If still over limit, remove oldest entries
-  if (entries.length > MAX_CACHE_ENTRIES) {
-    entries.sort((a, b) => b[1].timestamp - a[1].timestamp); // Newest first
-    entries = entries.slice(0, MAX_CACHE_ENTRIES);
+  const removed = await store.pruneToNewest(MAX_CACHE_ENTRIES);
+  if (removed > 0) {
     log(`Pruned cache to ${MAX_CACHE_ENTRIES} entries`);
   }
-
-  return Object.fromEntries(entries);
 }
 
-export function setCache(appId: number, data: HltbGameResult | null): void {
+export async function setCache(appId: number, data: HltbGameResult | null): Promise<void> {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    let cache: CacheStore = raw ? JSON.parse(raw) : {};
-
-    cache[appId] = {
+    const store = getStore();
+    await store.put(appId, {
       data,
       timestamp: Date.now(),
       notFound: data === null,
-    };
+    });
 
     // Periodically prune old/excess entries
     writeCount++;
     if (writeCount >= PRUNE_INTERVAL) {
       writeCount = 0;
-      cache = pruneCache(cache);
+      await pruneCache(store);
     }
+  } catch (e) {
+    logError('Cache write error:', e);
+  }
+}
+
+// Returns false if the entries couldn't be written. New entries are written
+// before old ones are removed, so a failed write leaves the cache as it was
+// (or partly updated), never empty.
+export async function replaceCacheEntries(cache: CacheStore): Promise<boolean> {
+  try {
+    const store = getStore();
+    const entries = Object.entries(cache).map(([appId, entry]): [number, CacheEntry] => [Number(appId), entry]);
+    await store.putMany(entries);
 
-    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+    const kept = new Set(entries.map(([appId]) => appId));
+    for (const [appId] of await store.getAll()) {
+      if (!kept.has(Number(appId))) await store.delete(appId);
+    }
+    log('Cache replaced with', entries.length, 'entries');
+    return true;
+  } catch (e) {
+    logError('Cache write error:', e);
+    return false;
+  }
+}
+
+// Adds the entries that are newer than the stored ones for the same app.
+// Returns false if they couldn't be written.
+export async function mergeCacheEntries(cache: CacheStore): Promise<boolean> {
+  try {
+    const store = getStore();
+    const newer: Array<[number, CacheEntry]> = [];
+    for (const [key, entry] of Object.entries(cache)) {
+      const appId = Number(key);
+      const existing = await store.get(appId);
+      if (!existing || entry.timestamp > existing.timestamp) newer.push([appId, entry]);
+    }
+    await store.putMany(newer);
+    return true;
+  } catch (e) {
+    logError('Cache write error:', e);
+    return false;
+  }
+}
+
+export async function removeCacheEntry(appId: number): Promise<void> {
+  try {
+    await getStore().delete(appId);
   } catch (e) {
     logError('Cache write error:', e);
   }
 }
 
-export function clearCache(): void {
+export async function clearCache(): Promise<void> {
   try {
-    localStorage.removeItem(CACHE_KEY);
+    await getStore().clear();
     log('Cache cleared');
   } catch (e) {
     logError('Cache clear error:', e);
   }
 }
 
-export function getCacheStats(): { count: number; oldestTimestamp: number | null } {
+export async function getAllCacheEntries(): Promise<CacheStore> {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    if (!raw) return { count: 0, oldestTimestamp: null };
-
-    const cache: CacheStore = JSON.parse(raw);
-    const entries = Object.values(cache);
+    const entries = await getStore().getAll();
+    return Object.fromEntries(entries);
+  } catch (e) {
+    logError('Cache read error:', e);
+    return {};
+  }
+}
 
-    if (entries.length === 0) return { count: 0, oldestTimestamp: null };
+export async function getCacheStats(): Promise<{ count: number; oldestTimestamp: number | null }> {
+  try {
+    const store = getStore();
+    const count = await store.count();
+    if (count === 0) return { count: 0, oldestTimestamp: null };
 
-    const oldestTimestamp = Math.min(...entries.map((e) => e.timestamp));
-    return { count: entries.length, oldestTimestamp };
+    return { count, oldestTimestamp: await store.oldestTimestamp() };
   } catch (e) {
     return { count: 0, oldestTimestamp: null };
   }
@@ -0,0 +1,96 @@
+/**
+ * Steam Collections
+ *
+ * Creates or updates a user collection in the Steam library so it holds
+ * a given set of games (e.g. a filter result). planCollection() is the dry
+ * run: it lists what would be added and removed without touching the
+ * collection; applyCollectionPlan() makes exactly those changes.
+ *
+ * Only games the filter could judge are removed. Games in the collection
+ * without a known HLTB result stay, since nothing says they don't belong.
+ *
+ * Dynamic collections (built from Steam's own filters) can't hold a fixed
+ * set of games, so they are never changed.
+ */
+
+import type { SteamCollection } from '../types';
+import { log, logError } from './logger';
+import type { LibraryApp } from './library';
+
+export interface CollectionPlan {
+  name: string;
+  exists: boolean;    // False when the collection will be created
+  add: LibraryApp[];
+  remove: LibraryApp[];
+  unchanged: number;  // Games already in the collection that stay
+  kept: number;       // Games not in the target that stay, as their result isn't known
+}
+
+export type CollectionPlanResult =
+  | { plan: CollectionPlan; error: null }
+  | { plan: null; error: 'unavailable' | 'dynamic' };
+
+// Games to add to and remove from `current` so it matches `target`. Of the
+// games not in `target`, only the `known` ones are removed.
+export function diffCollection(
+  current: LibraryApp[],
+  target: LibraryApp[],
+  known: Set<number>
+): Pick<CollectionPlan, 'add' | 'remove' | 'unchanged' | 'kept'> {
+  const currentIds = new Set(current.map((app) => app.appId));
+  const targetIds = new Set(target.map((app) => app.appId));
+  const leaving = current.filter((app) => !targetIds.has(app.appId));
+  return {
+    add: target.filter((app) => !currentIds.has(app.appId)),
+    remove: leaving.filter((app) => known.has(app.appId)),
+    unchanged: target.filter((app) => currentIds.has(app.appId)).length,
+    kept: leaving.filter((app) => !known.has(app.appId)).length,
+  };
+}
+
+function findCollection(name: string): SteamCollection | undefined {
+  return window.collectionStore?.userCollections?.find((collection) => collection.displayName === name);
+}
+
+function getOverviews(apps: LibraryApp[]): object[] {
+  return apps
+    .map((app) => window.appStore?.GetAppOverviewByAppID(app.appId))
+    .filter((overview): overview is NonNullable<typeof overview> => !!overview);
+}
+
+// `known` holds the app IDs the target was filtered from, see diffCollection()
+export function planCollection(name: string, target: LibraryApp[], known: Set<number>): CollectionPlanResult {
+  if (!window.collectionStore?.userCollections) return { plan: null, error: 'unavailable' };
+
+  const collection = findCollection(name);
+  if (collection && !collection.bAllowsDragAndDrop) return { plan: null, error: 'dynamic' };
+
+  const current = collection
+    ? [...collection.apps.values()].map((app) => ({ appId: app.appid, name: app.display_name }))
+    : [];
+  return { plan: { name, exists: !!collection, ...diffCollection(current, target, known) }, error: null };
+}
+
+export async function applyCollectionPlan(plan: CollectionPlan): Promise<boolean> {
+  try {
+    const store = window.collectionStore;
+    const existing = findCollection(plan.name);
+
+    if (!existing) {
+      if (!store?.NewUnsavedCollection) return false;
+      await store.NewUnsavedCollection(plan.name, undefined, getOverviews(plan.add)).Save();
+      log('Created collection:', plan.name, 'with', plan.add.length, 'games');
+      return true;
+    }
+
+    const editable = existing.AsDragDropCollection();
+    if (plan.add.length > 0) editable.AddApps(getOverviews(plan.add));
+    if (plan.remove.length > 0) editable.RemoveApps(getOverviews(plan.remove));
+    await existing.Save();
+    log('Updated collection:', plan.name, '+', plan.add.length, '-', plan.remove.length);
+    return true;
+  } catch (e) {
+    logError('Collection update failed:', plan.name, e);
+    return false;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Completed Games
+ *
+ * Stores the games the user marked as completed from the game page, with
+ * their Steam playtime and the HLTB Main Story time at that moment. Both are
+ * kept, so later playtime (replays, achievement hunting) or HLTB updates
+ * don't change how fast the user was. See pace.ts for how they are used.
+ *
+ * Storage key: 'hltb-millennium-completions' in localStorage
+ */
+
+import { log, logError } from './logger';
+
+export interface Completion {
+  playtimeHours: number;
+  hltbMainHours: number;
+  timestamp: number;
+}
+
+export interface CompletionStore {
+  [steamAppId: number]: Completion;
+}
+
+const STORAGE_KEY = 'hltb-millennium-completions';
+
+function readStore(): CompletionStore {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  return raw ? JSON.parse(raw) : {};
+}
+
+export function getCompletion(steamAppId: number): Completion | null {
+  try {
+    return readStore()[steamAppId] ?? null;
+  } catch (e) {
+    logError('Completion read error:', e);
+    return null;
+  }
+}
+
+export function markCompleted(steamAppId: number, playtimeHours: number, hltbMainHours: number): void {
+  try {
+    const store = readStore();
+    store[steamAppId] = { playtimeHours, hltbMainHours, timestamp: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    log('Marked completed:', steamAppId, playtimeHours, 'h played,', hltbMainHours, 'h on HLTB');
+  } catch (e) {
+    logError('Completion write error:', e);
+  }
+}
+
+export function unmarkCompleted(steamAppId: number): void {
+  try {
+    const store = readStore();
+    delete store[steamAppId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    log('Unmarked completed:', steamAppId);
+  } catch (e) {
+    logError('Completion write error:', e);
+  }
+}
+
+export function getCompletionStore(): CompletionStore {
+  try {
+    return readStore();
+  } catch (e) {
+    logError('Completion read error:', e);
+    return {};
+  }
+}
+
+// Returns false if the store couldn't be written
+export function replaceCompletions(store: CompletionStore): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    log('Completions replaced with', Object.keys(store).length, 'entries');
+    return true;
+  } catch (e) {
+    logError('Completion write error:', e);
+    return false;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Connectivity
+ *
+ * Tracks whether HLTB can be reached. After FAILURE_THRESHOLD lookups in a
+ * row fail for connectivity reasons, the plugin goes offline: lookups fail
+ * with 'offline' without calling the backend, except for one probe each time
+ * the backoff delay passes. The delay doubles after every failed probe, and
+ * the first successful lookup (or the browser coming back online) ends it.
+ *
+ * While offline, the display keeps showing cached results, marked with their
+ * age.
+ */
+
+import type { CacheEntry, DisplayData, HltbError, HltbErrorCode } from '../types';
+import { log } from './logger';
+
+// Errors that say HLTB can't be reached, as opposed to a bad result for one game
+const CONNECTIVITY_ERRORS: HltbErrorCode[] = ['offline', 'backend_unavailable', 'hltb_unreachable'];
+
+const FAILURE_THRESHOLD = 3;
+const BACKOFF_BASE = 30 * 1000;
+const BACKOFF_MAX = 10 * 60 * 1000;
+
+let consecutiveFailures = 0;
+let retryAt: number | null = null; // Set while offline
+let probing = false;                // A lookup was let through after the backoff and hasn't finished
+
+function reset(): void {
+  if (retryAt !== null) log('Back online');
+  consecutiveFailures = 0;
+  retryAt = null;
+  probing = false;
+}
+
+window.addEventListener('online', reset);
+
+export function isOffline(): boolean {
+  return !navigator.onLine || retryAt !== null;
+}
+
+// Whether a lookup may call the backend now. While offline, only the first
+// caller after the backoff has passed may, as the probe; every caller after
+// it waits for the probe's recordLookup().
+export function canReachBackend(): boolean {
+  if (!navigator.onLine) return false;
+  if (retryAt === null) return true;
+  if (probing || Date.now() < retryAt) return false;
+
+  probing = true;
+  return true;
+}
+
+export function recordLookup(error: HltbError | null): void {
+  if (!error || !CONNECTIVITY_ERRORS.includes(error.code)) {
+    reset();
+    return;
+  }
+
+  probing = false;
+  consecutiveFailures++;
+  if (consecutiveFailures < FAILURE_THRESHOLD) return;
+
+  const delay = Math.min(BACKOFF_BASE * 2 ** (consecutiveFailures - FAILURE_THRESHOLD), BACKOFF_MAX);
+  retryAt = Date.now() + delay;
+  log('Offline after', consecutiveFailures, 'failed lookups, next try in', delay / 1000, 's');
+}
+
+// What the display shows about a cached result: its age once it is stale
+// or the plugin is offline, so old times aren't taken for current ones
+export function getCacheStatus(cached: { entry: CacheEntry; isStale: boolean }): Pick<DisplayData, 'cached_at' | 'offline'> {
+  const offline = isOffline();
+  return {
+    cached_at: cached.isStale || offline ? cached.entry.timestamp : undefined,
+    offline,
+  };
+}
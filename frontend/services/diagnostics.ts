@@ -0,0 +1,61 @@
+/**
+ * Lookup Diagnostics
+ *
+ * Bundles what is needed to report a failed or missing HLTB lookup: the app,
+ * the name that was searched for, how the HLTB game was to be found, and the
+ * backend's error. The display's "Copy diagnostics" button copies it to the
+ * clipboard as JSON, ready to paste into an issue.
+ */
+
+import type { HltbError, HltbErrorCode, HltbGameResult } from '../types';
+import { getOverride } from './overrides';
+import { getHltbId } from './hltbIdCache';
+
+export interface LookupDiagnostics {
+  appId: number;
+  appName: string | null;      // Steam's name for the app
+  searchedName: string | null; // Name the backend searched HLTB for
+  lookup: 'override' | 'steam_import' | 'name_search';
+  hltbId: number | null;       // HLTB ID used for override and Steam import lookups
+  status: HltbErrorCode | 'no_match';
+  error: string | null;        // Backend error message
+  time: string;
+  userAgent: string;
+}
+
+/**
+ * Builds diagnostics for a lookup that failed (`error`) or found no HLTB
+ * game (`data` without `game_id`).
+ */
+export async function buildDiagnostics(
+  appId: number,
+  outcome: { error: HltbError } | { data: HltbGameResult }
+): Promise<LookupDiagnostics> {
+  const override = getOverride(appId);
+  const importedId = override ? null : await getHltbId(appId);
+  const error = 'error' in outcome ? outcome.error : null;
+  const searchedName = 'error' in outcome ? outcome.error.searchedName : outcome.data.searched_name;
+
+  return {
+    appId,
+    appName: window.appStore?.GetAppOverviewByAppID(appId)?.display_name ?? null,
+    searchedName: searchedName ?? null,
+    lookup: override ? 'override' : importedId ? 'steam_import' : 'name_search',
+    hltbId: override?.hltbId ?? importedId ?? null,
+    status: error ? error.code : 'no_match',
+    error: error?.message ?? null,
+    time: new Date(error?.timestamp ?? Date.now()).toISOString(),
+    userAgent: navigator.userAgent,
+  };
+}
+
+// Copies the diagnostics as JSON; false if the clipboard isn't available
+export async function copyDiagnostics(diagnostics: LookupDiagnostics): Promise<boolean> {
+  try {
+    if (!navigator.clipboard) return false;
+    await navigator.clipboard.writeText(JSON.stringify(diagnostics, null, 2));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Owned DLC
+ *
+ * Reads the DLC the user owns from the Steam client's app details and picks
+ * their entries from the DLC list HLTB has for the base game. Steam and HLTB
+ * name DLC differently ("Game - Expansion" vs "Game: Expansion"), so names
+ * are compared without the base game's name and punctuation.
+ */
+
+import type { HltbGameResult, HltbRelatedGame } from '../types';
+
+// Lowercase words only, with the base game's name removed from the front
+function normalizeDlcName(name: string, baseName: string): string {
+  const words = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  const normalized = words(name);
+  const base = words(baseName);
+  return base && normalized.startsWith(`${base} `) ? normalized.slice(base.length + 1) : normalized;
+}
+
+// Names of the DLC the user owns. Steam only loads app details for games
+// that have been opened, so this is empty until the game page was shown.
+export function getOwnedDlcNames(appId: number): string[] {
+  try {
+    const dlc = window.appDetailsStore?.GetAppDetails(appId)?.vecDLC;
+    return Array.isArray(dlc) ? dlc.map((item) => item.strName).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Entries of the game's HLTB DLC list matching one of the owned DLC names
+export function matchOwnedDlc(data: HltbGameResult, ownedNames: string[]): HltbRelatedGame[] {
+  if (!data.dlc?.length || ownedNames.length === 0) return [];
+
+  const baseName = data.game_name ?? data.searched_name;
+  const owned = new Set(ownedNames.map((name) => normalizeDlcName(name, baseName)));
+  return data.dlc.filter((dlc) => owned.has(normalizeDlcName(dlc.game_name, baseName)));
+}
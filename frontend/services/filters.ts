@@ -0,0 +1,51 @@
+/**
+ * Library Filters
+ *
+ * Selects owned games by their cached HLTB results, e.g. "Main Story under
+ * 10h" or "no HLTB match". A game matches a filter when it matches every
+ * condition. Games without a cached result, or with one older than the Max
+ * Cached Age setting, are never matched: their length isn't known.
+ *
+ * The matching is pure; getFilterCandidates() pairs the owned games with the
+ * result cache.
+ */
+
+import type { HltbGameResult, StatKey } from '../types';
+import { getAllCacheEntries, isCacheEntryExpired } from './cache';
+import { getOwnedApps, type LibraryApp } from './library';
+
+export type FilterCondition =
+  | { kind: 'time'; stat: StatKey; comparison: 'under' | 'over'; hours: number }
+  | { kind: 'matched' }   // HLTB has the game
+  | { kind: 'unmatched' }; // Looked up, but HLTB has no match
+
+export interface FilterCandidate extends LibraryApp {
+  data: HltbGameResult | null; // null when the lookup found nothing
+}
+
+export function matchesCondition(data: HltbGameResult | null, condition: FilterCondition): boolean {
+  switch (condition.kind) {
+    case 'matched':
+      return !!data?.game_id;
+    case 'unmatched':
+      return !data?.game_id;
+    case 'time': {
+      // Games without this time can't be under or over anything
+      const hours = data?.game_id ? data[condition.stat] : null;
+      if (hours == null) return false;
+      return condition.comparison === 'under' ? hours < condition.hours : hours > condition.hours;
+    }
+  }
+}
+
+export function filterGames(candidates: FilterCandidate[], conditions: FilterCondition[]): FilterCandidate[] {
+  return candidates.filter((candidate) => conditions.every((condition) => matchesCondition(candidate.data, condition)));
+}
+
+// Owned games with a cached result within the Max Cached Age
+export async function getFilterCandidates(): Promise<FilterCandidate[]> {
+  const cache = await getAllCacheEntries();
+  return getOwnedApps()
+    .filter((app) => cache[app.appId] !== undefined && !isCacheEntryExpired(cache[app.appId]))
+    .map((app) => ({ ...app, data: cache[app.appId].data }));
+}
@@ -1,84 +1,271 @@
-import { callable } from '@steambrew/client';
-import type { HltbGameResult, FetchResult } from '../types';
+import type {
+  HltbGameResult,
+  HltbGameDetails,
+  HltbRelatedGame,
+  HltbSearchCandidate,
+  HltbError,
+  HltbErrorCode,
+  FetchResult,
+} from '../types';
 import { log, logError } from './logger';
 import { getCache, setCache } from './cache';
 import { getHltbId, setIdCache } from './hltbIdCache';
+import { getOverride } from './overrides';
+import { getSettings } from './settings';
+import { canReachBackend, recordLookup } from './connectivity';
+import { callable } from './rpc';
 
 interface BackendResponse {
   success: boolean;
   error?: string;
+  code?: string;          // Set on failures, see HltbErrorCode
+  searched_name?: string; // Set on failures after the name was resolved
   data?: HltbGameResult;
 }
 
+// Outcome of one backend lookup: the result (which may be a miss), or why
+// there is none
+export type LookupResult = { data: HltbGameResult; error: null } | { data: null; error: HltbError };
+
+const BACKEND_ERROR_CODES: HltbErrorCode[] = [
+  'name_unresolved',
+  'hltb_unreachable',
+  'hltb_invalid_response',
+  'import_unavailable',
+  'bad_request',
+  'internal',
+];
+
+interface SearchResponse {
+  success: boolean;
+  error?: string;
+  data?: HltbSearchCandidate[];
+}
+
+interface DetailsResponse {
+  success: boolean;
+  error?: string;
+  data?: HltbGameDetails;
+}
+
 interface SteamImportResponse {
   success: boolean;
   error?: string;
   data?: Array<{ steam_id: number; hltb_id: number }>;
 }
 
-const GetHltbData = callable<[{ app_id: number, app_name_from_ui: string }], string>('GetHltbData');
-const GetHltbDataById = callable<[{ hltb_id: number; app_id: number }], string>('GetHltbDataById');
+const GetHltbData = callable<[{ app_id: number, app_name_from_ui: string, include_dlc: boolean }], string>('GetHltbData');
+const GetHltbDataById = callable<[{ hltb_id: number; app_id: number; include_dlc: boolean }], string>('GetHltbDataById');
 const FetchSteamImportRpc = callable<[{ steam_user_id: string }], string>('FetchSteamImport');
+const SearchHltbRpc = callable<[{ query: string }], string>('SearchHltb');
+const GetHltbGameDetails = callable<[{ hltb_id: number }], string>('GetHltbGameDetails');
+
+// What the backend takes as "no name from the UI"
+const NO_UI_NAME = 'undefined';
 
-async function fetchFromBackend(appId: number): Promise<HltbGameResult | null> {
+// Name of the library entry last clicked in the desktop client (index.tsx).
+// The backend searches with it when Steam can't name the app, so only the
+// game page that click opened may pass it; every other lookup leaves it out.
+export function getClickedAppName(): string {
+  const name = (window as { lastClickedElement?: unknown }).lastClickedElement;
+  return typeof name === 'string' && name ? name : NO_UI_NAME;
+}
+
+// Number of in-flight requests for the game page on screen.
+// Background prefetch waits while this is non-zero.
+let foregroundRequests = 0;
+
+export function hasForegroundRequest(): boolean {
+  return foregroundRequests > 0;
+}
+
+async function fetchForeground(appId: number, nameFromUi: string): Promise<LookupResult> {
+  foregroundRequests++;
   try {
-    // Check if we have a cached HLTB ID for this app
-    const hltbId = getHltbId(appId);
+    return await fetchFromBackend(appId, nameFromUi);
+  } finally {
+    foregroundRequests--;
+  }
+}
 
-    let resultJson: string;
+// Empty Lua tables are encoded as objects, not arrays
+function asArray<T>(value: T[] | unknown): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// A result as sent by the backend, with its DLC list as an array
+export function toGameResult(data: HltbGameResult): HltbGameResult {
+  return data.dlc ? { ...data, dlc: asArray<HltbRelatedGame>(data.dlc) } : data;
+}
+
+// Cached games fetched without their DLC list lack it until refetched
+function isMissingDlc(data: HltbGameResult | null): boolean {
+  return !!data?.game_id && !data.is_dlc && data.dlc === undefined && getSettings().showOwnedDlc;
+}
+
+function lookupFailed(appId: number, code: HltbErrorCode, message: string, searchedName?: string): LookupResult {
+  return { data: null, error: { code, message, appId, searchedName, timestamp: Date.now() } };
+}
+
+// Backend codes are passed on; anything else (older backends send none) is internal
+function toErrorCode(code: string | undefined): HltbErrorCode {
+  return BACKEND_ERROR_CODES.find((known) => known === code) ?? 'internal';
+}
+
+async function fetchFromBackend(appId: number, nameFromUi: string = NO_UI_NAME): Promise<LookupResult> {
+  // The backend would only time out; fail fast instead
+  if (!canReachBackend()) {
+    log('Offline, skipping backend call for appId:', appId);
+    const message = navigator.onLine ? 'HLTB unreachable, waiting before the next try' : 'No network connection';
+    return lookupFailed(appId, 'offline', message);
+  }
+
+  const result = await callBackend(appId, nameFromUi);
+  recordLookup(result.error);
+  return result;
+}
+
+async function callBackend(appId: number, nameFromUi: string): Promise<LookupResult> {
+  let resultJson: string;
+  try {
+    // A manual override wins over the Steam import mapping
+    const hltbId = getOverride(appId)?.hltbId ?? (await getHltbId(appId));
+    const includeDlc = getSettings().showOwnedDlc;
 
     if (hltbId) {
       // Fetch directly by HLTB ID (skips name search)
-      resultJson = await GetHltbDataById({ hltb_id: hltbId, app_id: appId });
+      resultJson = await GetHltbDataById({ hltb_id: hltbId, app_id: appId, include_dlc: includeDlc });
     } else {
       // Standard path: name-based search
       log('Calling backend for appId:', appId);
-      resultJson = await GetHltbData({ app_id: appId, app_name_from_ui: window.lastClickedElement });
-    }
-
-    if (resultJson === undefined || resultJson === null) {
-      logError('Backend returned undefined/null for appId:', appId);
-      return null;
+      resultJson = await GetHltbData({ app_id: appId, app_name_from_ui: nameFromUi, include_dlc: includeDlc });
     }
+  } catch (e) {
+    logError('Backend call error for appId:', appId, e);
+    return lookupFailed(appId, 'backend_unavailable', String(e));
+  }
 
-    const result: BackendResponse = JSON.parse(resultJson);
-    log('Backend response:', result);
+  if (resultJson === undefined || resultJson === null) {
+    logError('Backend returned undefined/null for appId:', appId);
+    return lookupFailed(appId, 'backend_unavailable', 'Backend returned no response');
+  }
 
-    if (!result.success) {
-      log('Backend error:', result.error);
-      return null;
-    }
+  let result: BackendResponse;
+  try {
+    result = JSON.parse(resultJson);
+  } catch (e) {
+    logError('Backend response unreadable for appId:', appId, e);
+    return lookupFailed(appId, 'internal', 'Unreadable backend response');
+  }
+  log('Backend response:', result);
 
-    // Cache all results (UI needs data even for misses)
-    if (result.data) {
-      log('Caching data for appId:', appId, result.data);
-      setCache(appId, result.data);
-      return result.data;
-    }
+  if (!result.success) {
+    log('Backend error:', result.code, result.error);
+    return lookupFailed(appId, toErrorCode(result.code), result.error ?? 'Unknown error', result.searched_name);
+  }
 
+  if (!result.data) {
     log('No data in response for appId:', appId);
-    return null;
-  } catch (e) {
-    logError('Backend call error for appId:', appId, e);
-    return null;
+    return lookupFailed(appId, 'internal', 'No data in response');
   }
+
+  // Cache all results (UI needs data even for misses)
+  const data = toGameResult(result.data);
+  log('Caching data for appId:', appId, data);
+  await setCache(appId, data);
+  return { data, error: null };
 }
 
-export async function fetchHltbData(appId: number): Promise<FetchResult> {
-  const cached = getCache(appId);
+// `nameFromUi` is only for the game page the user opened, see getClickedAppName()
+export async function fetchHltbData(appId: number, nameFromUi: string = NO_UI_NAME): Promise<FetchResult> {
+  const cached = await getCache(appId);
 
   if (cached) {
     const cachedData = cached.entry.notFound ? null : cached.entry.data;
     // Always refetch if no game_id (miss) so name fixes can take effect
     const isMiss = cachedData && !cachedData.game_id;
-    const shouldRefresh = cached.isStale || isMiss;
-    const refreshPromise = shouldRefresh ? fetchFromBackend(appId) : null;
-    log('Cache hit:', appId, cached.isStale ? '(stale)' : isMiss ? '(miss, refetching)' : '(fresh)');
-    return { data: cachedData, fromCache: true, refreshPromise };
+    const shouldRefresh = cached.isStale || isMiss || isMissingDlc(cachedData);
+    const refreshPromise = shouldRefresh ? fetchForeground(appId, nameFromUi).then((result) => result.data) : null;
+    log('Cache hit:', appId, cached.isStale ? '(stale)' : isMiss ? '(miss, refetching)' : shouldRefresh ? '(no DLC, refetching)' : '(fresh)');
+    return { data: cachedData, fromCache: true, refreshPromise, error: null };
   }
 
-  const data = await fetchFromBackend(appId);
-  return { data, fromCache: false, refreshPromise: null };
+  const result = await fetchForeground(appId, nameFromUi);
+  return { data: result.data, fromCache: false, refreshPromise: null, error: result.error };
+}
+
+// Fetch into the cache without counting as a game page request.
+// Returns false if the backend failed (a successful lookup always returns
+// data, even when HLTB has no match), so the caller can back off.
+export async function prefetchHltbData(appId: number): Promise<boolean> {
+  const result = await fetchFromBackend(appId);
+  return result.error === null;
+}
+
+// Fetch fresh data from the backend, bypassing the result cache.
+// Used after the match for an app changes (e.g. a manual override was set)
+// and to retry failed lookups.
+export async function refetchHltbData(appId: number, nameFromUi: string = NO_UI_NAME): Promise<LookupResult> {
+  return fetchFromBackend(appId, nameFromUi);
+}
+
+// Search HLTB by name and return all candidates, for the manual match picker
+export async function searchHltb(query: string): Promise<HltbSearchCandidate[]> {
+  try {
+    log('Searching HLTB for:', query);
+    const resultJson = await SearchHltbRpc({ query });
+
+    if (resultJson === undefined || resultJson === null) {
+      logError('Backend returned undefined/null for search:', query);
+      return [];
+    }
+
+    const result: SearchResponse = JSON.parse(resultJson);
+
+    if (!result.success) {
+      log('Search failed:', result.error);
+      return [];
+    }
+
+    // Empty Lua tables are encoded as objects, not arrays
+    return Array.isArray(result.data) ? result.data : [];
+  } catch (e) {
+    logError('Search error:', query, e);
+    return [];
+  }
+}
+
+// Fetch the full HLTB game profile for the details panel. Not cached: it is
+// only loaded when the panel is opened.
+export async function fetchGameDetails(hltbId: number): Promise<HltbGameDetails | null> {
+  try {
+    log('Fetching game details for HLTB ID:', hltbId);
+    const resultJson = await GetHltbGameDetails({ hltb_id: hltbId });
+
+    if (resultJson === undefined || resultJson === null) {
+      logError('Backend returned undefined/null for details:', hltbId);
+      return null;
+    }
+
+    const result: DetailsResponse = JSON.parse(resultJson);
+
+    if (!result.success || !result.data) {
+      log('Details fetch failed:', result.error);
+      return null;
+    }
+
+    const details = result.data;
+    return {
+      ...details,
+      genres: asArray(details.genres),
+      platforms: asArray(details.platforms),
+      platform_times: asArray(details.platform_times),
+      dlc: asArray(details.dlc),
+    };
+  } catch (e) {
+    logError('Details error:', hltbId, e);
+    return null;
+  }
 }
 
 // Initialize ID cache from Steam import (for public profiles)
@@ -112,7 +299,7 @@ export async function initializeIdCache(steamUserId: string): Promise<boolean> {
       return false;
     }
 
-    setIdCache(result.data, steamUserId);
+    await setIdCache(result.data, steamUserId);
     log('ID cache initialized with', result.data.length, 'mappings');
     return true;
   } catch (e) {
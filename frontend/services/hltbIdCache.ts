@@ -8,84 +8,163 @@
  * The cache is refreshed on every Steam startup (single low-cost API call).
  * This ensures new library additions get ID mappings immediately.
  *
- * Storage key: 'hltb-millennium-id-cache' in localStorage
+ * Storage: one record per app in the 'hltb-ids' entry store, plus the import
+ * metadata under 'id-cache' in the 'meta' store. Data from the old
+ * 'hltb-millennium-id-cache' localStorage key is migrated on first use.
  */
 
 import { log, logError } from './logger';
+import { openStore, type EntryStore } from '../storage';
 
-interface IdCacheStore {
+export interface IdCacheStore {
   [steamAppId: number]: number; // steamAppId -> hltbId
 }
 
-interface IdCacheMetadata {
+export interface IdCacheMetadata {
   timestamp: number;
   steamUserId: string;
 }
 
-interface IdCacheData {
+export interface IdCacheData {
   mappings: IdCacheStore;
   metadata: IdCacheMetadata;
 }
 
-const CACHE_KEY = 'hltb-millennium-id-cache';
+interface IdMapping {
+  hltbId: number;
+  timestamp: number;
+}
+
+const LEGACY_CACHE_KEY = 'hltb-millennium-id-cache';
+const METADATA_KEY = 'id-cache';
+
+function getMetadataStore(): EntryStore<IdCacheMetadata> {
+  return openStore<IdCacheMetadata>('meta');
+}
+
+function toMappingEntries(data: IdCacheData): Array<[number, IdMapping]> {
+  return Object.entries(data.mappings).map(([steamAppId, hltbId]): [number, IdMapping] => [
+    Number(steamAppId),
+    { hltbId, timestamp: data.metadata.timestamp },
+  ]);
+}
+
+// Writes the new mappings before removing old ones, so a failed write never
+// leaves the ID cache empty
+async function writeIdCache(store: EntryStore<IdMapping>, data: IdCacheData): Promise<void> {
+  const entries = toMappingEntries(data);
+  await store.putMany(entries);
+  await getMetadataStore().put(METADATA_KEY, data.metadata);
+
+  const kept = new Set(entries.map(([steamAppId]) => steamAppId));
+  for (const [steamAppId] of await store.getAll()) {
+    if (!kept.has(Number(steamAppId))) await store.delete(steamAppId);
+  }
+}
+
+// Move the old single-blob localStorage ID cache into the entry stores
+async function migrateLegacyIdCache(store: EntryStore<IdMapping>): Promise<void> {
+  const raw = localStorage.getItem(LEGACY_CACHE_KEY);
+  if (!raw) return;
 
-export function getHltbId(steamAppId: number): number | null {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    if (!raw) return null;
+    const legacy: IdCacheData = JSON.parse(raw);
+    await writeIdCache(store, legacy);
+    log('Migrated', Object.keys(legacy.mappings).length, 'ID mappings from localStorage');
+  } catch (e) {
+    logError('Legacy ID cache unreadable, discarding:', e);
+  }
+  // The ID cache is rebuilt on every startup, so a failed migration loses nothing
+  localStorage.removeItem(LEGACY_CACHE_KEY);
+}
 
-    const cache: IdCacheData = JSON.parse(raw);
-    const hltbId = cache.mappings[steamAppId];
+function getStore(): EntryStore<IdMapping> {
+  return openStore<IdMapping>('hltb-ids', migrateLegacyIdCache);
+}
 
-    return hltbId ?? null;
+export async function getHltbId(steamAppId: number): Promise<number | null> {
+  try {
+    const mapping = await getStore().get(steamAppId);
+    return mapping?.hltbId ?? null;
   } catch (e) {
     logError('ID cache read error:', e);
     return null;
   }
 }
 
-export function setIdCache(mappings: Array<{ steam_id: number; hltb_id: number }>, steamUserId: string): void {
+export async function setIdCache(
+  mappings: Array<{ steam_id: number; hltb_id: number }>,
+  steamUserId: string
+): Promise<void> {
   try {
     const store: IdCacheStore = {};
     for (const mapping of mappings) {
       store[mapping.steam_id] = mapping.hltb_id;
     }
 
-    const cache: IdCacheData = {
+    await writeIdCache(getStore(), {
       mappings: store,
       metadata: {
         timestamp: Date.now(),
         steamUserId,
       },
-    };
-
-    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+    });
     log('ID cache updated with', mappings.length, 'mappings');
   } catch (e) {
     logError('ID cache write error:', e);
   }
 }
 
+export async function getIdCacheData(): Promise<IdCacheData | null> {
+  try {
+    const entries = await getStore().getAll();
+    const metadata = await getMetadataStore().get(METADATA_KEY);
+    if (!metadata) return null;
+
+    const mappings: IdCacheStore = {};
+    for (const [steamAppId, mapping] of entries) {
+      mappings[Number(steamAppId)] = mapping.hltbId;
+    }
+    return { mappings, metadata };
+  } catch (e) {
+    logError('ID cache read error:', e);
+    return null;
+  }
+}
+
+// Returns false if the mappings couldn't be written
+export async function replaceIdCacheData(cache: IdCacheData): Promise<boolean> {
+  try {
+    await writeIdCache(getStore(), cache);
+    log('ID cache replaced with', Object.keys(cache.mappings).length, 'mappings');
+    return true;
+  } catch (e) {
+    logError('ID cache write error:', e);
+    return false;
+  }
+}
 
-export function clearIdCache(): void {
+export async function clearIdCache(): Promise<boolean> {
   try {
-    localStorage.removeItem(CACHE_KEY);
+    await getStore().clear();
+    await getMetadataStore().delete(METADATA_KEY);
     log('ID cache cleared');
+    return true;
   } catch (e) {
     logError('ID cache clear error:', e);
+    return false;
   }
 }
 
-export function getIdCacheStats(): { count: number; steamUserId: string | null; ageMs: number | null } {
+export async function getIdCacheStats(): Promise<{ count: number; steamUserId: string | null; ageMs: number | null }> {
   try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    if (!raw) return { count: 0, steamUserId: null, ageMs: null };
+    const metadata = await getMetadataStore().get(METADATA_KEY);
+    if (!metadata) return { count: 0, steamUserId: null, ageMs: null };
 
-    const cache: IdCacheData = JSON.parse(raw);
-    const count = Object.keys(cache.mappings).length;
-    const ageMs = Date.now() - cache.metadata.timestamp;
+    const count = await getStore().count();
+    const ageMs = Date.now() - metadata.timestamp;
 
-    return { count, steamUserId: cache.metadata.steamUserId, ageMs };
+    return { count, steamUserId: metadata.steamUserId, ageMs };
   } catch (e) {
     return { count: 0, steamUserId: null, ageMs: null };
   }
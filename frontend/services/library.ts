@@ -0,0 +1,19 @@
+/**
+ * Steam Library Access
+ *
+ * Reads the list of owned games from Steam's collection store. This is the
+ * same store the library sidebar is built from, so it includes every game
+ * the user owns (installed or not), but not tools, soundtracks or DLC.
+ */
+
+export interface LibraryApp {
+  appId: number;
+  name: string;
+}
+
+export function getOwnedApps(): LibraryApp[] {
+  const apps = window.collectionStore?.allGamesCollection?.allApps;
+  if (!apps) return [];
+
+  return apps.map((app) => ({ appId: app.appid, name: app.display_name }));
+}
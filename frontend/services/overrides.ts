@@ -0,0 +1,94 @@
+/**
+ * Manual Match Overrides
+ *
+ * Stores user-chosen Steam app ID -> HLTB game ID mappings, set from the
+ * "Wrong game?" picker on the game page. Overrides take priority over both
+ * the Steam import ID cache and name-based search, and are never refreshed
+ * or expired automatically.
+ *
+ * Storage key: 'hltb-millennium-overrides' in localStorage
+ */
+
+import { log, logError } from './logger';
+
+export interface MatchOverride {
+  hltbId: number;
+  hltbName: string;
+  appName: string;
+  timestamp: number;
+}
+
+export interface OverrideStore {
+  [steamAppId: number]: MatchOverride;
+}
+
+const STORAGE_KEY = 'hltb-millennium-overrides';
+
+function readStore(): OverrideStore {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  return raw ? JSON.parse(raw) : {};
+}
+
+export function getOverride(steamAppId: number): MatchOverride | null {
+  try {
+    return readStore()[steamAppId] ?? null;
+  } catch (e) {
+    logError('Override read error:', e);
+    return null;
+  }
+}
+
+export function setOverride(steamAppId: number, hltbId: number, hltbName: string, appName: string): void {
+  try {
+    const store = readStore();
+    store[steamAppId] = { hltbId, hltbName, appName, timestamp: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    log('Override set:', steamAppId, '->', hltbId, hltbName);
+  } catch (e) {
+    logError('Override write error:', e);
+  }
+}
+
+export function removeOverride(steamAppId: number): void {
+  try {
+    const store = readStore();
+    delete store[steamAppId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    log('Override removed:', steamAppId);
+  } catch (e) {
+    logError('Override write error:', e);
+  }
+}
+
+export function getOverrideStore(): OverrideStore {
+  try {
+    return readStore();
+  } catch (e) {
+    logError('Override read error:', e);
+    return {};
+  }
+}
+
+// Returns false if the store couldn't be written
+export function replaceOverrides(store: OverrideStore): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    log('Overrides replaced with', Object.keys(store).length, 'entries');
+    return true;
+  } catch (e) {
+    logError('Override write error:', e);
+    return false;
+  }
+}
+
+export function getAllOverrides(): Array<{ appId: number } & MatchOverride> {
+  try {
+    return Object.entries(readStore()).map(([appId, override]) => ({
+      appId: Number(appId),
+      ...override,
+    }));
+  } catch (e) {
+    logError('Override read error:', e);
+    return [];
+  }
+}
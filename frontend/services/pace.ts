@@ -0,0 +1,90 @@
+/**
+ * Personal Pace
+ *
+ * Learns how fast the user plays compared to HLTB. Every completed game
+ * gives a ratio of Steam playtime to HLTB Main Story time; the pace factor
+ * is the median ratio, after dropping outliers (idle time, games finished
+ * elsewhere before, games abandoned near the end). Estimates are HLTB times
+ * multiplied by the factor.
+ *
+ * The statistics are pure functions of the samples, so they can be checked
+ * without Steam or storage; getPersonalPace() feeds them the stored
+ * completions.
+ */
+
+import { getCompletionStore } from './completions';
+
+export interface PaceSample {
+  playtimeHours: number;
+  hltbHours: number;
+}
+
+export interface PaceStats {
+  factor: number;       // Median ratio of playtime to HLTB time; 1.2 means 20% slower
+  sampleCount: number;  // Completions used for the factor
+  outlierCount: number; // Completions dropped as outliers
+}
+
+// Fewer completions than this give no estimate
+export const MIN_PACE_SAMPLES = 3;
+// Outlier filtering needs enough samples for meaningful quartiles
+const MIN_SAMPLES_FOR_OUTLIERS = 4;
+// Tukey's fences: ratios further than this many IQRs outside the quartiles are outliers
+const OUTLIER_IQR_FACTOR = 1.5;
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Quartile by linear interpolation between the closest ranks
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Drops values outside Tukey's fences; small sets are returned unchanged
+function removeOutliers(sorted: number[]): number[] {
+  if (sorted.length < MIN_SAMPLES_FOR_OUTLIERS) return sorted;
+
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = (q3 - q1) * OUTLIER_IQR_FACTOR;
+  return sorted.filter((value) => value >= q1 - fence && value <= q3 + fence);
+}
+
+/**
+ * Computes the pace factor from completed games. Samples without playtime or
+ * HLTB time are ignored. Returns null with fewer than MIN_PACE_SAMPLES
+ * usable samples.
+ */
+export function computePace(samples: PaceSample[]): PaceStats | null {
+  const ratios = samples
+    .filter((s) => s.playtimeHours > 0 && s.hltbHours > 0)
+    .map((s) => s.playtimeHours / s.hltbHours)
+    .sort((a, b) => a - b);
+  if (ratios.length < MIN_PACE_SAMPLES) return null;
+
+  const kept = removeOutliers(ratios);
+  return {
+    factor: Math.round(median(kept) * 100) / 100,
+    sampleCount: kept.length,
+    outlierCount: ratios.length - kept.length,
+  };
+}
+
+// HLTB time adjusted to the user's pace, in hours (1 decimal place)
+export function estimateForPace(hltbHours: number | null | undefined, pace: PaceStats | null): number | null {
+  if (!hltbHours || !pace) return null;
+  return Math.round(hltbHours * pace.factor * 10) / 10;
+}
+
+export function getPersonalPace(): PaceStats | null {
+  const samples = Object.values(getCompletionStore()).map((completion) => ({
+    playtimeHours: completion.playtimeHours,
+    hltbHours: completion.hltbMainHours,
+  }));
+  return computePace(samples);
+}
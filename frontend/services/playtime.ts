@@ -0,0 +1,17 @@
+/**
+ * Steam Playtime
+ *
+ * Reads the user's own playtime for an app from the Steam client's app
+ * overview. This is the same number Steam shows as "Play Time" on the game
+ * page, so it needs no network request.
+ */
+
+export function getPlaytimeHours(appId: number): number | null {
+  try {
+    const minutes = window.appStore?.GetAppOverviewByAppID(appId)?.minutes_playtime_forever;
+    if (typeof minutes !== 'number') return null;
+    return Math.round((minutes / 60) * 10) / 10;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Background Library Prefetch
+ *
+ * Walks the owned games list and fills the result cache ahead of time, so
+ * game pages show times immediately instead of "Loading...".
+ *
+ * Requests go through a small queue that is:
+ * - concurrency-limited (PREFETCH_CONCURRENCY workers)
+ * - rate-limited (at most one request start per PREFETCH_INTERVAL)
+ * - backed off exponentially while the backend keeps failing
+ * - paused whenever a game page request is in flight, which always wins
+ *
+ * Apps with a known HLTB ID (override or Steam import) are fetched first,
+ * since those are cheap direct lookups instead of name searches.
+ */
+
+import { log } from './logger';
+import { getAllCacheEntries, isCacheEntryStale } from './cache';
+import { getIdCacheData } from './hltbIdCache';
+import { getOverride } from './overrides';
+import { getOwnedApps } from './library';
+import { prefetchHltbData, hasForegroundRequest } from './hltbApi';
+
+export type PrefetchStatus = 'idle' | 'running' | 'paused' | 'done';
+
+export interface PrefetchProgress {
+  status: PrefetchStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  backoffUntil: number | null;
+}
+
+const PREFETCH_CONCURRENCY = 2;
+const PREFETCH_INTERVAL = 1500; // ms between request starts
+const FOREGROUND_POLL_INTERVAL = 250;
+const BACKOFF_BASE = 5 * 1000;
+const BACKOFF_MAX = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+
+interface QueueItem {
+  appId: number;
+  attempts: number;
+}
+
+let queue: QueueItem[] = [];
+let progress: PrefetchProgress = { status: 'idle', total: 0, completed: 0, failed: 0, backoffUntil: null };
+let lastRequestAt = 0;
+let consecutiveFailures = 0;
+let activeWorkers = 0;
+let generation = 0; // Bumped on every start, so workers from an earlier run exit
+const listeners = new Set<(progress: PrefetchProgress) => void>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function update(changes: Partial<PrefetchProgress>): void {
+  progress = { ...progress, ...changes };
+  listeners.forEach((listener) => listener(progress));
+}
+
+async function buildQueue(): Promise<QueueItem[]> {
+  // Read both caches once up front rather than per app
+  const cache = await getAllCacheEntries();
+  const idMappings = (await getIdCacheData())?.mappings ?? {};
+
+  const apps = getOwnedApps().filter((app) => {
+    const entry = cache[app.appId];
+    return !entry || isCacheEntryStale(entry);
+  });
+
+  const hasKnownId = (appId: number) => getOverride(appId) !== null || idMappings[appId] !== undefined;
+  apps.sort((a, b) => Number(hasKnownId(b.appId)) - Number(hasKnownId(a.appId)));
+
+  return apps.map((app) => ({ appId: app.appId, attempts: 0 }));
+}
+
+// Wait until this worker may start a request: not paused, no game page
+// request in flight, not backing off, and the rate limit interval has passed
+async function waitForSlot(runGeneration: number): Promise<boolean> {
+  while (runGeneration === generation) {
+    const now = Date.now();
+    if (progress.status === 'paused' || hasForegroundRequest()) {
+      await sleep(FOREGROUND_POLL_INTERVAL);
+    } else if (progress.backoffUntil && now < progress.backoffUntil) {
+      await sleep(progress.backoffUntil - now);
+    } else if (now - lastRequestAt < PREFETCH_INTERVAL) {
+      await sleep(PREFETCH_INTERVAL - (now - lastRequestAt));
+    } else {
+      lastRequestAt = now;
+      return true;
+    }
+  }
+  return false;
+}
+
+async function runWorker(runGeneration: number): Promise<void> {
+  activeWorkers++;
+  try {
+    while (runGeneration === generation) {
+      const item = queue.shift();
+      if (!item) return;
+
+      if (!(await waitForSlot(runGeneration))) return;
+
+      const success = await prefetchHltbData(item.appId);
+      if (runGeneration !== generation) return;
+
+      if (success) {
+        consecutiveFailures = 0;
+        update({ completed: progress.completed + 1, backoffUntil: null });
+        continue;
+      }
+
+      consecutiveFailures++;
+      const delay = Math.min(BACKOFF_BASE * 2 ** (consecutiveFailures - 1), BACKOFF_MAX);
+      log(`Prefetch failed for appId ${item.appId}, backing off ${Math.round(delay / 1000)}s`);
+      update({ backoffUntil: Date.now() + delay });
+
+      item.attempts++;
+      if (item.attempts < MAX_ATTEMPTS) {
+        queue.push(item);
+      } else {
+        update({ failed: progress.failed + 1 });
+      }
+    }
+  } finally {
+    // Workers from a stopped run must not touch the current run's state
+    if (runGeneration === generation) {
+      activeWorkers--;
+    }
+    if (activeWorkers === 0 && runGeneration === generation && queue.length === 0) {
+      update({ status: 'done', backoffUntil: null });
+      log(`Prefetch done: ${progress.completed} fetched, ${progress.failed} failed`);
+    }
+  }
+}
+
+export async function startPrefetch(): Promise<void> {
+  if (progress.status === 'running' || progress.status === 'paused') return;
+
+  const runGeneration = ++generation;
+  queue = [];
+  consecutiveFailures = 0;
+  activeWorkers = 0;
+  update({ status: 'running', total: 0, completed: 0, failed: 0, backoffUntil: null });
+
+  const items = await buildQueue();
+  // Stopped while the queue was being built
+  if (runGeneration !== generation) return;
+
+  queue = items;
+  update({ total: queue.length });
+  log('Prefetch started for', queue.length, 'apps');
+
+  for (let i = 0; i < PREFETCH_CONCURRENCY; i++) {
+    runWorker(runGeneration);
+  }
+}
+
+export function pausePrefetch(): void {
+  if (progress.status !== 'running') return;
+  update({ status: 'paused' });
+  log('Prefetch paused');
+}
+
+export function resumePrefetch(): void {
+  if (progress.status !== 'paused') return;
+  update({ status: 'running' });
+  log('Prefetch resumed');
+}
+
+export function stopPrefetch(): void {
+  generation++;
+  queue = [];
+  update({ status: 'idle', backoffUntil: null });
+}
+
+export function getPrefetchProgress(): PrefetchProgress {
+  return progress;
+}
+
+export function subscribePrefetch(listener: (progress: PrefetchProgress) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,37 @@
+/**
+ * Backend RPC
+ *
+ * The library UI and the store pages reach the Lua backend through different
+ * Millennium packages (@steambrew/client and @steambrew/webkit). Shared
+ * services call the backend through this module instead of importing either
+ * package, and each entry point installs its package's `callable` on startup.
+ */
+
+import type { callable as clientCallable } from '@steambrew/client';
+
+// Typed after the client package's `callable`; the webkit one accepts the same calls
+type Callable = typeof clientCallable;
+type BackendArgs = Parameters<ReturnType<Callable>>;
+type BackendValue = Awaited<ReturnType<ReturnType<Callable>>>;
+
+let installed: Callable | null = null;
+
+export function installCallable(callable: Callable): void {
+  installed = callable;
+}
+
+// Like Millennium's `callable`, but bound on first call, so services can
+// declare their backend methods at module level before an entry point runs
+export function callable<Args extends BackendArgs = [], T extends BackendValue = string>(
+  route: string
+): (...args: Args) => Promise<T> {
+  let method: ((...args: Args) => Promise<T>) | null = null;
+
+  return (...args: Args) => {
+    if (!method) {
+      if (!installed) throw new Error(`Backend method "${route}" called before RPC was installed`);
+      method = installed<Args, T>(route);
+    }
+    return method(...args);
+  };
+}
@@ -1,36 +1,116 @@
+/**
+ * Plugin Settings
+ *
+ * Settings are stored in localStorage as { version, settings }. Older
+ * stored shapes are upgraded by MIGRATIONS on read, then every field is
+ * checked against the schema (see settingsSchema.ts); invalid or missing
+ * fields get their default.
+ *
+ * Storage key: 'hltb-millennium-settings' in localStorage
+ */
+
+import type { StatKey } from '../types';
+import type { Locale } from '../i18n';
+import { getDefaultSettings, pickValidSettings } from './settingsSchema';
+
+export type ProgressTarget = 'none' | StatKey;
+export type TimeFormat = 'decimal' | 'h' | 'hm' | 'days';
+export type ExtendedView = 'off' | 'hover' | 'toggle';
+export type TileBadgeMode = 'off' | 'badge' | 'hover';
+export type TileBadgePosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type ThemeId = 'default' | 'light' | 'transparent' | 'steam';
+export type DisplayLayout = 'standard' | 'compact' | 'vertical';
+
 export interface PluginSettings {
   horizontalOffset: number;
   verticalOffset: number;
   showViewDetails: boolean;
+  detailsOpenExternal: boolean;                  // "View Details" opens the HLTB website instead of the in-client panel
   alignRight: boolean;
   alignBottom: boolean;
+  prefetchEnabled: boolean;
+  progressTarget: ProgressTarget;
+  showStatPercentages: boolean;
+  statColumns: StatKey[];                        // Visible stats, in display order
+  statLabels: Partial<Record<StatKey, string>>;  // Custom labels; empty uses the default
+  timeFormat: TimeFormat;
+  hoursPerDay: number;                           // Used by the 'days' time format
+  language: 'auto' | Locale;
+  extendedView: ExtendedView;                    // How to reveal co-op/versus times, counts and score
+  confidenceThreshold: number;                   // Flag matches below this confidence (0-1); 0 disables
+  showOwnedDlc: boolean;                         // List extra time for the DLC the user owns
+  personalPace: boolean;                         // "Mark completed" button and estimates at the user's pace
+  maxCacheAgeDays: number;                       // Older cached results aren't shown
+  hoursPerWeek: number;                          // Play time per week for the statistics projection
+  selectorPacks: string;                         // Custom selector pack JSON, tried before the built-in packs
+  tileBadges: TileBadgeMode;                     // HLTB times on library grid tiles
+  tileBadgeStat: StatKey;                        // Time shown in the tile badge
+  tileBadgePosition: TileBadgePosition;
+  // Position in GamepadUI (Big Picture / Steam Deck), set apart from desktop
+  gamepadHorizontalOffset: number;
+  gamepadVerticalOffset: number;
+  gamepadAlignRight: boolean;
+  gamepadAlignBottom: boolean;
+  // Appearance of the box and library tiles, see display/themes.ts
+  theme: ThemeId;
+  displayLayout: DisplayLayout;
+  backgroundColor: string;                       // '#rrggbb'; empty uses the theme's color
+  textColor: string;
+  accentColor: string;
+  backgroundOpacity: number;                     // Percent
+  fontScale: number;                             // Percent of the built-in text sizes
+  cornerRadius: number;                          // px
 }
 
 const STORAGE_KEY = 'hltb-millennium-settings';
 
-const DEFAULT_SETTINGS: PluginSettings = {
-  horizontalOffset: 0,
-  verticalOffset: 0,
-  showViewDetails: true,
-  alignRight: true,
-  alignBottom: true,
-};
+export const SETTINGS_VERSION = 2;
+
+interface StoredSettings {
+  version: number;
+  settings: Record<string, unknown>;
+}
+
+// MIGRATIONS[n] upgrades a stored version n + 1 to version n + 2
+const MIGRATIONS: Array<(stored: StoredSettings) => StoredSettings> = [
+  // 1 -> 2: the settings object was stored bare, without a version
+  (stored) => ({ version: 2, settings: stored.settings }),
+];
+
+function readStored(raw: unknown): StoredSettings {
+  const object = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {};
+  if (typeof object.version === 'number' && typeof object.settings === 'object' && object.settings !== null) {
+    return { version: object.version, settings: object.settings as Record<string, unknown> };
+  }
+  return { version: 1, settings: object };
+}
+
+// Upgrades stored settings to SETTINGS_VERSION; returns whether anything changed
+function migrate(stored: StoredSettings): boolean {
+  const from = stored.version;
+  while (stored.version < SETTINGS_VERSION) {
+    Object.assign(stored, MIGRATIONS[stored.version - 1](stored));
+  }
+  return stored.version !== from;
+}
 
 export function getSettings(): PluginSettings {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return { ...DEFAULT_SETTINGS };
-
-    const parsed = JSON.parse(stored);
-    return {
-      ...DEFAULT_SETTINGS,
-      ...parsed,
-    };
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return getDefaultSettings();
+
+    const stored = readStored(JSON.parse(raw));
+    const migrated = migrate(stored);
+    const settings = { ...getDefaultSettings(), ...pickValidSettings(stored.settings) };
+    // Store the upgraded shape, so migrations run once
+    if (migrated) saveSettings(settings);
+    return settings;
   } catch {
-    return { ...DEFAULT_SETTINGS };
+    return getDefaultSettings();
   }
 }
 
 export function saveSettings(settings: PluginSettings): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  const stored: StoredSettings = { version: SETTINGS_VERSION, settings: { ...settings } };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
 }
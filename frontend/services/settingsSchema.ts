@@ -0,0 +1,472 @@
+/**
+ * Settings Schema
+ *
+ * Describes every PluginSettings field: its type, allowed values, default,
+ * and where the settings page shows it. The mapped type makes a missing or
+ * extra field a compile error, so the schema can't fall behind the
+ * interface.
+ *
+ * Default settings are built from the schema, and stored or imported
+ * settings are checked against it: a value of the wrong type or out of range
+ * falls back to the default instead of reaching the display.
+ */
+
+import type { StatKey } from '../types';
+import type { MessageKey } from '../i18n';
+import type { PluginSettings } from './settings';
+import type { ThemeColors } from '../display/themes';
+
+export type SettingsSection = 'general' | 'position' | 'gamepad' | 'appearance' | 'display' | 'matching' | 'library' | 'data';
+
+export const SETTINGS_SECTIONS: SettingsSection[] = [
+  'general',
+  'position',
+  'gamepad',
+  'appearance',
+  'display',
+  'matching',
+  'library',
+  'data',
+];
+
+interface BaseSchema<T> {
+  section: SettingsSection;
+  default: T;
+  label?: MessageKey;       // Fields without a label are drawn by the settings page itself
+  description?: MessageKey;
+  showIf?: (settings: PluginSettings) => boolean; // Hidden while another setting makes it irrelevant
+}
+
+interface NumberSchema {
+  type: 'number';
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+  scale?: number; // Shown multiplied by this, e.g. 100 for a 0-1 fraction shown as percent
+}
+
+// '#rrggbb', or empty for the theme's color
+interface ColorSchema {
+  type: 'color';
+  themeColor: keyof ThemeColors; // Shown while the setting is empty
+}
+
+// Checked by a function, for values the settings page draws itself
+interface CustomSchema {
+  type: 'custom';
+  isValid: (value: unknown) => boolean;
+}
+
+// Tuples keep the conditional from distributing over union types like TimeFormat
+export type SettingSchema<T> = BaseSchema<T> &
+  (
+    | CustomSchema
+    | ([T] extends [boolean]
+        ? { type: 'boolean' }
+        : [T] extends [number]
+          ? NumberSchema
+          : [T] extends [string]
+            ? string extends T
+              ? { type: 'text' } | ColorSchema
+              : { type: 'enum'; options: Record<T, MessageKey> }
+            : never)
+  );
+
+export type SettingsSchema = { [K in keyof PluginSettings]: SettingSchema<PluginSettings[K]> };
+
+const STAT_OPTIONS: Record<StatKey, MessageKey> = {
+  comp_main: 'stat.comp_main',
+  comp_plus: 'stat.comp_plus',
+  comp_100: 'stat.comp_100',
+};
+
+const isStatKey = (value: unknown): boolean => typeof value === 'string' && value in STAT_OPTIONS;
+
+const OFFSET: NumberSchema = { type: 'number', min: 0, max: 2000, step: 1, integer: true };
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const SETTINGS_SCHEMA: SettingsSchema = {
+  language: {
+    section: 'general',
+    type: 'custom',
+    default: 'auto',
+    // Unknown locales fall back to English when the catalog is picked
+    isValid: (value) => typeof value === 'string',
+  },
+
+  horizontalOffset: {
+    section: 'position',
+    ...OFFSET,
+    default: 0,
+    label: 'settings.horizontalOffset.label',
+    description: 'settings.horizontalOffset.description',
+  },
+  verticalOffset: {
+    section: 'position',
+    ...OFFSET,
+    default: 0,
+    label: 'settings.verticalOffset.label',
+    description: 'settings.verticalOffset.description',
+  },
+  alignRight: {
+    section: 'position',
+    type: 'boolean',
+    default: true,
+    label: 'settings.alignRight.label',
+    description: 'settings.alignRight.description',
+  },
+  alignBottom: {
+    section: 'position',
+    type: 'boolean',
+    default: true,
+    label: 'settings.alignBottom.label',
+    description: 'settings.alignBottom.description',
+  },
+
+  gamepadHorizontalOffset: { section: 'gamepad', ...OFFSET, default: 0, label: 'settings.horizontalOffset.label' },
+  gamepadVerticalOffset: { section: 'gamepad', ...OFFSET, default: 0, label: 'settings.verticalOffset.label' },
+  gamepadAlignRight: { section: 'gamepad', type: 'boolean', default: true, label: 'settings.alignRight.label' },
+  gamepadAlignBottom: { section: 'gamepad', type: 'boolean', default: true, label: 'settings.alignBottom.label' },
+
+  theme: {
+    section: 'appearance',
+    type: 'enum',
+    default: 'default',
+    label: 'settings.theme.label',
+    description: 'settings.theme.description',
+    options: {
+      default: 'settings.theme.default',
+      light: 'settings.theme.light',
+      transparent: 'settings.theme.transparent',
+      steam: 'settings.theme.steam',
+    },
+  },
+  displayLayout: {
+    section: 'appearance',
+    type: 'enum',
+    default: 'standard',
+    label: 'settings.displayLayout.label',
+    description: 'settings.displayLayout.description',
+    options: {
+      standard: 'settings.displayLayout.standard',
+      compact: 'settings.displayLayout.compact',
+      vertical: 'settings.displayLayout.vertical',
+    },
+  },
+  backgroundColor: {
+    section: 'appearance',
+    type: 'color',
+    themeColor: 'background',
+    default: '',
+    label: 'settings.backgroundColor.label',
+    description: 'settings.themeColor.description',
+    showIf: (settings) => settings.theme !== 'transparent',
+  },
+  textColor: {
+    section: 'appearance',
+    type: 'color',
+    themeColor: 'text',
+    default: '',
+    label: 'settings.textColor.label',
+    description: 'settings.themeColor.description',
+  },
+  accentColor: {
+    section: 'appearance',
+    type: 'color',
+    themeColor: 'accent',
+    default: '',
+    label: 'settings.accentColor.label',
+    description: 'settings.themeColor.description',
+  },
+  backgroundOpacity: {
+    section: 'appearance',
+    type: 'number',
+    min: 0,
+    max: 100,
+    step: 5,
+    integer: true,
+    default: 85,
+    label: 'settings.backgroundOpacity.label',
+    description: 'settings.backgroundOpacity.description',
+    showIf: (settings) => settings.theme !== 'transparent',
+  },
+  fontScale: {
+    section: 'appearance',
+    type: 'number',
+    min: 50,
+    max: 200,
+    step: 10,
+    integer: true,
+    default: 100,
+    label: 'settings.fontScale.label',
+    description: 'settings.fontScale.description',
+  },
+  cornerRadius: {
+    section: 'appearance',
+    type: 'number',
+    min: 0,
+    max: 24,
+    step: 1,
+    integer: true,
+    default: 0,
+    label: 'settings.cornerRadius.label',
+    description: 'settings.cornerRadius.description',
+  },
+
+  showViewDetails: {
+    section: 'display',
+    type: 'boolean',
+    default: true,
+    label: 'settings.showViewDetails.label',
+    description: 'settings.showViewDetails.description',
+  },
+  detailsOpenExternal: {
+    section: 'display',
+    type: 'boolean',
+    default: false,
+    label: 'settings.detailsOpenExternal.label',
+    description: 'settings.detailsOpenExternal.description',
+  },
+  statColumns: {
+    section: 'display',
+    type: 'custom',
+    default: ['comp_main', 'comp_plus', 'comp_100'],
+    isValid: (value) =>
+      Array.isArray(value) && value.every(isStatKey) && new Set(value).size === value.length,
+  },
+  statLabels: {
+    section: 'display',
+    type: 'custom',
+    default: {},
+    isValid: (value) =>
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      Object.entries(value).every(([key, label]) => isStatKey(key) && typeof label === 'string'),
+  },
+  timeFormat: {
+    section: 'display',
+    type: 'enum',
+    default: 'decimal',
+    label: 'settings.timeFormat.label',
+    options: {
+      decimal: 'settings.timeFormat.decimal',
+      h: 'settings.timeFormat.h',
+      hm: 'settings.timeFormat.hm',
+      days: 'settings.timeFormat.days',
+    },
+  },
+  hoursPerDay: {
+    section: 'display',
+    type: 'number',
+    min: 0.5,
+    max: 24,
+    step: 0.5,
+    default: 2,
+    label: 'settings.hoursPerDay.label',
+    description: 'settings.hoursPerDay.description',
+    showIf: (settings) => settings.timeFormat === 'days',
+  },
+  progressTarget: {
+    section: 'display',
+    type: 'enum',
+    default: 'none',
+    label: 'settings.progressTarget.label',
+    description: 'settings.progressTarget.description',
+    options: { none: 'settings.progressTarget.off', ...STAT_OPTIONS },
+  },
+  showStatPercentages: {
+    section: 'display',
+    type: 'boolean',
+    default: false,
+    label: 'settings.showPercentages.label',
+    description: 'settings.showPercentages.description',
+  },
+  extendedView: {
+    section: 'display',
+    type: 'enum',
+    default: 'off',
+    label: 'settings.extendedView.label',
+    description: 'settings.extendedView.description',
+    options: {
+      off: 'settings.extendedView.off',
+      hover: 'settings.extendedView.hover',
+      toggle: 'settings.extendedView.toggle',
+    },
+  },
+
+  confidenceThreshold: {
+    section: 'matching',
+    type: 'number',
+    min: 0,
+    max: 1,
+    step: 0.05,
+    scale: 100,
+    default: 0.8,
+    label: 'settings.confidenceThreshold.label',
+    description: 'settings.confidenceThreshold.description',
+  },
+  showOwnedDlc: {
+    section: 'matching',
+    type: 'boolean',
+    default: false,
+    label: 'settings.showOwnedDlc.label',
+    description: 'settings.showOwnedDlc.description',
+  },
+  personalPace: {
+    section: 'matching',
+    type: 'boolean',
+    default: false,
+    label: 'settings.personalPace.label',
+    description: 'settings.personalPace.description',
+  },
+
+  tileBadges: {
+    section: 'library',
+    type: 'enum',
+    default: 'off',
+    label: 'settings.tileBadges.label',
+    description: 'settings.tileBadges.description',
+    options: {
+      off: 'settings.tileBadges.off',
+      badge: 'settings.tileBadges.badge',
+      hover: 'settings.tileBadges.hover',
+    },
+  },
+  tileBadgeStat: {
+    section: 'library',
+    type: 'enum',
+    default: 'comp_main',
+    label: 'settings.tileBadgeStat.label',
+    options: STAT_OPTIONS,
+    showIf: (settings) => settings.tileBadges === 'badge',
+  },
+  tileBadgePosition: {
+    section: 'library',
+    type: 'enum',
+    default: 'top-right',
+    label: 'settings.tileBadgePosition.label',
+    options: {
+      'top-left': 'settings.tileBadgePosition.topLeft',
+      'top-right': 'settings.tileBadgePosition.topRight',
+      'bottom-left': 'settings.tileBadgePosition.bottomLeft',
+      'bottom-right': 'settings.tileBadgePosition.bottomRight',
+    },
+    showIf: (settings) => settings.tileBadges !== 'off',
+  },
+  prefetchEnabled: { section: 'library', type: 'boolean', default: false },
+  hoursPerWeek: {
+    section: 'library',
+    type: 'number',
+    min: 1,
+    max: 168,
+    step: 1,
+    default: 10,
+    label: 'stats.hoursPerWeek',
+    description: 'settings.hoursPerWeek.description',
+  },
+
+  maxCacheAgeDays: {
+    section: 'data',
+    type: 'number',
+    min: 1,
+    max: 90,
+    step: 1,
+    integer: true,
+    default: 90,
+    label: 'settings.maxCacheAge.label',
+    description: 'settings.maxCacheAge.description',
+  },
+  selectorPacks: { section: 'data', type: 'text', default: '' },
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as Array<keyof PluginSettings>;
+
+// Why `value` can't be stored under `key`, or null if it can
+export function getSettingError(key: keyof PluginSettings, value: unknown): string | null {
+  const schema = SETTINGS_SCHEMA[key];
+  switch (schema.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected boolean';
+    case 'text':
+      return typeof value === 'string' ? null : 'expected string';
+    case 'color':
+      return typeof value === 'string' && (value === '' || COLOR_PATTERN.test(value)) ? null : 'expected #rrggbb';
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'expected number';
+      if (value < schema.min || value > schema.max) return `expected ${schema.min} to ${schema.max}`;
+      if (schema.integer && !Number.isInteger(value)) return 'expected a whole number';
+      return null;
+    case 'enum':
+      return typeof value === 'string' && value in schema.options
+        ? null
+        : `expected one of ${Object.keys(schema.options).join(', ')}`;
+    case 'custom':
+      return schema.isValid(value) ? null : 'invalid value';
+  }
+}
+
+export function getDefaultSettings(): PluginSettings {
+  const defaults: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    // Copy arrays and objects, so changing the result can't change the schema
+    defaults[key] = structuredClone(SETTINGS_SCHEMA[key].default);
+  }
+  return defaults as unknown as PluginSettings;
+}
+
+// Known fields with valid values; anything else is dropped
+export function pickValidSettings(values: Record<string, unknown>): Partial<PluginSettings> {
+  const valid: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    if (values[key] !== undefined && getSettingError(key, values[key]) === null) {
+      valid[key] = values[key];
+    }
+  }
+  return valid as Partial<PluginSettings>;
+}
+
+export interface SettingsPreset {
+  id: string;
+  label: MessageKey;
+  changes: Partial<PluginSettings>;
+}
+
+// Layout presets for the settings page. Corner presets also clear the
+// offsets, so the box sits right in the corner.
+export const SETTINGS_PRESETS: SettingsPreset[] = [
+  {
+    id: 'top-left',
+    label: 'settings.presets.topLeft',
+    changes: { alignRight: false, alignBottom: false, horizontalOffset: 0, verticalOffset: 0 },
+  },
+  {
+    id: 'top-right',
+    label: 'settings.presets.topRight',
+    changes: { alignRight: true, alignBottom: false, horizontalOffset: 0, verticalOffset: 0 },
+  },
+  {
+    id: 'bottom-left',
+    label: 'settings.presets.bottomLeft',
+    changes: { alignRight: false, alignBottom: true, horizontalOffset: 0, verticalOffset: 0 },
+  },
+  {
+    id: 'bottom-right',
+    label: 'settings.presets.bottomRight',
+    changes: { alignRight: true, alignBottom: true, horizontalOffset: 0, verticalOffset: 0 },
+  },
+  {
+    id: 'compact',
+    label: 'settings.presets.compact',
+    changes: {
+      statColumns: ['comp_main'],
+      displayLayout: 'compact',
+      showViewDetails: false,
+      showStatPercentages: false,
+      progressTarget: 'none',
+      extendedView: 'off',
+    },
+  },
+];
@@ -0,0 +1,122 @@
+/**
+ * Shared State
+ *
+ * The store pages (webkit/) run on the store's origin, so they can't read
+ * the library's storage. The library publishes its state to the backend as
+ * a backup bundle (see backup.ts): settings, result and ID caches, overrides
+ * and completed games. The backend also keeps every result it looks up while
+ * Steam runs, whichever page asked. When a store page loads, both go into
+ * the store's own storage, so it shows the library's results and uses the
+ * user's settings and matches. The library owns settings, the ID cache,
+ * overrides and completions, so its copies replace the store's; results are
+ * merged, keeping the newer one for each app.
+ *
+ * Only what changed since the last merge is fetched, by the backend's clock.
+ *
+ * Storage key: 'hltb-millennium-shared-sync' in the store's localStorage
+ */
+
+import { log, logError } from './logger';
+import { callable } from './rpc';
+import { exportStateJson, validateBackup, type PluginBackup } from './backup';
+import { mergeCacheEntries, type CacheStore } from './cache';
+import { replaceIdCacheData, clearIdCache } from './hltbIdCache';
+import { replaceOverrides } from './overrides';
+import { replaceCompletions } from './completions';
+import { saveSettings } from './settings';
+import { getDefaultSettings, pickValidSettings } from './settingsSchema';
+import { toGameResult } from './hltbApi';
+
+interface SharedStateResponse {
+  success: boolean;
+  error?: string;
+  data?: {
+    state?: string;           // Backup bundle JSON; left out when unchanged
+    results: CacheStore | []; // Empty Lua tables are encoded as arrays
+    now: number;              // Backend time to ask for changes since, next time
+  };
+}
+
+const SetSharedState = callable<[{ state_json: string }], string>('SetSharedState');
+const GetSharedState = callable<[{ since: number }], string>('GetSharedState');
+
+const SYNC_KEY = 'hltb-millennium-shared-sync';
+const PUBLISH_DELAY = 5 * 1000;
+
+let publishTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Sends the library's state to the backend, for the store pages
+export async function publishState(): Promise<void> {
+  try {
+    const response: SharedStateResponse = JSON.parse(await SetSharedState({ state_json: await exportStateJson() }));
+    if (!response.success) log('Shared state not published:', response.error);
+  } catch (e) {
+    logError('Shared state publish error:', e);
+  }
+}
+
+// Publishes once changes settle. Call after settings or matches change;
+// lookup results reach the backend without it.
+export function schedulePublish(): void {
+  if (publishTimer) clearTimeout(publishTimer);
+  publishTimer = setTimeout(() => {
+    publishTimer = null;
+    publishState();
+  }, PUBLISH_DELAY);
+}
+
+// Writes the library's bundle into this origin's storage; returns what failed
+async function applyLibraryState(json: string): Promise<string[]> {
+  const parsed: unknown = JSON.parse(json);
+  const errors = validateBackup(parsed);
+  if (errors.length > 0) return errors;
+
+  const backup = parsed as PluginBackup;
+  saveSettings({ ...getDefaultSettings(), ...pickValidSettings(backup.settings as unknown as Record<string, unknown>) });
+  const written: Array<[string, boolean]> = [
+    ['cache', await mergeCacheEntries(backup.cache)],
+    ['idCache', backup.idCache ? await replaceIdCacheData(backup.idCache) : await clearIdCache()],
+    ['overrides', replaceOverrides(backup.overrides)],
+    ['completions', replaceCompletions(backup.completions ?? {})],
+  ];
+  return written.filter(([, ok]) => !ok).map(([part]) => `${part}: could not be saved`);
+}
+
+/**
+ * Merges the library's state and the backend's results into this origin's
+ * storage. For the store pages; run it before anything is shown. Returns
+ * false if something couldn't be fetched or written, in which case the next
+ * call asks for the same changes again.
+ */
+export async function importSharedState(): Promise<boolean> {
+  try {
+    const since = Number(localStorage.getItem(SYNC_KEY)) || 0;
+    const response: SharedStateResponse = JSON.parse(await GetSharedState({ since }));
+    if (!response.success || !response.data) {
+      log('Shared state unavailable:', response.error);
+      return false;
+    }
+
+    const { state, results, now } = response.data;
+    if (state) {
+      const errors = await applyLibraryState(state);
+      if (errors.length > 0) {
+        logError('Library state not applied:', errors);
+        return false;
+      }
+    }
+
+    const cache: CacheStore = {};
+    for (const [appId, entry] of Object.entries(Array.isArray(results) ? {} : results)) {
+      cache[Number(appId)] = { ...entry, data: entry.data && toGameResult(entry.data) };
+    }
+    if (!(await mergeCacheEntries(cache))) return false;
+
+    localStorage.setItem(SYNC_KEY, String(now));
+    log('Shared state merged:', state ? 'library state,' : 'no new library state,', Object.keys(cache).length, 'results');
+    return true;
+  } catch (e) {
+    logError('Shared state error:', e);
+    return false;
+  }
+}
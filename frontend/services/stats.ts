@@ -0,0 +1,140 @@
+/**
+ * Backlog Statistics
+ *
+ * Aggregates the result cache and the Steam import ID cache over the owned
+ * library: hours left per category, a histogram of Main Story lengths, how
+ * many games are matched, and the short games that fit in a weekend.
+ *
+ * Hours left are HLTB times minus the user's playtime, so games that are
+ * partly played count for what remains. Games marked completed are left out.
+ * Everything here is a pure function of its input; getStatsInput() collects
+ * the input from the caches and the Steam client.
+ */
+
+import { STAT_KEYS, type StatKey } from '../types';
+import { getAllCacheEntries, type CacheStore } from './cache';
+import { getIdCacheData, type IdCacheStore } from './hltbIdCache';
+import { getOwnedApps, type LibraryApp } from './library';
+import { getPlaytimeHours } from './playtime';
+import { getCompletionStore } from './completions';
+
+export interface StatsInput {
+  apps: LibraryApp[];
+  cache: CacheStore;
+  idMappings: IdCacheStore;           // Steam import: Steam app ID -> HLTB ID
+  playtime: Record<number, number>;   // Hours played per Steam app ID
+  completed: Set<number>;             // Steam app IDs marked completed
+}
+
+export interface LengthBucket {
+  min: number;        // Hours, inclusive
+  max: number | null; // Hours, exclusive; null for the last bucket
+  count: number;
+}
+
+export interface QuickWin extends LibraryApp {
+  hoursLeft: number;  // Main Story minus playtime
+}
+
+export interface BacklogStats {
+  hoursLeft: Record<StatKey, number>;
+  counts: {
+    total: number;
+    matched: number;   // HLTB game found
+    unmatched: number; // Looked up, but HLTB has no match
+    uncached: number;  // Not looked up yet
+    imported: number;  // HLTB ID known from the Steam import
+    completed: number; // Marked completed, left out of the hours
+  };
+  histogram: LengthBucket[];
+  quickWins: QuickWin[];
+}
+
+// Lower bounds of the Main Story histogram buckets, in hours
+export const LENGTH_BUCKET_BOUNDS = [0, 5, 10, 20, 40, 80];
+// Hours a weekend is assumed to have for quick wins
+export const WEEKEND_HOURS = 10;
+const MAX_QUICK_WINS = 10;
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+function createHistogram(lengths: number[]): LengthBucket[] {
+  return LENGTH_BUCKET_BOUNDS.map((min, i) => {
+    const max = LENGTH_BUCKET_BOUNDS[i + 1] ?? null;
+    const count = lengths.filter((hours) => hours >= min && (max === null || hours < max)).length;
+    return { min, max, count };
+  });
+}
+
+export function computeBacklogStats(input: StatsInput, weekendHours: number = WEEKEND_HOURS): BacklogStats {
+  const hoursLeft: Record<StatKey, number> = { comp_main: 0, comp_plus: 0, comp_100: 0 };
+  const counts = { total: input.apps.length, matched: 0, unmatched: 0, uncached: 0, imported: 0, completed: 0 };
+  const mainLengths: number[] = [];
+  const quickWins: QuickWin[] = [];
+
+  for (const app of input.apps) {
+    if (input.idMappings[app.appId] !== undefined) counts.imported++;
+
+    const entry = input.cache[app.appId];
+    const data = entry?.data;
+    if (!entry) {
+      counts.uncached++;
+      continue;
+    }
+    if (!data?.game_id) {
+      counts.unmatched++;
+      continue;
+    }
+
+    counts.matched++;
+    if (data.comp_main) mainLengths.push(data.comp_main);
+    if (input.completed.has(app.appId)) {
+      counts.completed++;
+      continue;
+    }
+
+    const played = input.playtime[app.appId] ?? 0;
+    for (const key of STAT_KEYS) {
+      hoursLeft[key] += Math.max(0, (data[key] ?? 0) - played);
+    }
+
+    const mainLeft = data.comp_main ? data.comp_main - played : 0;
+    if (mainLeft > 0 && mainLeft <= weekendHours) {
+      quickWins.push({ ...app, hoursLeft: roundHours(mainLeft) });
+    }
+  }
+
+  for (const key of STAT_KEYS) {
+    hoursLeft[key] = roundHours(hoursLeft[key]);
+  }
+
+  return {
+    hoursLeft,
+    counts,
+    histogram: createHistogram(mainLengths),
+    quickWins: quickWins.sort((a, b) => a.hoursLeft - b.hoursLeft || a.name.localeCompare(b.name)).slice(0, MAX_QUICK_WINS),
+  };
+}
+
+// Weeks needed for `hours` at `hoursPerWeek`, rounded up; null without a pace
+export function projectWeeks(hours: number, hoursPerWeek: number): number | null {
+  if (hoursPerWeek <= 0) return null;
+  return Math.ceil(hours / hoursPerWeek);
+}
+
+export async function getStatsInput(): Promise<StatsInput> {
+  const apps = getOwnedApps();
+  const playtime: Record<number, number> = {};
+  for (const app of apps) {
+    const hours = getPlaytimeHours(app.appId);
+    if (hours) playtime[app.appId] = hours;
+  }
+
+  return {
+    apps,
+    cache: await getAllCacheEntries(),
+    idMappings: (await getIdCacheData())?.mappings ?? {},
+    playtime,
+    completed: new Set(Object.keys(getCompletionStore()).map(Number)),
+  };
+}
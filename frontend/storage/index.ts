@@ -0,0 +1,122 @@
+/**
+ * Entry Storage
+ *
+ * Persistent per-entry stores for the result cache and the HLTB ID cache.
+ *
+ * Backends, in order of preference:
+ * - IndexedDB: per-entry reads/writes off the localStorage blob, with a
+ *   timestamp index for pruning
+ * - localStorage: one item per entry, used if IndexedDB can't be opened
+ * - memory: for tests, selected with useMemoryStorage()
+ *
+ * Stores are opened lazily. An optional migration runs once, before the
+ * first operation on a store, to move data over from older storage formats.
+ */
+
+import { log, logError } from '../services/logger';
+import type { EntryStore, StoreName, Timestamped } from './types';
+import { isIndexedDbAvailable, openDatabase, createIndexedDbStore } from './indexedDb';
+import { createLocalStorageStore } from './localStorage';
+import { createMemoryStore } from './memory';
+
+export type { EntryStore, StoreKey, StoreName, Timestamped } from './types';
+
+export type StorageBackend = 'indexeddb' | 'localstorage' | 'memory';
+
+type Migration<T extends Timestamped> = (store: EntryStore<T>) => Promise<void>;
+
+const LOCAL_STORAGE_PREFIX = 'hltb-millennium-store-';
+
+let backend: StorageBackend | null = null;
+let database: Promise<IDBDatabase | null> | null = null;
+let forceMemory = false;
+// Each store is opened by one service, always with the same entry type
+const stores = new Map<StoreName, EntryStore<Timestamped>>();
+
+function getDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = isIndexedDbAvailable()
+      ? openDatabase().catch((e) => {
+          logError('IndexedDB unavailable, falling back to localStorage:', e);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return database;
+}
+
+async function createBackendStore<T extends Timestamped>(name: StoreName): Promise<EntryStore<T>> {
+  if (forceMemory) {
+    backend = 'memory';
+    return createMemoryStore<T>();
+  }
+
+  const db = await getDatabase();
+  if (db) {
+    backend = 'indexeddb';
+    return createIndexedDbStore<T>(db, name);
+  }
+
+  backend = 'localstorage';
+  return createLocalStorageStore<T>(`${LOCAL_STORAGE_PREFIX}${name}:`);
+}
+
+// Wraps a store that is still being opened (and migrated), so callers can
+// use it right away; every operation waits for the real store first
+function createLazyStore<T extends Timestamped>(name: StoreName, migrate?: Migration<T>): EntryStore<T> {
+  let ready: Promise<EntryStore<T>> | null = null;
+
+  const resolve = (): Promise<EntryStore<T>> => {
+    if (!ready) {
+      ready = createBackendStore<T>(name).then(async (store) => {
+        if (migrate) {
+          try {
+            await migrate(store);
+          } catch (e) {
+            logError(`Migration failed for store "${name}":`, e);
+          }
+        }
+        return store;
+      });
+    }
+    return ready;
+  };
+
+  return {
+    get: async (key) => (await resolve()).get(key),
+    getAll: async () => (await resolve()).getAll(),
+    put: async (key, value) => (await resolve()).put(key, value),
+    putMany: async (entries) => (await resolve()).putMany(entries),
+    delete: async (key) => (await resolve()).delete(key),
+    clear: async () => (await resolve()).clear(),
+    count: async () => (await resolve()).count(),
+    oldestTimestamp: async () => (await resolve()).oldestTimestamp(),
+    pruneOlderThan: async (cutoff) => (await resolve()).pruneOlderThan(cutoff),
+    pruneToNewest: async (maxEntries) => (await resolve()).pruneToNewest(maxEntries),
+  };
+}
+
+/**
+ * Returns the store with the given name, opening it on first use.
+ * `migrate` only applies the first time a store is opened.
+ */
+export function openStore<T extends Timestamped>(name: StoreName, migrate?: Migration<T>): EntryStore<T> {
+  const opened = stores.get(name);
+  if (opened) return opened as EntryStore<T>;
+
+  const store = createLazyStore<T>(name, migrate);
+  stores.set(name, store);
+  return store;
+}
+
+// Switch every store to memory, dropping stores opened so far. For tests.
+export function useMemoryStorage(): void {
+  forceMemory = true;
+  stores.clear();
+  log('Storage switched to memory');
+}
+
+// Which backend the stores use; null until the first store is opened
+export function getStorageBackend(): StorageBackend | null {
+  return backend;
+}
@@ -0,0 +1,133 @@
+import type { EntryStore, StoreKey, StoreName, Timestamped } from './types';
+import { STORE_NAMES } from './types';
+
+const DB_NAME = 'hltb-millennium';
+const DB_VERSION = 1;
+const TIMESTAMP_INDEX = 'timestamp';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// Deletes entries from a cursor until it ends or `limit` entries are gone
+function deleteFromCursor(request: IDBRequest<IDBCursorWithValue | null>, limit = Infinity): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let deleted = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || deleted >= limit) {
+        resolve(deleted);
+        return;
+      }
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of STORE_NAMES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name).createIndex(TIMESTAMP_INDEX, 'timestamp');
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+  });
+}
+
+/**
+ * IndexedDB store. Entries are stored per key, with a timestamp index so
+ * pruning walks only the entries it removes.
+ */
+export function createIndexedDbStore<T extends Timestamped>(db: IDBDatabase, name: StoreName): EntryStore<T> {
+  const begin = (mode: IDBTransactionMode) => {
+    const transaction = db.transaction(name, mode);
+    return { store: transaction.objectStore(name), done: transactionDone(transaction) };
+  };
+
+  const write = async (action: (store: IDBObjectStore) => void) => {
+    const { store, done } = begin('readwrite');
+    action(store);
+    await done;
+  };
+
+  return {
+    async get(key) {
+      const value = await promisify<T | undefined>(begin('readonly').store.get(key));
+      return value ?? null;
+    },
+
+    async getAll() {
+      const { store } = begin('readonly');
+      // Both requests run in one transaction, so keys and values line up
+      const [keys, values] = await Promise.all([promisify(store.getAllKeys()), promisify<T[]>(store.getAll())]);
+      return keys.map((key, i): [StoreKey, T] => [key as StoreKey, values[i]]);
+    },
+
+    put(key, value) {
+      return write((store) => store.put(value, key));
+    },
+
+    putMany(entries) {
+      return write((store) => entries.forEach(([key, value]) => store.put(value, key)));
+    },
+
+    delete(key) {
+      return write((store) => store.delete(key));
+    },
+
+    clear() {
+      return write((store) => store.clear());
+    },
+
+    count() {
+      return promisify(begin('readonly').store.count());
+    },
+
+    async oldestTimestamp() {
+      const cursor = await promisify(begin('readonly').store.index(TIMESTAMP_INDEX).openCursor());
+      return cursor ? (cursor.value as T).timestamp : null;
+    },
+
+    async pruneOlderThan(cutoff) {
+      const { store, done } = begin('readwrite');
+      const range = IDBKeyRange.upperBound(cutoff, true);
+      const deleted = await deleteFromCursor(store.index(TIMESTAMP_INDEX).openCursor(range));
+      await done;
+      return deleted;
+    },
+
+    async pruneToNewest(maxEntries) {
+      const { store, done } = begin('readwrite');
+      const excess = (await promisify(store.count())) - maxEntries;
+      // Oldest first, stopping once the store is back under the limit
+      const deleted = excess > 0 ? await deleteFromCursor(store.index(TIMESTAMP_INDEX).openCursor(), excess) : 0;
+      await done;
+      return deleted;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import type { EntryStore, StoreKey, Timestamped } from './types';
+import { createScanOperations } from './scan';
+
+/**
+ * localStorage store, used when IndexedDB is unavailable.
+ *
+ * Each entry is its own localStorage item named `<prefix><key>`, so a read
+ * or write only parses that entry. Numeric keys come back as numbers.
+ */
+export function createLocalStorageStore<T extends Timestamped>(prefix: string): EntryStore<T> {
+  const itemKey = (key: StoreKey) => `${prefix}${key}`;
+
+  const parseKey = (item: string): StoreKey => {
+    const raw = item.slice(prefix.length);
+    return /^\d+$/.test(raw) ? Number(raw) : raw;
+  };
+
+  const itemKeys = (): string[] => {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  };
+
+  const getAll = async (): Promise<Array<[StoreKey, T]>> => {
+    const entries: Array<[StoreKey, T]> = [];
+    for (const item of itemKeys()) {
+      const raw = localStorage.getItem(item);
+      if (raw) entries.push([parseKey(item), JSON.parse(raw)]);
+    }
+    return entries;
+  };
+
+  const deleteKeys = async (keys: StoreKey[]) => {
+    keys.forEach((key) => localStorage.removeItem(itemKey(key)));
+  };
+
+  return {
+    async get(key) {
+      const raw = localStorage.getItem(itemKey(key));
+      return raw ? JSON.parse(raw) : null;
+    },
+    getAll,
+    async put(key, value) {
+      localStorage.setItem(itemKey(key), JSON.stringify(value));
+    },
+    async putMany(entries) {
+      entries.forEach(([key, value]) => localStorage.setItem(itemKey(key), JSON.stringify(value)));
+    },
+    async delete(key) {
+      localStorage.removeItem(itemKey(key));
+    },
+    async clear() {
+      itemKeys().forEach((item) => localStorage.removeItem(item));
+    },
+    ...createScanOperations(getAll, deleteKeys),
+  };
+}
@@ -0,0 +1,35 @@
+import type { EntryStore, StoreKey, Timestamped } from './types';
+import { createScanOperations } from './scan';
+
+/**
+ * In-memory store. Nothing survives a reload; meant for tests and for
+ * inspecting cache behavior without touching real storage.
+ */
+export function createMemoryStore<T extends Timestamped>(): EntryStore<T> {
+  const entries = new Map<StoreKey, T>();
+
+  const getAll = async (): Promise<Array<[StoreKey, T]>> => Array.from(entries.entries());
+  const deleteKeys = async (keys: StoreKey[]) => {
+    keys.forEach((key) => entries.delete(key));
+  };
+
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    getAll,
+    async put(key, value) {
+      entries.set(key, value);
+    },
+    async putMany(items) {
+      items.forEach(([key, value]) => entries.set(key, value));
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+    ...createScanOperations(getAll, deleteKeys),
+  };
+}
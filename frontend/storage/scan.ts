@@ -0,0 +1,44 @@
+import type { EntryStore, StoreKey, Timestamped } from './types';
+
+type ScanOperations<T extends Timestamped> = Pick<
+  EntryStore<T>,
+  'count' | 'oldestTimestamp' | 'pruneOlderThan' | 'pruneToNewest'
+>;
+
+/**
+ * Count, age and pruning operations for stores without a timestamp index.
+ * Each call scans every entry, which is fine for the fallback and test
+ * stores but is what the IndexedDB store avoids.
+ */
+export function createScanOperations<T extends Timestamped>(
+  getAll: () => Promise<Array<[StoreKey, T]>>,
+  deleteKeys: (keys: StoreKey[]) => Promise<void>
+): ScanOperations<T> {
+  return {
+    async count() {
+      return (await getAll()).length;
+    },
+
+    async oldestTimestamp() {
+      const entries = await getAll();
+      if (entries.length === 0) return null;
+      return Math.min(...entries.map(([, value]) => value.timestamp));
+    },
+
+    async pruneOlderThan(cutoff) {
+      const expired = (await getAll()).filter(([, value]) => value.timestamp < cutoff).map(([key]) => key);
+      await deleteKeys(expired);
+      return expired.length;
+    },
+
+    async pruneToNewest(maxEntries) {
+      const entries = await getAll();
+      if (entries.length <= maxEntries) return 0;
+
+      entries.sort((a, b) => a[1].timestamp - b[1].timestamp); // Oldest first
+      const excess = entries.slice(0, entries.length - maxEntries).map(([key]) => key);
+      await deleteKeys(excess);
+      return excess.length;
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// Keys are Steam app IDs, except for a few named records in the 'meta' store
+export type StoreKey = number | string;
+
+// Stores share one database; each holds one kind of record
+export type StoreName = 'results' | 'hltb-ids' | 'meta';
+
+export const STORE_NAMES: StoreName[] = ['results', 'hltb-ids', 'meta'];
+
+// Every record carries a timestamp, so stores can prune the oldest entries
+export interface Timestamped {
+  timestamp: number;
+}
+
+/**
+ * Per-entry key/value store. Reads and writes touch only the entries
+ * involved, instead of parsing and re-serializing the whole store.
+ */
+export interface EntryStore<T extends Timestamped> {
+  get(key: StoreKey): Promise<T | null>;
+  getAll(): Promise<Array<[StoreKey, T]>>;
+  put(key: StoreKey, value: T): Promise<void>;
+  putMany(entries: Array<[StoreKey, T]>): Promise<void>;
+  delete(key: StoreKey): Promise<void>;
+  clear(): Promise<void>;
+  count(): Promise<number>;
+  oldestTimestamp(): Promise<number | null>;
+  // Both return the number of entries removed
+  pruneOlderThan(cutoff: number): Promise<number>;
+  pruneToNewest(maxEntries: number): Promise<number>;
+}
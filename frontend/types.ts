@@ -1,4 +1,22 @@
+// HLTB completion time categories
+export type StatKey = 'comp_main' | 'comp_plus' | 'comp_100';
+
+// Extra HLTB time categories shown in the expanded view
+export type ExtendedStatKey = 'comp_all' | 'invested_co' | 'invested_mp';
+
+export const STAT_KEYS: StatKey[] = ['comp_main', 'comp_plus', 'comp_100'];
+export const EXTENDED_STAT_KEYS: ExtendedStatKey[] = ['comp_all', 'invested_co', 'invested_mp'];
+
+// How the backend matched the game:
+// - 'exact': sanitized names are identical
+// - 'steam_id': the HLTB game page lists the same Steam app ID
+// - 'levenshtein': closest name by edit distance (a guess)
+// - 'hltb_id': looked up directly by a known HLTB ID (Steam import or override)
+// - 'dlc': picked from the DLC listed on the base game's HLTB page
+export type MatchMethod = 'exact' | 'steam_id' | 'levenshtein' | 'hltb_id' | 'dlc';
+
 // HLTB game data from backend
+// Entries cached before the extended fields were added only have the core times
 export interface HltbGameResult {
   searched_name: string;       // Always present - the Steam name we searched for
   game_id?: number;            // Only present if HLTB match found
@@ -6,6 +24,79 @@ export interface HltbGameResult {
   comp_main?: number | null;   // hours
   comp_plus?: number | null;   // hours
   comp_100?: number | null;    // hours
+  comp_all?: number | null;    // hours, average across all play styles
+  invested_co?: number | null; // hours, co-op
+  invested_mp?: number | null; // hours, multiplayer (versus)
+  comp_main_count?: number;    // Number of submissions per category
+  comp_plus_count?: number;
+  comp_100_count?: number;
+  comp_all_count?: number;
+  invested_co_count?: number;
+  invested_mp_count?: number;
+  review_score?: number | null; // 0-100, null when unrated
+  match_method?: MatchMethod;  // Only present if HLTB match found
+  confidence?: number;         // 0.0-1.0; 1.0 unless matched by name similarity
+  is_dlc?: boolean;            // The Steam app is DLC
+  base_game_name?: string;     // Base game of a DLC
+  dlc?: HltbRelatedGame[];     // Every DLC HLTB lists for a game; only fetched with showOwnedDlc
+}
+
+// Data passed to createDisplay: the HLTB result plus client-side extras
+export interface DisplayData extends HltbGameResult {
+  playtime_hours?: number | null; // User's own Steam playtime
+  owned_dlc?: HltbRelatedGame[];  // Entries of `dlc` the user owns on Steam
+  completed?: boolean;            // Marked completed by the user
+  personal_estimate?: PersonalEstimate | null; // Main Story adjusted to the user's pace
+  cached_at?: number;             // When a stale result was cached, shown as its age
+  offline?: boolean;              // HLTB can't be reached, see services/connectivity.ts
+}
+
+// Main Story time scaled by the user's pace factor (see services/pace.ts)
+export interface PersonalEstimate {
+  hours: number;
+  factor: number;      // Playtime / HLTB ratio the estimate is based on
+  sampleCount: number; // Completed games behind the factor
+}
+
+// Candidate returned by a manual HLTB search (match picker)
+export interface HltbSearchCandidate {
+  game_id: number;
+  game_name: string;
+  comp_main?: number | null;
+  comp_plus?: number | null;
+  comp_100?: number | null;
+}
+
+// Per-platform times on the HLTB game profile
+export interface HltbPlatformTimes {
+  platform: string;
+  comp_main?: number | null;
+  comp_plus?: number | null;
+  comp_100?: number | null;
+  count: number;
+}
+
+// DLC or expansion listed on the HLTB game profile
+export interface HltbRelatedGame {
+  game_id: number;
+  game_name: string;
+  game_type?: string | null;
+  comp_main?: number | null;
+  comp_plus?: number | null;
+  comp_100?: number | null;
+}
+
+// Full HLTB game profile for the details panel (backend GetHltbGameDetails)
+export interface HltbGameDetails extends HltbGameResult {
+  game_alias?: string | null;
+  game_type?: string | null;
+  release_date?: string | null; // YYYY-MM-DD, as HLTB reports it
+  developer?: string | null;
+  publisher?: string | null;
+  genres: string[];
+  platforms: string[];
+  platform_times: HltbPlatformTimes[];
+  dlc: HltbRelatedGame[];
 }
 
 // Cache entry for localStorage
@@ -15,11 +106,40 @@ export interface CacheEntry {
   notFound: boolean;
 }
 
+// Why an HLTB lookup failed. Most codes come from backend/main.lua; the
+// frontend adds the ones the backend can't report itself:
+// - 'offline': the computer has no network connection (frontend)
+// - 'backend_unavailable': the Lua backend could not be called (frontend)
+// - 'name_unresolved': no source could name the Steam app
+// - 'hltb_unreachable': the HLTB request failed, timed out or was refused
+// - 'hltb_invalid_response': HLTB answered with data the backend can't read
+// - 'import_unavailable': Steam import failed or the profile is private
+// - 'bad_request': the backend was called without a required argument
+// - 'internal': unexpected backend error, or a response the frontend can't read
+export type HltbErrorCode =
+  | 'offline'
+  | 'backend_unavailable'
+  | 'name_unresolved'
+  | 'hltb_unreachable'
+  | 'hltb_invalid_response'
+  | 'import_unavailable'
+  | 'bad_request'
+  | 'internal';
+
+export interface HltbError {
+  code: HltbErrorCode;
+  message: string;       // Backend error message, for diagnostics
+  appId: number;
+  searchedName?: string; // Name the backend searched for, if it got that far
+  timestamp: number;
+}
+
 // Result from fetchHltbData with stale-while-revalidate support
 export interface FetchResult {
   data: HltbGameResult | null;
   fromCache: boolean;
   refreshPromise: Promise<HltbGameResult | null> | null;
+  error: HltbError | null; // Why `data` is null, when there was no cached result
 }
 
 // Library selectors for finding game pages
@@ -30,6 +150,12 @@ export interface LibrarySelectors {
   appIdPattern: RegExp;
 }
 
+// A named set of library selectors. Packs are tried in order until one
+// matches the current DOM (see injection/selectors.ts)
+export interface SelectorPack extends LibrarySelectors {
+  name: string;
+}
+
 export const LIBRARY_SELECTORS: LibrarySelectors = {
   headerImageSelector: '._3NBxSLAZLbbbnul8KfDFjw._2dzwXkCVAuZGFC-qKgo8XB',
   fallbackImageSelector: 'img.HNbe3eZf6H7dtJ042x1vM[src*="library_hero"]',
@@ -37,12 +163,28 @@ export const LIBRARY_SELECTORS: LibrarySelectors = {
   appIdPattern: /\/assets\/(\d+)/,
 };
 
+// Which Steam UI a document belongs to: 'desktop' or GamepadUI (Big Picture / Steam Deck)
+export type UIMode = 'desktop' | 'gamepad';
+
 // Detected game page info
 export interface GamePageInfo {
   appId: number;
   container: HTMLElement;
 }
 
+// A user collection in the Steam library (see services/collections.ts)
+export interface SteamCollection {
+  id: string;
+  displayName: string;
+  apps: Map<number, { appid: number; display_name: string }>;
+  bAllowsDragAndDrop: boolean; // False for dynamic collections
+  AsDragDropCollection: () => {
+    AddApps: (overviews: object[]) => void;
+    RemoveApps: (overviews: object[]) => void;
+  };
+  Save: () => Promise<void>;
+}
+
 // Global Steam/Millennium types
 declare global {
   interface Window {
@@ -50,11 +192,25 @@ declare global {
       m_lastLocation: {
         pathname: string;
       };
+      // Main window router history; listen() returns the unsubscribe function
+      m_history?: {
+        listen?: (listener: () => void) => () => void;
+      };
     };
     SteamClient?: {
       Apps?: {
         GetActiveAppID?: () => Promise<number>;
       };
     };
+    collectionStore?: {
+      allGamesCollection?: {
+        allApps: Array<{
+          appid: number;
+          display_name: string;
+        }>;
+      };
+      userCollections?: SteamCollection[];
+      NewUnsavedCollection?: (name: string, filter: undefined, overviews: object[]) => SteamCollection;
+    };
   }
 }
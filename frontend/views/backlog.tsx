@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { ModalRoot, DialogButton, Navigation, showModal } from '@steambrew/client';
+import type { HltbGameResult } from '../types';
+import { log } from '../services/logger';
+import { getAllCacheEntries } from '../services/cache';
+import { fetchHltbData } from '../services/hltbApi';
+import { getOwnedApps, type LibraryApp } from '../services/library';
+import { getSettings } from '../services/settings';
+import { formatTime } from '../display/format';
+import { getDefaultStatLabel } from '../display/components';
+import { t } from '../i18n';
+
+type SortKey = 'name' | 'comp_main' | 'comp_plus' | 'comp_100';
+type TimeKey = Exclude<SortKey, 'name'>;
+
+interface BacklogRow {
+  appId: number;
+  name: string;
+  data: HltbGameResult | null;
+  cached: boolean;
+}
+
+const TIME_KEYS: TimeKey[] = ['comp_main', 'comp_plus', 'comp_100'];
+const COLUMNS: SortKey[] = ['name', ...TIME_KEYS];
+
+function getColumnLabel(key: SortKey): string {
+  return key === 'name' ? t('backlog.game') : getDefaultStatLabel(key);
+}
+
+async function buildRows(apps: LibraryApp[]): Promise<BacklogRow[]> {
+  const cache = await getAllCacheEntries();
+  return apps.map((app) => {
+    const entry = cache[app.appId];
+    return {
+      appId: app.appId,
+      name: app.name,
+      data: entry?.data ?? null,
+      cached: entry !== undefined,
+    };
+  });
+}
+
+function sortRows(rows: BacklogRow[], key: SortKey, ascending: boolean): BacklogRow[] {
+  const direction = ascending ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (key === 'name') {
+      return a.name.localeCompare(b.name) * direction;
+    }
+    // Games without a time always sort last, regardless of direction
+    const av = a.data?.[key] ?? null;
+    const bv = b.data?.[key] ?? null;
+    if (av === null && bv === null) return a.name.localeCompare(b.name);
+    if (av === null) return 1;
+    if (bv === null) return -1;
+    return (av - bv) * direction;
+  });
+}
+
+function sumHours(rows: BacklogRow[], key: TimeKey): number {
+  const total = rows.reduce((sum, row) => sum + (row.data?.[key] ?? 0), 0);
+  return Math.round(total * 10) / 10;
+}
+
+const cellStyle = { padding: '4px 8px', textAlign: 'right' as const, whiteSpace: 'nowrap' as const };
+const nameCellStyle = { ...cellStyle, textAlign: 'left' as const, whiteSpace: 'normal' as const };
+
+export const BacklogView = ({ onOpenGame }: { onOpenGame?: (appId: number) => void }) => {
+  const [apps] = useState<LibraryApp[]>(() => getOwnedApps());
+  const [rows, setRows] = useState<BacklogRow[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [ascending, setAscending] = useState(true);
+  const [pending, setPending] = useState(0);
+  const [settings] = useState(() => getSettings());
+
+  // Fill in uncached apps one at a time, so the list updates as results arrive
+  // without flooding the backend with requests
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const initial = await buildRows(apps);
+      if (cancelled) return;
+      setRows(initial);
+      setLoaded(true);
+
+      const missing = initial.filter((row) => !row.cached).map((row) => row.appId);
+      setPending(missing.length);
+
+      for (const appId of missing) {
+        if (cancelled) return;
+        let data: HltbGameResult | null = null;
+        try {
+          data = (await fetchHltbData(appId)).data;
+        } catch (e) {
+          log('Backlog fetch failed for appId:', appId, e);
+        }
+        if (cancelled) return;
+        // A null result means the backend failed, so the row stays pending
+        if (data) {
+          setRows((current) => current.map((row) => (row.appId === appId ? { ...row, data, cached: true } : row)));
+        }
+        setPending((count) => count - 1);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const onSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      // Names read best A-Z, times are usually compared longest first
+      setAscending(key === 'name');
+    }
+  };
+
+  if (apps.length === 0) {
+    return <div>{t('backlog.empty')}</div>;
+  }
+
+  if (!loaded) {
+    return <div>{t('display.loading')}</div>;
+  }
+
+  const sorted = sortRows(rows, sortKey, ascending);
+  const matched = rows.filter((row) => row.data?.game_id).length;
+
+  return (
+    <div>
+      <div style={{ marginBottom: '8px', opacity: 0.7 }}>
+        {t('backlog.summary', { count: rows.length, matched })}
+        {pending > 0 && ` | ${t('backlog.fetching', { count: pending })}`}
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            {COLUMNS.map((key) => (
+              <th
+                key={key}
+                onClick={() => onSort(key)}
+                style={{ ...(key === 'name' ? nameCellStyle : cellStyle), cursor: 'pointer' }}
+              >
+                {getColumnLabel(key)}
+                {sortKey === key && (ascending ? ' ▲' : ' ▼')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr style={{ fontWeight: 'bold' }}>
+            <td style={nameCellStyle}>{t('backlog.total')}</td>
+            {TIME_KEYS.map((key) => (
+              <td key={key} style={cellStyle}>
+                {formatTime(sumHours(rows, key), settings)}
+              </td>
+            ))}
+          </tr>
+          {sorted.map((row) => (
+            <tr key={row.appId} onClick={() => onOpenGame?.(row.appId)} style={{ cursor: 'pointer' }}>
+              <td style={nameCellStyle}>{row.name}</td>
+              {TIME_KEYS.map((key) => (
+                <td key={key} style={cellStyle}>
+                  {row.cached ? formatTime(row.data?.[key], settings) : '...'}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const BacklogModal = ({ closeModal }: { closeModal?: () => void }) => {
+  const onOpenGame = (appId: number) => {
+    closeModal?.();
+    Navigation.Navigate(`/library/app/${appId}`);
+  };
+
+  return (
+    <ModalRoot closeModal={closeModal}>
+      <div style={{ maxHeight: '70vh', overflowY: 'auto' }}>
+        <BacklogView onOpenGame={onOpenGame} />
+      </div>
+      <DialogButton onClick={closeModal} style={{ marginTop: '12px' }}>
+        {t('common.close')}
+      </DialogButton>
+    </ModalRoot>
+  );
+};
+
+export function openBacklog(): void {
+  showModal(<BacklogModal />, window, { strTitle: t('backlog.title') });
+}
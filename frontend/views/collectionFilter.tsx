@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { DialogButton } from '@steambrew/client';
+import { STAT_KEYS, type StatKey } from '../types';
+import { filterGames, getFilterCandidates, type FilterCondition } from '../services/filters';
+import { planCollection, applyCollectionPlan, type CollectionPlan } from '../services/collections';
+import { getDefaultStatLabel } from '../display/components';
+import { t, type MessageKey } from '../i18n';
+
+type ConditionKind = FilterCondition['kind'];
+
+const PRESETS: Array<{ key: MessageKey; name: string; conditions: FilterCondition[] }> = [
+  {
+    key: 'settings.collections.preset.shortMain',
+    name: 'HLTB: Short',
+    conditions: [{ kind: 'time', stat: 'comp_main', comparison: 'under', hours: 10 }],
+  },
+  {
+    key: 'settings.collections.preset.unmatched',
+    name: 'HLTB: Unmatched',
+    conditions: [{ kind: 'unmatched' }],
+  },
+  {
+    key: 'settings.collections.preset.longCompletionist',
+    name: 'HLTB: Long',
+    conditions: [{ kind: 'time', stat: 'comp_100', comparison: 'over', hours: 100 }],
+  },
+];
+
+const KINDS: Array<{ value: ConditionKind; key: MessageKey }> = [
+  { value: 'time', key: 'settings.collections.kind.time' },
+  { value: 'matched', key: 'settings.collections.kind.matched' },
+  { value: 'unmatched', key: 'settings.collections.kind.unmatched' },
+];
+
+const selectStyle = { padding: '4px 8px' };
+const listStyle = { maxHeight: '120px', overflowY: 'auto' as const, opacity: 0.7, marginTop: '4px' };
+
+function newCondition(kind: ConditionKind): FilterCondition {
+  return kind === 'time' ? { kind, stat: 'comp_main', comparison: 'under', hours: 10 } : { kind };
+}
+
+const ConditionRow = ({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: FilterCondition;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}) => (
+  <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '4px' }}>
+    <select value={condition.kind} onChange={(e) => onChange(newCondition(e.target.value as ConditionKind))} style={selectStyle}>
+      {KINDS.map(({ value, key }) => (
+        <option key={value} value={value}>{t(key)}</option>
+      ))}
+    </select>
+    {condition.kind === 'time' && (
+      <>
+        <select value={condition.stat} onChange={(e) => onChange({ ...condition, stat: e.target.value as StatKey })} style={selectStyle}>
+          {STAT_KEYS.map((key) => (
+            <option key={key} value={key}>{getDefaultStatLabel(key)}</option>
+          ))}
+        </select>
+        <select
+          value={condition.comparison}
+          onChange={(e) => onChange({ ...condition, comparison: e.target.value as 'under' | 'over' })}
+          style={selectStyle}
+        >
+          <option value="under">{t('settings.collections.under')}</option>
+          <option value="over">{t('settings.collections.over')}</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={condition.hours}
+          onChange={(e) => onChange({ ...condition, hours: Math.max(0, parseFloat(e.target.value) || 0) })}
+          style={{ width: '60px', padding: '4px 8px' }}
+        />
+        <span>{t('settings.collections.hours')}</span>
+      </>
+    )}
+    <DialogButton onClick={onRemove} style={{ width: 'auto', padding: '4px 12px', marginLeft: 'auto' }}>
+      {t('common.remove')}
+    </DialogButton>
+  </div>
+);
+
+/**
+ * Settings section that filters the library by cached HLTB times and
+ * creates or updates a Steam collection from the result. "Preview" is a dry
+ * run listing the games that would be added and removed; "Create / Update"
+ * is only available after it and saves exactly the previewed plan.
+ */
+export const CollectionFilter = () => {
+  const [conditions, setConditions] = useState<FilterCondition[]>(PRESETS[0].conditions);
+  const [name, setName] = useState(PRESETS[0].name);
+  const [plan, setPlan] = useState<CollectionPlan | null>(null);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const edit = (next: FilterCondition[]) => {
+    setConditions(next);
+    setPlan(null);
+  };
+
+  const onPreset = (preset: (typeof PRESETS)[number]) => {
+    edit(preset.conditions);
+    setName(preset.name);
+    setMessage('');
+  };
+
+  // Filter the cached library and compare the result with the collection
+  const buildPlan = async (): Promise<CollectionPlan | null> => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setMessage(t('settings.collections.nameRequired'));
+      return null;
+    }
+
+    const candidates = await getFilterCandidates();
+    const matches = filterGames(candidates, conditions);
+    const result = planCollection(trimmed, matches, new Set(candidates.map((candidate) => candidate.appId)));
+    if (result.error) {
+      setMessage(t(result.error === 'dynamic' ? 'settings.collections.dynamic' : 'settings.collections.unavailable', { name: trimmed }));
+      return null;
+    }
+    setMessage(t('settings.collections.matches', { count: matches.length }));
+    return result.plan;
+  };
+
+  const onPreview = async () => {
+    setBusy(true);
+    setPlan(await buildPlan());
+    setBusy(false);
+  };
+
+  // Saves the plan on screen; editing the filter or name clears it
+  const onApply = async () => {
+    if (!plan) return;
+    setBusy(true);
+    setPlan(null);
+    if (plan.exists && plan.add.length === 0 && plan.remove.length === 0) {
+      setMessage(t('settings.collections.noChanges'));
+    } else if (!(await applyCollectionPlan(plan))) {
+      setMessage(t('settings.collections.failed'));
+    } else if (plan.exists) {
+      setMessage(t('settings.collections.updated', { name: plan.name, added: plan.add.length, removed: plan.remove.length }));
+    } else {
+      setMessage(t('settings.collections.created', { name: plan.name, count: plan.add.length }));
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '8px' }}>
+        {PRESETS.map((preset) => (
+          <DialogButton key={preset.key} onClick={() => onPreset(preset)} style={{ width: 'auto', padding: '4px 12px' }}>
+            {t(preset.key)}
+          </DialogButton>
+        ))}
+      </div>
+      {conditions.map((condition, i) => (
+        <ConditionRow
+          key={i}
+          condition={condition}
+          onChange={(changed) => edit(conditions.map((c, j) => (j === i ? changed : c)))}
+          onRemove={() => edit(conditions.filter((_, j) => j !== i))}
+        />
+      ))}
+      <DialogButton onClick={() => edit([...conditions, newCondition('time')])} style={{ width: 'auto', padding: '4px 12px' }}>
+        {t('settings.collections.addCondition')}
+      </DialogButton>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setPlan(null);
+          }}
+          placeholder={t('settings.collections.name')}
+          style={{ flex: 1, padding: '4px 8px' }}
+        />
+        <DialogButton onClick={onPreview} disabled={busy} style={{ width: 'auto', padding: '8px 16px' }}>
+          {t('settings.collections.preview')}
+        </DialogButton>
+        <DialogButton onClick={onApply} disabled={busy || !plan} style={{ width: 'auto', padding: '8px 16px' }}>
+          {t('settings.collections.apply')}
+        </DialogButton>
+      </div>
+      {message && <div style={{ marginTop: '8px' }}>{message}</div>}
+      {plan && (
+        <div style={{ marginTop: '4px' }}>
+          {plan.add.length === 0 && plan.remove.length === 0 && plan.exists && <div>{t('settings.collections.noChanges')}</div>}
+          {plan.add.length > 0 && (
+            <div>
+              {t(plan.exists ? 'settings.collections.toAdd' : 'settings.collections.toCreate', { count: plan.add.length, name: plan.name })}
+              <div style={listStyle}>{plan.add.map((app) => app.name).join(', ')}</div>
+            </div>
+          )}
+          {plan.remove.length > 0 && (
+            <div style={{ marginTop: '4px' }}>
+              {t('settings.collections.toRemove', { count: plan.remove.length })}
+              <div style={listStyle}>{plan.remove.map((app) => app.name).join(', ')}</div>
+            </div>
+          )}
+          {plan.kept > 0 && <div style={{ marginTop: '4px' }}>{t('settings.collections.keptUnknown', { count: plan.kept })}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
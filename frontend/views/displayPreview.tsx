@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import type { DisplayData } from '../types';
+import { getSettings } from '../services/settings';
+import { createDisplay } from '../display/components';
+import { injectStyles } from '../display/styles';
+
+const SAMPLE_DATA: DisplayData = {
+  searched_name: 'Preview',
+  game_id: 1,
+  game_name: 'Preview',
+  comp_main: 12.5,
+  comp_plus: 24.3,
+  comp_100: 61,
+  comp_all: 20.1,
+  invested_co: 15.5,
+  invested_mp: null,
+  comp_main_count: 412,
+  comp_plus_count: 230,
+  comp_100_count: 4,
+  comp_all_count: 646,
+  invested_co_count: 12,
+  invested_mp_count: 0,
+  review_score: 86,
+  playtime_hours: 8,
+};
+
+/**
+ * Renders the HLTB display box with sample data, using the saved settings.
+ * Bump `version` after saving settings to re-render.
+ */
+export const DisplayPreview = ({ version }: { version: number }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const host = ref.current;
+    if (!host) return;
+
+    const doc = host.ownerDocument;
+    const settings = getSettings();
+    injectStyles(doc, settings);
+
+    const display = createDisplay(doc, settings, SAMPLE_DATA);
+    // Drop the ID so the preview is never mistaken for the game page display
+    display.removeAttribute('id');
+    display.style.position = 'static';
+    host.replaceChildren(display);
+  }, [version]);
+
+  return <div ref={ref} style={{ display: 'flex', justifyContent: 'center', padding: '8px 0' }} />;
+};
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { ModalRoot, DialogButton, showModal } from '@steambrew/client';
+import { STAT_KEYS, EXTENDED_STAT_KEYS, type HltbGameDetails } from '../types';
+import { fetchGameDetails } from '../services/hltbApi';
+import { getSettings } from '../services/settings';
+import { formatTime } from '../display/format';
+import { getStatLabel, openExternalGamePage } from '../display/components';
+import { t } from '../i18n';
+
+interface GameDetailsProps {
+  hltbId: number;
+  closeModal?: () => void;
+}
+
+const cellStyle = { padding: '4px 8px', textAlign: 'right' as const, whiteSpace: 'nowrap' as const };
+const nameCellStyle = { ...cellStyle, textAlign: 'left' as const, whiteSpace: 'normal' as const };
+const sectionStyle = { marginTop: '16px' };
+const headingStyle = { fontWeight: 'bold' as const, marginBottom: '4px' };
+
+const InfoRow = ({ label, value }: { label: string; value?: string | null }) =>
+  value ? (
+    <div>
+      <span style={{ opacity: 0.7 }}>{label}:</span> {value}
+    </div>
+  ) : null;
+
+const GameDetailsModal = ({ hltbId, closeModal }: GameDetailsProps) => {
+  const [details, setDetails] = useState<HltbGameDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [settings] = useState(() => getSettings());
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchGameDetails(hltbId).then((result) => {
+      if (cancelled) return;
+      setDetails(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const time = (hours?: number | null) => formatTime(hours, settings);
+
+  return (
+    <ModalRoot closeModal={closeModal}>
+      {loading && <div>{t('details.loading')}</div>}
+      {!loading && !details && <div>{t('details.failed')}</div>}
+      {details && (
+        <div style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+          <div style={{ fontSize: '20px', fontWeight: 'bold' }}>{details.game_name}</div>
+          <InfoRow label={t('details.alias')} value={details.game_alias} />
+          <InfoRow label={t('details.release')} value={details.release_date} />
+          <InfoRow label={t('details.developer')} value={details.developer} />
+          <InfoRow label={t('details.publisher')} value={details.publisher} />
+          <InfoRow label={t('details.genres')} value={details.genres.join(', ')} />
+          <InfoRow label={t('details.platforms')} value={details.platforms.join(', ')} />
+          {details.review_score != null && <div>{t('display.reviewScore', { score: details.review_score })}</div>}
+
+          <div style={sectionStyle}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <tbody>
+                {[...STAT_KEYS, ...EXTENDED_STAT_KEYS].map((key) => (
+                  <tr key={key}>
+                    <td style={nameCellStyle}>{getStatLabel(settings, key)}</td>
+                    <td style={cellStyle}>{time(details[key])}</td>
+                    <td style={{ ...cellStyle, opacity: 0.7 }}>
+                      {t('display.submissions', { count: details[`${key}_count`] ?? 0 })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {details.platform_times.length > 0 && (
+            <div style={sectionStyle}>
+              <div style={headingStyle}>{t('details.platformTimes')}</div>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={nameCellStyle}>{t('details.platform')}</th>
+                    {STAT_KEYS.map((key) => (
+                      <th key={key} style={cellStyle}>
+                        {getStatLabel(settings, key)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {details.platform_times.map((platform) => (
+                    <tr key={platform.platform}>
+                      <td style={nameCellStyle}>{platform.platform}</td>
+                      {STAT_KEYS.map((key) => (
+                        <td key={key} style={cellStyle}>
+                          {time(platform[key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {details.dlc.length > 0 && (
+            <div style={sectionStyle}>
+              <div style={headingStyle}>{t('details.dlc')}</div>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  {details.dlc.map((dlc) => (
+                    <tr key={dlc.game_id}>
+                      <td style={nameCellStyle}>{dlc.game_name}</td>
+                      {STAT_KEYS.map((key) => (
+                        <td key={key} style={cellStyle}>
+                          {time(dlc[key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+        <DialogButton onClick={() => openExternalGamePage(hltbId)} style={{ width: 'auto', padding: '8px 16px' }}>
+          {t('details.openExternal')}
+        </DialogButton>
+        <DialogButton onClick={closeModal} style={{ width: 'auto', padding: '8px 16px' }}>
+          {t('common.close')}
+        </DialogButton>
+      </div>
+    </ModalRoot>
+  );
+};
+
+export function openGameDetails(hltbId: number, gameName: string): void {
+  showModal(<GameDetailsModal hltbId={hltbId} />, window, { strTitle: gameName || t('details.title') });
+}
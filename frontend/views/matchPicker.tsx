@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { ModalRoot, DialogButton, showModal } from '@steambrew/client';
+import type { HltbSearchCandidate } from '../types';
+import { searchHltb } from '../services/hltbApi';
+import { setOverride } from '../services/overrides';
+import { schedulePublish } from '../services/sharedState';
+import { getSettings } from '../services/settings';
+import { formatTime } from '../display/format';
+import { t } from '../i18n';
+
+interface MatchPickerProps {
+  appId: number;
+  appName: string;
+  initialQuery: string;
+  onSelected: () => void;
+  closeModal?: () => void;
+}
+
+const MatchPickerModal = ({ appId, appName, initialQuery, onSelected, closeModal }: MatchPickerProps) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [candidates, setCandidates] = useState<HltbSearchCandidate[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [message, setMessage] = useState('');
+  const [settings] = useState(() => getSettings());
+
+  const runSearch = async (text: string) => {
+    if (!text.trim()) return;
+    setSearching(true);
+    setMessage('');
+    const results = await searchHltb(text.trim());
+    setCandidates(results);
+    setSearching(false);
+    if (results.length === 0) {
+      setMessage(t('picker.noResults'));
+    }
+  };
+
+  useEffect(() => {
+    runSearch(initialQuery);
+  }, []);
+
+  const onPick = (candidate: HltbSearchCandidate) => {
+    setOverride(appId, candidate.game_id, candidate.game_name, appName);
+    schedulePublish();
+    closeModal?.();
+    onSelected();
+  };
+
+  return (
+    <ModalRoot closeModal={closeModal}>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && runSearch(query)}
+          style={{ flex: 1, padding: '4px 8px' }}
+        />
+        <DialogButton onClick={() => runSearch(query)} disabled={searching} style={{ width: 'auto', padding: '4px 16px' }}>
+          {t('picker.search')}
+        </DialogButton>
+      </div>
+      {searching && <div>{t('picker.searching')}</div>}
+      {message && <div>{message}</div>}
+      <div style={{ maxHeight: '50vh', overflowY: 'auto' }}>
+        {!searching &&
+          candidates.map((candidate) => (
+            <div
+              key={candidate.game_id}
+              style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '6px 0' }}
+            >
+              <div style={{ flex: 1 }}>{candidate.game_name}</div>
+              <div style={{ opacity: 0.7, whiteSpace: 'nowrap' }}>
+                {formatTime(candidate.comp_main, settings)} / {formatTime(candidate.comp_plus, settings)} /{' '}
+                {formatTime(candidate.comp_100, settings)}
+              </div>
+              <DialogButton onClick={() => onPick(candidate)} style={{ width: 'auto', padding: '4px 16px' }}>
+                {t('picker.use')}
+              </DialogButton>
+            </div>
+          ))}
+      </div>
+    </ModalRoot>
+  );
+};
+
+export function openMatchPicker(
+  appId: number,
+  appName: string,
+  initialQuery: string,
+  onSelected: () => void
+): void {
+  showModal(
+    <MatchPickerModal appId={appId} appName={appName} initialQuery={initialQuery} onSelected={onSelected} />,
+    window,
+    { strTitle: t('picker.title') }
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { Field, DialogButton } from '@steambrew/client';
+import type { PluginSettings } from '../services/settings';
+import { SETTINGS_SCHEMA, getSettingError, getDefaultSettings } from '../services/settingsSchema';
+import { getThemeColors } from '../display/themes';
+import { t } from '../i18n';
+
+const inputStyle = { width: '60px', padding: '4px 8px' };
+const errorStyle = { color: '#e0a030' };
+
+function isDefault(key: keyof PluginSettings, value: unknown): boolean {
+  return JSON.stringify(value) === JSON.stringify(getDefaultSettings()[key]);
+}
+
+// Puts a setting (or several, e.g. columns and their labels) back to its default
+export const ResetButton = ({
+  keys,
+  settings,
+  onChange,
+}: {
+  keys: Array<keyof PluginSettings>;
+  settings: PluginSettings;
+  onChange: (changes: Partial<PluginSettings>) => void;
+}) => {
+  const defaults = getDefaultSettings();
+  const changed = keys.some((key) => !isDefault(key, settings[key]));
+  const reset = () => onChange(Object.fromEntries(keys.map((key) => [key, defaults[key]])));
+
+  return (
+    <DialogButton onClick={reset} disabled={!changed} style={{ width: 'auto', minWidth: 0, padding: '4px 12px' }}>
+      {t('settings.reset')}
+    </DialogButton>
+  );
+};
+
+interface SettingFieldProps {
+  name: keyof PluginSettings;
+  settings: PluginSettings;
+  onChange: (changes: Partial<PluginSettings>) => void;
+  descriptionParams?: Record<string, string | number>;
+}
+
+/**
+ * One settings page row, drawn from the field's schema: a checkbox, number
+ * input, color picker or dropdown with a reset button. Numbers outside the schema's range
+ * aren't saved; the row says which values are allowed instead.
+ */
+export const SettingField = ({ name, settings, onChange, descriptionParams }: SettingFieldProps) => {
+  const schema = SETTINGS_SCHEMA[name];
+  const value = settings[name];
+  const scale = schema.type === 'number' ? schema.scale ?? 1 : 1;
+  const [draft, setDraft] = useState(String(value));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow changes made elsewhere (reset, presets, imports)
+  useEffect(() => {
+    if (typeof value === 'number') setDraft(String(Math.round(value * scale * 100) / 100));
+    setError(null);
+  }, [value]);
+
+  if (!schema.label) return null;
+
+  let control: ReactNode = null;
+  switch (schema.type) {
+    case 'boolean':
+      control = (
+        <input
+          type="checkbox"
+          checked={value as boolean}
+          onChange={(e) => onChange({ [name]: e.target.checked })}
+          style={{ width: '20px', height: '20px' }}
+        />
+      );
+      break;
+
+    case 'number': {
+      const onNumberChange = (text: string) => {
+        setDraft(text);
+        const parsed = parseFloat(text) / scale;
+        if (text.trim() === '' || getSettingError(name, parsed) !== null) {
+          const range = { min: schema.min * scale, max: schema.max * scale };
+          setError(t(schema.integer ? 'settings.invalidWholeNumber' : 'settings.invalidNumber', range));
+          return;
+        }
+        setError(null);
+        onChange({ [name]: parsed });
+      };
+      control = (
+        <input
+          type="number"
+          min={schema.min * scale}
+          max={schema.max * scale}
+          step={schema.step * scale}
+          value={draft}
+          onChange={(e) => onNumberChange(e.target.value)}
+          style={inputStyle}
+        />
+      );
+      break;
+    }
+
+    case 'enum':
+      control = (
+        <select value={value as string} onChange={(e) => onChange({ [name]: e.target.value })} style={{ padding: '4px 8px' }}>
+          {Object.entries(schema.options).map(([option, key]) => (
+            <option key={option} value={option}>
+              {t(key)}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+
+    case 'text':
+      control = (
+        <input type="text" value={value as string} onChange={(e) => onChange({ [name]: e.target.value })} style={{ padding: '4px 8px' }} />
+      );
+      break;
+
+    case 'color':
+      // An empty color follows the theme, so show the theme's color
+      control = (
+        <input
+          type="color"
+          value={(value as string) || getThemeColors(settings)[schema.themeColor]}
+          onChange={(e) => onChange({ [name]: e.target.value })}
+          style={{ width: '40px', height: '24px', padding: 0 }}
+        />
+      );
+      break;
+
+    case 'custom':
+      return null;
+  }
+
+  const description = error ? (
+    <span style={errorStyle}>{error}</span>
+  ) : schema.description ? (
+    t(schema.description, descriptionParams)
+  ) : undefined;
+
+  return (
+    <Field label={t(schema.label)} description={description} bottomSeparator="standard">
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        {control}
+        <ResetButton keys={[name]} settings={settings} onChange={onChange} />
+      </div>
+    </Field>
+  );
+};
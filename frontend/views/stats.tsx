@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { ModalRoot, DialogButton, Field, Navigation, showModal } from '@steambrew/client';
+import { getSettings, saveSettings } from '../services/settings';
+import { getSettingError } from '../services/settingsSchema';
+import { computeBacklogStats, getStatsInput, projectWeeks, WEEKEND_HOURS, type BacklogStats } from '../services/stats';
+import { formatTime } from '../display/format';
+import { STAT_KEYS } from '../types';
+import { getDefaultStatLabel } from '../display/components';
+import { t } from '../i18n';
+
+const cellStyle = { padding: '4px 8px', textAlign: 'right' as const, whiteSpace: 'nowrap' as const };
+const nameCellStyle = { ...cellStyle, textAlign: 'left' as const, whiteSpace: 'normal' as const };
+
+function getBucketLabel(min: number, max: number | null): string {
+  return max === null ? t('stats.bucketOver', { min }) : t('stats.bucket', { min, max });
+}
+
+const Histogram = ({ stats }: { stats: BacklogStats }) => {
+  const largest = Math.max(1, ...stats.histogram.map((bucket) => bucket.count));
+  return (
+    <div style={{ width: '100%' }}>
+      {stats.histogram.map((bucket) => (
+        <div key={bucket.min} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '2px' }}>
+          <span style={{ width: '70px', opacity: 0.7 }}>{getBucketLabel(bucket.min, bucket.max)}</span>
+          <div style={{ flex: 1 }}>
+            <div style={{ width: `${(bucket.count / largest) * 100}%`, height: '10px', background: '#1a9fff', minWidth: bucket.count > 0 ? '2px' : 0 }} />
+          </div>
+          <span style={{ width: '40px', textAlign: 'right' }}>{bucket.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const StatsView = ({ onOpenGame }: { onOpenGame?: (appId: number) => void }) => {
+  const [stats, setStats] = useState<BacklogStats | null>(null);
+  const [settings] = useState(() => getSettings());
+  const [hoursPerWeek, setHoursPerWeek] = useState(String(settings.hoursPerWeek));
+
+  useEffect(() => {
+    let cancelled = false;
+    getStatsInput().then((input) => {
+      if (!cancelled) setStats(computeBacklogStats(input));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const onHoursPerWeekChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setHoursPerWeek(value);
+    const numValue = parseFloat(value);
+    if (getSettingError('hoursPerWeek', numValue) === null) {
+      saveSettings({ ...getSettings(), hoursPerWeek: numValue });
+    }
+  };
+
+  if (!stats) {
+    return <div>{t('display.loading')}</div>;
+  }
+
+  if (stats.counts.total === 0) {
+    return <div>{t('backlog.empty')}</div>;
+  }
+
+  const pace = parseFloat(hoursPerWeek) || 0;
+  const { counts } = stats;
+
+  return (
+    <div>
+      <Field
+        label={t('stats.library')}
+        description={[
+          t('stats.matched', { count: counts.matched }),
+          t('stats.unmatched', { count: counts.unmatched }),
+          t('stats.uncached', { count: counts.uncached }),
+          t('stats.imported', { count: counts.imported }),
+          ...(counts.completed > 0 ? [t('stats.completed', { count: counts.completed })] : []),
+        ].join(' | ')}
+        bottomSeparator="standard"
+      />
+      <Field label={t('stats.hoursPerWeek')} bottomSeparator="none">
+        <input
+          type="number"
+          min={1}
+          max={168}
+          step={1}
+          value={hoursPerWeek}
+          onChange={onHoursPerWeekChange}
+          style={{ width: '60px', padding: '4px 8px' }}
+        />
+      </Field>
+      <Field label={t('stats.hoursLeft')} description={t('stats.hoursLeftDescription')} bottomSeparator="standard">
+        <table style={{ borderCollapse: 'collapse' }}>
+          <tbody>
+            {STAT_KEYS.map((key) => {
+              const weeks = projectWeeks(stats.hoursLeft[key], pace);
+              return (
+                <tr key={key}>
+                  <td style={nameCellStyle}>{getDefaultStatLabel(key)}</td>
+                  <td style={cellStyle}>{formatTime(stats.hoursLeft[key], settings)}</td>
+                  <td style={{ ...cellStyle, opacity: 0.7 }}>{weeks === null ? '' : t('stats.weeks', { count: weeks })}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </Field>
+      <Field label={t('stats.histogram')} description={t('stats.histogramDescription')} bottomSeparator="standard">
+        <Histogram stats={stats} />
+      </Field>
+      <Field
+        label={t('stats.quickWins')}
+        description={t(stats.quickWins.length > 0 ? 'stats.quickWinsDescription' : 'stats.quickWinsEmpty', { hours: WEEKEND_HOURS })}
+        bottomSeparator="standard"
+      />
+      {stats.quickWins.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            {stats.quickWins.map((game) => (
+              <tr key={game.appId} onClick={() => onOpenGame?.(game.appId)} style={{ cursor: 'pointer' }}>
+                <td style={nameCellStyle}>{game.name}</td>
+                <td style={cellStyle}>{t('display.timeLeft', { time: formatTime(game.hoursLeft, settings) })}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const StatsModal = ({ closeModal }: { closeModal?: () => void }) => {
+  const onOpenGame = (appId: number) => {
+    closeModal?.();
+    Navigation.Navigate(`/library/app/${appId}`);
+  };
+
+  return (
+    <ModalRoot closeModal={closeModal}>
+      <div style={{ maxHeight: '70vh', overflowY: 'auto' }}>
+        <StatsView onOpenGame={onOpenGame} />
+      </div>
+      <DialogButton onClick={closeModal} style={{ marginTop: '12px' }}>
+        {t('common.close')}
+      </DialogButton>
+    </ModalRoot>
+  );
+};
+
+export function openStats(): void {
+  showModal(<StatsModal />, window, { strTitle: t('stats.title') });
+}
@@ -0,0 +1,187 @@
+// @vitest-environment jsdom
+/**
+ * Backup Import Unit Tests
+ *
+ * Validation of backup bundles, and importing them in 'merge' and 'replace'
+ * mode on the memory storage backend (useMemoryStorage), including a write
+ * that fails partway.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CacheEntry } from '../../frontend/types';
+import type { PluginBackup } from '../../frontend/services/backup';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Fresh modules per test, so every test starts with empty stores
+async function loadModules() {
+  vi.resetModules();
+  const storage = await import('../../frontend/storage');
+  storage.useMemoryStorage();
+  return {
+    storage,
+    backup: await import('../../frontend/services/backup'),
+    cache: await import('../../frontend/services/cache'),
+    idCache: await import('../../frontend/services/hltbIdCache'),
+    overrides: await import('../../frontend/services/overrides'),
+    settings: await import('../../frontend/services/settings'),
+  };
+}
+
+function entry(gameId: number, timestamp: number): CacheEntry {
+  return { data: { searched_name: `Game ${gameId}`, game_id: gameId }, timestamp, notFound: false };
+}
+
+function override(hltbId: number, timestamp: number) {
+  return { hltbId, hltbName: `HLTB ${hltbId}`, appName: `App ${hltbId}`, timestamp };
+}
+
+function bundle(changes: Partial<PluginBackup> = {}): PluginBackup {
+  return {
+    format: 'hltb-millennium-backup',
+    version: 1,
+    exportedAt: Date.now(),
+    settings: { timeFormat: 'hm' } as PluginBackup['settings'],
+    cache: {},
+    idCache: null,
+    overrides: {},
+    ...changes,
+  };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('validateBackup', () => {
+  it('accepts a complete bundle', async () => {
+    const { backup } = await loadModules();
+    expect(backup.validateBackup(bundle({ cache: { 10: entry(1, Date.now()) } }))).toEqual([]);
+  });
+
+  it('rejects anything but an HLTB backup object', async () => {
+    const { backup } = await loadModules();
+    expect(backup.validateBackup([])).toEqual(['Backup must be a JSON object']);
+    expect(backup.validateBackup({ ...bundle(), format: 'other' })[0]).toContain('Not an HLTB backup');
+  });
+
+  it('rejects invalid and newer versions', async () => {
+    const { backup } = await loadModules();
+    expect(backup.validateBackup({ ...bundle(), version: 0 })).toEqual(['version: expected a positive integer']);
+    expect(backup.validateBackup({ ...bundle(), version: 2 })[0]).toContain('newer than supported');
+  });
+
+  it('reports every invalid field', async () => {
+    const { backup } = await loadModules();
+    const errors = backup.validateBackup({
+      ...bundle(),
+      settings: { timeFormat: 'weeks' },
+      cache: { abc: entry(1, 0), 10: { data: { game_id: 'x' }, timestamp: 'now', notFound: false } },
+      idCache: { mappings: { 10: 'x' }, metadata: { timestamp: 0, steamUserId: '42' } },
+      overrides: { 10: { hltbId: 1 } },
+    });
+
+    expect(errors).toContain('cache: invalid app ID "abc"');
+    expect(errors).toContain('cache.10.timestamp: expected number');
+    expect(errors).toContain('cache.10.data.game_id: expected number');
+    expect(errors).toContain('idCache.mappings.10: expected numeric app ID mapped to number');
+    expect(errors).toContain('overrides.10.hltbName: expected string');
+    expect(errors.some((error) => error.startsWith('settings.timeFormat'))).toBe(true);
+  });
+
+  it('makes importState write nothing', async () => {
+    const { backup, cache } = await loadModules();
+    await cache.replaceCacheEntries({ 10: entry(1, Date.now()) });
+
+    const result = await backup.importState(JSON.stringify({ ...bundle(), cache: { 20: { timestamp: 1 } } }), 'replace');
+    expect(result.success).toBe(false);
+    expect(Object.keys(await cache.getAllCacheEntries())).toEqual(['10']);
+  });
+
+  it('rejects invalid JSON', async () => {
+    const { backup } = await loadModules();
+    expect(await backup.importState('{', 'merge')).toEqual({ success: false, errors: ['Invalid JSON'] });
+  });
+});
+
+describe('merge import', () => {
+  it('keeps the newer of two cache entries and adds new ones', async () => {
+    const { backup, cache } = await loadModules();
+    const now = Date.now();
+    await cache.replaceCacheEntries({ 10: entry(1, now - DAY), 20: entry(2, now) });
+
+    const result = await backup.importState(
+      JSON.stringify(bundle({ cache: { 10: entry(11, now), 20: entry(22, now - DAY), 30: entry(3, now) } })),
+      'merge'
+    );
+    expect(result).toEqual({ success: true, errors: [] });
+
+    const entries = await cache.getAllCacheEntries();
+    expect(entries[10].data?.game_id).toBe(11);
+    expect(entries[20].data?.game_id).toBe(2);
+    expect(entries[30].data?.game_id).toBe(3);
+  });
+
+  it('keeps the newer of two overrides', async () => {
+    const { backup, overrides } = await loadModules();
+    overrides.replaceOverrides({ 10: override(1, 200), 20: override(2, 100) });
+
+    await backup.importState(JSON.stringify(bundle({ overrides: { 10: override(11, 100), 20: override(22, 200) } })), 'merge');
+    expect(overrides.getOverride(10)?.hltbId).toBe(1);
+    expect(overrides.getOverride(20)?.hltbId).toBe(22);
+  });
+
+  it('applies the imported settings over the current ones', async () => {
+    const { backup, settings } = await loadModules();
+    settings.saveSettings({ ...settings.getSettings(), hoursPerDay: 3 });
+
+    await backup.importState(JSON.stringify(bundle()), 'merge');
+    expect(settings.getSettings().timeFormat).toBe('hm');
+    expect(settings.getSettings().hoursPerDay).toBe(3);
+  });
+});
+
+describe('replace import', () => {
+  it('leaves only the bundle entries', async () => {
+    const { backup, cache, idCache, overrides } = await loadModules();
+    await cache.replaceCacheEntries({ 10: entry(1, Date.now()), 20: entry(2, Date.now()) });
+    await idCache.setIdCache([{ steam_id: 10, hltb_id: 100 }], '42');
+    overrides.replaceOverrides({ 10: override(1, 100) });
+
+    const result = await backup.importState(JSON.stringify(bundle({ cache: { 20: entry(22, Date.now()) } })), 'replace');
+    expect(result.success).toBe(true);
+
+    const entries = await cache.getAllCacheEntries();
+    expect(Object.keys(entries)).toEqual(['20']);
+    expect(entries[20].data?.game_id).toBe(22);
+    expect(await idCache.getIdCacheData()).toBeNull();
+    expect(overrides.getOverrideStore()).toEqual({});
+  });
+
+  it('resets settings missing from the bundle to their defaults', async () => {
+    const { backup, settings } = await loadModules();
+    settings.saveSettings({ ...settings.getSettings(), hoursPerDay: 3 });
+
+    await backup.importState(JSON.stringify(bundle()), 'replace');
+    expect(settings.getSettings().hoursPerDay).not.toBe(3);
+    expect(settings.getSettings().timeFormat).toBe('hm');
+  });
+
+  it('reports a failed cache write and keeps the old entries', async () => {
+    const { backup, cache, storage } = await loadModules();
+    await cache.replaceCacheEntries({ 10: entry(1, Date.now()) });
+    vi.spyOn(storage.openStore('results'), 'putMany').mockRejectedValue(new Error('QuotaExceededError'));
+
+    const result = await backup.importState(JSON.stringify(bundle({ cache: { 20: entry(2, Date.now()) } })), 'replace');
+    expect(result).toEqual({ success: false, errors: ['cache: could not be saved'] });
+    expect(Object.keys(await cache.getAllCacheEntries())).toEqual(['10']);
+  });
+});
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+/**
+ * Collection Sync Unit Tests
+ *
+ * Tests the collection dry run: what is added and removed, that games
+ * without a known HLTB result are never removed, and that the filter only
+ * sees cached results within the Max Cached Age setting.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { diffCollection } from '../../frontend/services/collections';
+import type { CacheEntry } from '../../frontend/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const app = (appId: number) => ({ appId, name: `Game ${appId}` });
+const apps = (...ids: number[]) => ids.map(app);
+
+describe('diffCollection', () => {
+  it('adds missing games and removes the ones no longer matching', () => {
+    expect(diffCollection(apps(1, 2, 3), apps(2, 3, 4), new Set([1, 2, 3, 4]))).toEqual({
+      add: apps(4),
+      remove: apps(1),
+      unchanged: 2,
+      kept: 0,
+    });
+  });
+
+  it('keeps games whose result is not known', () => {
+    expect(diffCollection(apps(1, 2, 5), apps(2), new Set([1, 2]))).toEqual({
+      add: [],
+      remove: apps(1),
+      unchanged: 1,
+      kept: 1,
+    });
+  });
+
+  it('creates a new collection with the whole target', () => {
+    expect(diffCollection([], apps(1, 2), new Set([1, 2]))).toEqual({ add: apps(1, 2), remove: [], unchanged: 0, kept: 0 });
+  });
+});
+
+describe('getFilterCandidates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete window.collectionStore;
+  });
+
+  it('only offers owned games cached within the Max Cached Age', async () => {
+    vi.resetModules();
+    const storage = await import('../../frontend/storage');
+    storage.useMemoryStorage();
+    const { replaceCacheEntries } = await import('../../frontend/services/cache');
+    const { getFilterCandidates } = await import('../../frontend/services/filters');
+
+    localStorage.setItem('hltb-millennium-settings', JSON.stringify({ version: 2, settings: { maxCacheAgeDays: 30 } }));
+    const entry = (ageDays: number): CacheEntry => ({
+      data: { searched_name: 'Game', game_id: 1, comp_main: 5 },
+      timestamp: Date.now() - ageDays * DAY,
+      notFound: false,
+    });
+    await replaceCacheEntries({ 1: entry(1), 2: entry(31), 4: entry(1) });
+    window.collectionStore = {
+      allGamesCollection: { allApps: [1, 2, 3].map((appid) => ({ appid, display_name: `Game ${appid}` })) },
+    } as unknown as typeof window.collectionStore;
+
+    expect((await getFilterCandidates()).map((candidate) => candidate.appId)).toEqual([1]);
+  });
+});
@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+/**
+ * Connectivity Unit Tests
+ *
+ * Going offline after repeated connectivity failures, the exponential
+ * backoff, and the single probe let through each time the backoff passes.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { HltbError, HltbErrorCode } from '../../frontend/types';
+
+const BACKOFF_BASE = 30 * 1000;
+
+function failure(code: HltbErrorCode): HltbError {
+  return { code, message: code, appId: 1, timestamp: Date.now() };
+}
+
+// Fresh module per test, so every test starts online
+async function loadConnectivity() {
+  vi.resetModules();
+  return import('../../frontend/services/connectivity');
+}
+
+async function goOffline() {
+  const connectivity = await loadConnectivity();
+  for (let i = 0; i < 3; i++) connectivity.recordLookup(failure('hltb_unreachable'));
+  return connectivity;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('going offline', () => {
+  it('happens after three connectivity failures in a row', async () => {
+    const connectivity = await loadConnectivity();
+    connectivity.recordLookup(failure('hltb_unreachable'));
+    connectivity.recordLookup(failure('backend_unavailable'));
+    expect(connectivity.isOffline()).toBe(false);
+
+    connectivity.recordLookup(failure('hltb_unreachable'));
+    expect(connectivity.isOffline()).toBe(true);
+    expect(connectivity.canReachBackend()).toBe(false);
+  });
+
+  it('does not count failures for a single game', async () => {
+    const connectivity = await loadConnectivity();
+    for (let i = 0; i < 5; i++) connectivity.recordLookup(failure('name_unresolved'));
+    expect(connectivity.isOffline()).toBe(false);
+  });
+
+  it('ends with the first successful lookup', async () => {
+    const connectivity = await goOffline();
+    connectivity.recordLookup(null);
+    expect(connectivity.isOffline()).toBe(false);
+    expect(connectivity.canReachBackend()).toBe(true);
+  });
+});
+
+describe('probing after the backoff', () => {
+  it('lets only the first caller through until the probe finishes', async () => {
+    const connectivity = await goOffline();
+    vi.advanceTimersByTime(BACKOFF_BASE);
+
+    expect(connectivity.canReachBackend()).toBe(true);
+    expect(connectivity.canReachBackend()).toBe(false);
+    expect(connectivity.canReachBackend()).toBe(false);
+  });
+
+  it('doubles the backoff after a failed probe', async () => {
+    const connectivity = await goOffline();
+    vi.advanceTimersByTime(BACKOFF_BASE);
+    connectivity.canReachBackend();
+    connectivity.recordLookup(failure('hltb_unreachable'));
+
+    vi.advanceTimersByTime(BACKOFF_BASE);
+    expect(connectivity.canReachBackend()).toBe(false);
+    vi.advanceTimersByTime(BACKOFF_BASE);
+    expect(connectivity.canReachBackend()).toBe(true);
+    expect(connectivity.canReachBackend()).toBe(false);
+  });
+
+  it('lets every caller through after a successful probe', async () => {
+    const connectivity = await goOffline();
+    vi.advanceTimersByTime(BACKOFF_BASE);
+    connectivity.canReachBackend();
+    connectivity.recordLookup(null);
+
+    expect(connectivity.canReachBackend()).toBe(true);
+    expect(connectivity.canReachBackend()).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+/// <reference types="vite/client" />
+/**
+ * Game Page Detector Tests
+ *
+ * Runs the built-in selector packs against the game page fixtures. The
+ * GamepadUI pack takes its class names from the client's app details header
+ * module, mocked here with the fixture's classes.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { detectGamePage } from '../../frontend/injection/detector';
+import { BUILTIN_SELECTOR_PACKS } from '../../frontend/injection/selectors';
+import desktopHtml from './fixtures/desktop-game-page.html?raw';
+import gamepadHtml from './fixtures/gamepad-game-page.html?raw';
+
+vi.mock('@steambrew/client', () => ({
+  appDetailsHeaderClasses: { TopCapsule: '_1xbyXv3j_lxyPbLXwM8fA9', ImgSrc: '_3ptQDtWuO5fTQq2w4uMwjT' },
+}));
+
+const APP_ID = 1245620;
+const PREVIOUS_APP_ID = 570;
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+function getPack(name: string) {
+  const pack = BUILTIN_SELECTOR_PACKS.find((p) => p.name === name);
+  if (!pack) throw new Error(`No built-in pack ${name}`);
+  return pack;
+}
+
+function routeTo(appId: number): void {
+  vi.stubGlobal('MainWindowBrowserManager', { m_lastLocation: { pathname: `/library/app/${appId}` } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('built-in GamepadUI pack', () => {
+  const pack = getPack('GamepadUI');
+
+  it('puts the box on the routed game page, not the one still mounted before it', async () => {
+    const doc = parse(gamepadHtml);
+    routeTo(APP_ID);
+
+    const page = await detectGamePage(doc, [pack]);
+    expect(page?.appId).toBe(APP_ID);
+    expect(page?.container.querySelector('img')?.src).toContain(`/assets/${APP_ID}/`);
+  });
+
+  it('still finds the previous page when it is the routed one', async () => {
+    const doc = parse(gamepadHtml);
+    routeTo(PREVIOUS_APP_ID);
+
+    const page = await detectGamePage(doc, [pack]);
+    expect(page?.appId).toBe(PREVIOUS_APP_ID);
+    expect(page?.container.querySelector('img')?.src).toContain(`/assets/${PREVIOUS_APP_ID}/`);
+  });
+
+  it('picks the container of the active app reported by the client', async () => {
+    const doc = parse(gamepadHtml);
+    vi.stubGlobal('SteamClient', { Apps: { GetActiveAppID: async () => APP_ID } });
+
+    const page = await detectGamePage(doc, [pack]);
+    expect(page?.appId).toBe(APP_ID);
+    expect(page?.container.querySelector('img')?.src).toContain(`/assets/${APP_ID}/`);
+  });
+
+});
+
+describe('built-in desktop pack', () => {
+  it('finds the game page header', async () => {
+    const doc = parse(desktopHtml);
+    routeTo(APP_ID);
+
+    const page = await detectGamePage(doc, [getPack('Desktop')]);
+    expect(page?.appId).toBe(APP_ID);
+    expect(page?.container.classList.contains('NZMJ6g2iVnFsOOp-lDmIP')).toBe(true);
+  });
+});
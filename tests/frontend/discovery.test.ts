@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+/// <reference types="vite/client" />
+/**
+ * Selector Discovery Replay Tests
+ *
+ * Replays the discovery heuristic on game pages saved in the captureFixture()
+ * format (tests/frontend/fixtures): the desktop library and GamepadUI, where
+ * the previous game page stays mounted behind the current one. Layout comes
+ * from the recorded `data-hltb-layout` attributes.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { captureFixture, discoverGamePage, discoverInFixture, fixtureLayout } from '../../frontend/injection/discovery';
+import { detectGamePage } from '../../frontend/injection/detector';
+import desktopHtml from './fixtures/desktop-game-page.html?raw';
+import gamepadHtml from './fixtures/gamepad-game-page.html?raw';
+
+const APP_ID = 1245620;
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('desktop fixture', () => {
+  it('finds the header container of the app', () => {
+    const report = discoverInFixture(desktopHtml, APP_ID);
+    expect(report.failure).toBeNull();
+    expect(report.appId).toBe(APP_ID);
+    expect(report.pack?.containerSelector).toBe('div.NZMJ6g2iVnFsOOp-lDmIP');
+    expect(report.pack?.headerImageSelector).toBe('img._3NBxSLAZLbbbnul8KfDFjw._2dzwXkCVAuZGFC-qKgo8XB[src*="library_hero"]');
+  });
+
+  it('walks past static ancestors', () => {
+    const report = discoverInFixture(desktopHtml, APP_ID);
+    expect(report.steps.map((step) => step.suitable)).toEqual([false, true]);
+  });
+
+  it('never takes icons, logos or capsules for the hero', () => {
+    const report = discoverInFixture(desktopHtml);
+    expect(report.appId).toBe(APP_ID);
+    expect(report.imageSrc).toContain('library_hero.jpg');
+  });
+
+  it('fails when the app on the route has no hero image', () => {
+    const report = discoverInFixture(desktopHtml, 413150);
+    expect(report.pack).toBeNull();
+    expect(report.failure).toBe('No hero image for app 413150 found');
+  });
+
+  it('builds a pack the detector finds the page with', async () => {
+    const doc = parse(desktopHtml);
+    const { pack } = discoverGamePage(doc, fixtureLayout, APP_ID).report;
+    const page = await detectGamePage(doc, [pack!]);
+    expect(page?.appId).toBe(APP_ID);
+    expect(page?.container.classList.contains('NZMJ6g2iVnFsOOp-lDmIP')).toBe(true);
+  });
+});
+
+describe('GamepadUI fixture', () => {
+  it('picks the page of the routed app, not the one still mounted before it', () => {
+    const report = discoverInFixture(gamepadHtml, APP_ID);
+    expect(report.failure).toBeNull();
+    expect(report.appId).toBe(APP_ID);
+    expect(report.imageSrc).toContain(`/assets/${APP_ID}/`);
+  });
+
+  it('would take the previous page without the route app ID', () => {
+    expect(discoverInFixture(gamepadHtml).appId).toBe(570);
+  });
+
+  it('qualifies selectors shared with the previous page', async () => {
+    const doc = parse(gamepadHtml);
+    const { pack } = discoverGamePage(doc, fixtureLayout, APP_ID).report;
+    expect(pack?.containerSelector).toBe('._1xbyXv3j_lxyPbLXwM8fA9._3yBXfFGyRhRgYYJzOVvOo- > div._1pwP4eeP1zQD7PEgmsep0W');
+    expect(doc.querySelectorAll(pack!.headerImageSelector)).toHaveLength(1);
+
+    const page = await detectGamePage(doc, [pack!]);
+    expect(page?.appId).toBe(APP_ID);
+  });
+});
+
+describe('captureFixture', () => {
+  it('records the layout of the hero image and its ancestors, then removes it', () => {
+    document.body.innerHTML = `
+      <div class="page">
+        <div class="header" style="position: relative">
+          <img class="hero" src="https://steamloopback.host/assets/${APP_ID}/library_hero.jpg">
+        </div>
+        <img class="logo" src="https://steamloopback.host/assets/${APP_ID}/logo.png">
+      </div>`;
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue({ width: 1280, height: 400 } as DOMRect);
+
+    const html = captureFixture(document);
+    expect(document.querySelector('[data-hltb-layout]')).toBeNull();
+
+    const fixture = parse(html);
+    expect(fixture.querySelector('.header')?.getAttribute('data-hltb-layout')).toBe('1280x400 relative');
+    expect(fixture.querySelector('.logo')?.hasAttribute('data-hltb-layout')).toBe(false);
+    expect(discoverInFixture(html, APP_ID).pack?.containerSelector).toBe('div.header');
+  });
+});
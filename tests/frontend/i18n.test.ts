@@ -0,0 +1,49 @@
+/**
+ * Message Catalog Unit Tests
+ *
+ * Checks every locale against the English catalog: the same message keys,
+ * plural forms where English has them, and the same {placeholders}.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { en } from '../../frontend/i18n/locales/en';
+import { de } from '../../frontend/i18n/locales/de';
+import { fr } from '../../frontend/i18n/locales/fr';
+import { es } from '../../frontend/i18n/locales/es';
+import type { PluralMessage } from '../../frontend/i18n/catalog';
+
+type Message = string | PluralMessage;
+
+const CATALOGS: Record<string, Record<string, Message>> = { de, fr, es };
+
+function placeholders(message: Message): string[] {
+  const texts = typeof message === 'string' ? [message] : Object.values(message).filter((text): text is string => !!text);
+  const names = texts.flatMap((text) => [...text.matchAll(/\{(\w+)\}/g)].map((match) => match[1]));
+  return [...new Set(names)].sort();
+}
+
+describe.each(Object.entries(CATALOGS))('%s catalog', (_locale, catalog) => {
+  const english: Record<string, Message> = en;
+
+  it('has exactly the English keys', () => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(english).sort());
+  });
+
+  it('has plural forms where English does', () => {
+    for (const [key, message] of Object.entries(english)) {
+      const translated = catalog[key];
+      expect(typeof translated, key).toBe(typeof message);
+      if (typeof message !== 'string') {
+        expect(Object.keys(translated as PluralMessage).sort(), key).toEqual(Object.keys(message).sort());
+      }
+    }
+  });
+
+  it('uses the same placeholders', () => {
+    for (const [key, message] of Object.entries(english)) {
+      expect(placeholders(catalog[key]), key).toEqual(placeholders(message));
+    }
+  });
+});
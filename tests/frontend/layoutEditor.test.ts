@@ -0,0 +1,72 @@
+/**
+ * Layout Editor Unit Tests
+ *
+ * Tests how a dropped box is turned into saved settings: edge anchoring and
+ * snapping, the per-mode settings, and removing GamepadUI's safe area
+ * insets, which are added again when the box is drawn.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { snapPosition, toPositionSettings, withoutInsets, SNAP_DISTANCE } from '../../frontend/injection/layoutEditor';
+
+const box = (left: number, top: number) => ({ left, top, width: 200, height: 100 });
+
+describe('snapPosition', () => {
+  it('anchors to the nearer edge on each axis', () => {
+    expect(snapPosition(box(900, 50), 1280, 400)).toEqual({
+      alignRight: true,
+      alignBottom: false,
+      horizontalOffset: 180,
+      verticalOffset: 50,
+    });
+  });
+
+  it('snaps offsets within SNAP_DISTANCE to the edge', () => {
+    expect(snapPosition(box(SNAP_DISTANCE, 400 - 100 - SNAP_DISTANCE - 1), 1280, 400)).toEqual({
+      alignRight: false,
+      alignBottom: true,
+      horizontalOffset: 0,
+      verticalOffset: SNAP_DISTANCE + 1,
+    });
+  });
+});
+
+describe('toPositionSettings', () => {
+  it('stores GamepadUI positions in the gamepad settings', () => {
+    const position = { alignRight: true, alignBottom: false, horizontalOffset: 20, verticalOffset: 30 };
+    expect(toPositionSettings(position, 'desktop')).toEqual(position);
+    expect(toPositionSettings(position, 'gamepad')).toEqual({
+      gamepadAlignRight: true,
+      gamepadAlignBottom: false,
+      gamepadHorizontalOffset: 20,
+      gamepadVerticalOffset: 30,
+    });
+  });
+});
+
+describe('withoutInsets', () => {
+  const insets = { top: 10, right: 24, bottom: 16, left: 8 };
+
+  it('subtracts the insets of the anchored edges', () => {
+    expect(withoutInsets({ alignRight: true, alignBottom: true, horizontalOffset: 40, verticalOffset: 40 }, insets)).toEqual({
+      alignRight: true,
+      alignBottom: true,
+      horizontalOffset: 16,
+      verticalOffset: 24,
+    });
+    expect(withoutInsets({ alignRight: false, alignBottom: false, horizontalOffset: 40, verticalOffset: 40 }, insets)).toEqual({
+      alignRight: false,
+      alignBottom: false,
+      horizontalOffset: 32,
+      verticalOffset: 30,
+    });
+  });
+
+  it('keeps a box dropped inside the inset at the safe area edge', () => {
+    const position = withoutInsets({ alignRight: true, alignBottom: false, horizontalOffset: 0, verticalOffset: 5 }, insets);
+    expect(position.horizontalOffset).toBe(0);
+    expect(position.verticalOffset).toBe(0);
+  });
+});
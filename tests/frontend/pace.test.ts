@@ -0,0 +1,75 @@
+/**
+ * Personal Pace Unit Tests
+ *
+ * Tests the pace factor statistics: median ratio, Tukey outlier fences and
+ * the minimum number of completions.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computePace, estimateForPace, MIN_PACE_SAMPLES, type PaceSample } from '../../frontend/services/pace';
+
+// One sample per ratio, against a 10 hour HLTB time
+function samples(...ratios: number[]): PaceSample[] {
+  return ratios.map((ratio) => ({ playtimeHours: ratio * 10, hltbHours: 10 }));
+}
+
+describe('computePace', () => {
+  it('needs MIN_PACE_SAMPLES completions', () => {
+    expect(MIN_PACE_SAMPLES).toBe(3);
+    expect(computePace(samples(1, 2))).toBeNull();
+    expect(computePace(samples(1, 2, 3))).not.toBeNull();
+  });
+
+  it('ignores samples without playtime or HLTB time', () => {
+    const pace = computePace([
+      ...samples(1, 2),
+      { playtimeHours: 0, hltbHours: 10 },
+      { playtimeHours: 5, hltbHours: 0 },
+    ]);
+    expect(pace).toBeNull();
+  });
+
+  it('uses the median ratio for an odd number of samples', () => {
+    expect(computePace(samples(2, 1, 1.5))).toEqual({ factor: 1.5, sampleCount: 3, outlierCount: 0 });
+  });
+
+  it('averages the middle ratios for an even number of samples', () => {
+    expect(computePace(samples(1, 1.2, 1.4, 1.6))?.factor).toBe(1.3);
+  });
+
+  it('drops ratios above the upper fence', () => {
+    // Q1 1.1, Q3 1.3: the fence is 0.3 beyond them, so 10 is an outlier
+    expect(computePace(samples(1, 1.1, 1.2, 1.3, 10))).toEqual({ factor: 1.15, sampleCount: 4, outlierCount: 1 });
+  });
+
+  it('drops ratios below the lower fence', () => {
+    // Q1 1, Q3 1.2: anything under 0.7 is an outlier
+    expect(computePace(samples(0.1, 1, 1.1, 1.2, 1.3))).toEqual({ factor: 1.15, sampleCount: 4, outlierCount: 1 });
+  });
+
+  it('keeps ratios on the fences', () => {
+    // Q1 1, Q3 2, fence 1.5: 3.5 sits exactly on the upper fence
+    expect(computePace(samples(1, 1, 2, 2, 3.5))?.outlierCount).toBe(0);
+  });
+
+  it('does not filter outliers with fewer than 4 samples', () => {
+    expect(computePace(samples(1, 1, 10))).toEqual({ factor: 1, sampleCount: 3, outlierCount: 0 });
+  });
+});
+
+describe('estimateForPace', () => {
+  const pace = { factor: 1.25, sampleCount: 3, outlierCount: 0 };
+
+  it('scales the HLTB time by the factor, to one decimal place', () => {
+    expect(estimateForPace(10, pace)).toBe(12.5);
+    expect(estimateForPace(7.3, pace)).toBe(9.1);
+  });
+
+  it('returns null without a time or a pace', () => {
+    expect(estimateForPace(null, pace)).toBeNull();
+    expect(estimateForPace(0, pace)).toBeNull();
+    expect(estimateForPace(10, null)).toBeNull();
+  });
+});
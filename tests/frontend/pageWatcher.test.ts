@@ -0,0 +1,141 @@
+// @vitest-environment jsdom
+/**
+ * Game Page Watcher Unit Tests
+ *
+ * Drives the watcher with a fake main window route and fake timers: mutation
+ * bursts are debounced, nothing runs off game pages, only the box's
+ * surroundings are watched once it is placed, and detection runs are
+ * counted per navigation.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { watchGamePages, unwatchGamePages, getDetectionStats } from '../../frontend/injection/pageWatcher';
+
+let routeListener: (() => void) | null = null;
+
+function navigate(pathname: string): void {
+  window.MainWindowBrowserManager!.m_lastLocation.pathname = pathname;
+  routeListener?.();
+}
+
+// Lets MutationObserver callbacks run, then the debounce timer
+async function settle(): Promise<void> {
+  await Promise.resolve();
+  await vi.advanceTimersByTimeAsync(200);
+}
+
+// A header container that gets the box on detect()
+function setupPage(appId: number) {
+  document.body.innerHTML = '<div class="page"><div class="header"></div></div>';
+  const header = document.querySelector<HTMLElement>('.header')!;
+  let shownFor: number | null = null;
+
+  const detect = vi.fn(async () => {
+    const box = document.createElement('div');
+    box.id = 'box';
+    box.textContent = 'HLTB';
+    header.appendChild(box);
+    shownFor = appId;
+  });
+  const getContainer = (id: number | null) => (document.getElementById('box') && (id === null || id === shownFor) ? header : null);
+  return { header, detect, getContainer };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  routeListener = null;
+  window.MainWindowBrowserManager = {
+    m_lastLocation: { pathname: '/library/home' },
+    m_history: {
+      listen: (listener) => {
+        routeListener = listener;
+        return () => (routeListener = null);
+      },
+    },
+  };
+});
+
+afterEach(() => {
+  unwatchGamePages();
+  delete window.MainWindowBrowserManager;
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('watchGamePages', () => {
+  it('does not detect off game pages, whatever the DOM does', async () => {
+    const { detect, getContainer } = setupPage(10);
+    watchGamePages(document, { detect, getContainer });
+
+    for (let i = 0; i < 20; i++) document.body.appendChild(document.createElement('span'));
+    await settle();
+    expect(detect).not.toHaveBeenCalled();
+  });
+
+  it('debounces a burst of mutations into one detection', async () => {
+    // The page never renders a header, so the body stays observed
+    const detect = vi.fn(async () => {});
+    watchGamePages(document, { detect, getContainer: () => null });
+    navigate('/library/app/10');
+    await settle();
+    expect(detect).toHaveBeenCalledTimes(1);
+
+    for (let i = 0; i < 20; i++) document.body.appendChild(document.createElement('span'));
+    await settle();
+    expect(detect).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops detecting once the box is placed, and ignores mutations elsewhere', async () => {
+    const { detect, getContainer } = setupPage(10);
+    watchGamePages(document, { detect, getContainer });
+    navigate('/library/app/10');
+    await settle();
+    await settle(); // The box's own insertion runs the watcher once more
+    expect(detect).toHaveBeenCalledTimes(1);
+
+    for (let i = 0; i < 20; i++) document.body.appendChild(document.createElement('span'));
+    await settle();
+    expect(detect).toHaveBeenCalledTimes(1);
+    expect(getDetectionStats().current).toMatchObject({ path: '/library/app/10', detections: 1, found: true });
+  });
+
+  it('puts the box back when Steam clears the container', async () => {
+    const { header, detect, getContainer } = setupPage(10);
+    watchGamePages(document, { detect, getContainer });
+    navigate('/library/app/10');
+    await settle();
+    await settle();
+
+    header.innerHTML = '';
+    await settle();
+    expect(detect).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts detection runs per navigation', async () => {
+    const { detect, getContainer } = setupPage(10);
+    watchGamePages(document, { detect, getContainer });
+    navigate('/library/app/10');
+    await settle();
+    await settle();
+    navigate('/library/home');
+    await settle();
+
+    const { current, recent } = getDetectionStats();
+    expect(current).toMatchObject({ path: '/library/home', detections: 0 });
+    expect(recent[0]).toMatchObject({ path: '/library/app/10', detections: 1, found: true });
+  });
+
+  it('falls back to polling the route without a history to subscribe to', async () => {
+    delete window.MainWindowBrowserManager!.m_history;
+    const { detect, getContainer } = setupPage(10);
+    watchGamePages(document, { detect, getContainer });
+
+    window.MainWindowBrowserManager!.m_lastLocation.pathname = '/library/app/10';
+    await vi.advanceTimersByTimeAsync(300);
+    await settle();
+    expect(detect).toHaveBeenCalledTimes(1);
+  });
+});
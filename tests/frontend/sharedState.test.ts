@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+/**
+ * Shared State Unit Tests
+ *
+ * Publishes state from a library instance of the services and merges it into
+ * a store instance with empty storage, through a fake backend that answers
+ * like backend/shared_state.lua.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CacheEntry } from '../../frontend/types';
+
+type Handler = (args: Record<string, unknown>) => unknown;
+
+const NOW = Date.now();
+
+// Fresh modules and empty storage, like a page on another origin
+async function loadModules(backend: Record<string, Handler>) {
+  localStorage.clear();
+  vi.resetModules();
+  const storage = await import('../../frontend/storage');
+  storage.useMemoryStorage();
+
+  const rpc = await import('../../frontend/services/rpc');
+  const fakeCallable = (route: string) => async (args: Record<string, unknown>) => JSON.stringify(backend[route](args));
+  rpc.installCallable(fakeCallable as unknown as Parameters<typeof rpc.installCallable>[0]);
+
+  return {
+    shared: await import('../../frontend/services/sharedState'),
+    cache: await import('../../frontend/services/cache'),
+    overrides: await import('../../frontend/services/overrides'),
+    settings: await import('../../frontend/services/settings'),
+  };
+}
+
+function entry(gameId: number, timestamp: number): CacheEntry {
+  return { data: { searched_name: `Game ${gameId}`, game_id: gameId }, timestamp, notFound: false };
+}
+
+// Runs the library side and returns the bundle it published
+async function publishLibraryState(): Promise<string> {
+  let published = '';
+  const library = await loadModules({
+    SetSharedState: ({ state_json }) => {
+      published = state_json as string;
+      return { success: true };
+    },
+  });
+
+  library.settings.saveSettings({ ...library.settings.getSettings(), timeFormat: 'hm', theme: 'light' });
+  library.overrides.setOverride(620, 2323, 'Portal 2', 'Portal 2');
+  await library.cache.replaceCacheEntries({ 620: entry(2323, NOW - 1000), 400: entry(7230, NOW - 1000) });
+  await library.shared.publishState();
+  return published;
+}
+
+function getSharedState(state: string | undefined, results: unknown, since: number[] = []): Handler {
+  return (args) => {
+    since.push(args.since as number);
+    return { success: true, data: { state, results, now: NOW } };
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('importSharedState', () => {
+  it("applies the library's settings, matches and results", async () => {
+    const state = await publishLibraryState();
+    const store = await loadModules({ GetSharedState: getSharedState(state, []) });
+
+    expect(await store.shared.importSharedState()).toBe(true);
+    expect(store.settings.getSettings().timeFormat).toBe('hm');
+    expect(store.settings.getSettings().theme).toBe('light');
+    expect(store.overrides.getOverride(620)?.hltbId).toBe(2323);
+    expect((await store.cache.getCache(400))?.entry.data?.game_id).toBe(7230);
+  });
+
+  it('replaces matches the store has but the library does not', async () => {
+    const state = await publishLibraryState();
+    const store = await loadModules({ GetSharedState: getSharedState(state, []) });
+    store.overrides.setOverride(10, 1, 'Old', 'Old');
+
+    await store.shared.importSharedState();
+    expect(store.overrides.getOverride(10)).toBeNull();
+  });
+
+  it('adds backend results and keeps newer ones the store looked up itself', async () => {
+    const store = await loadModules({
+      GetSharedState: getSharedState(undefined, { 620: entry(1, NOW - 5000), 730: entry(2, NOW) }),
+    });
+    await store.cache.replaceCacheEntries({ 620: entry(99, NOW) });
+
+    expect(await store.shared.importSharedState()).toBe(true);
+    expect((await store.cache.getCache(620))?.entry.data?.game_id).toBe(99);
+    expect((await store.cache.getCache(730))?.entry.data?.game_id).toBe(2);
+  });
+
+  it('turns DLC lists sent as empty Lua tables into arrays', async () => {
+    const result = { ...entry(1, NOW), data: { searched_name: 'Game', game_id: 1, dlc: {} } };
+    const store = await loadModules({ GetSharedState: getSharedState(undefined, { 620: result }) });
+
+    await store.shared.importSharedState();
+    expect((await store.cache.getCache(620))?.entry.data?.dlc).toEqual([]);
+  });
+
+  it('asks only for changes since the previous merge', async () => {
+    const since: number[] = [];
+    const store = await loadModules({ GetSharedState: getSharedState(undefined, [], since) });
+
+    await store.shared.importSharedState();
+    await store.shared.importSharedState();
+    expect(since).toEqual([0, NOW]);
+  });
+
+  it('asks for the same changes again after a failure', async () => {
+    const since: number[] = [];
+    const invalidState = JSON.stringify({ format: 'other' });
+    const store = await loadModules({ GetSharedState: getSharedState(invalidState, [], since) });
+
+    expect(await store.shared.importSharedState()).toBe(false);
+    expect(await store.shared.importSharedState()).toBe(false);
+    expect(since).toEqual([0, 0]);
+  });
+
+  it('keeps the store running when the backend has no shared state', async () => {
+    const store = await loadModules({ GetSharedState: () => ({ success: false, error: 'internal' }) });
+    expect(await store.shared.importSharedState()).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Backlog Statistics Unit Tests
+ *
+ * Tests computeBacklogStats() on hand-built caches: library counts, hours
+ * left after playtime, histogram bucket edges and quick-win selection, and
+ * the projectWeeks() pace projection.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeBacklogStats, projectWeeks, LENGTH_BUCKET_BOUNDS, WEEKEND_HOURS, type StatsInput } from '../../frontend/services/stats';
+import type { CacheEntry, HltbGameResult } from '../../frontend/types';
+
+function found(gameId: number, times: Partial<HltbGameResult>): CacheEntry {
+  return { data: { searched_name: `Game ${gameId}`, game_id: gameId, ...times }, timestamp: 0, notFound: false };
+}
+
+const notFound: CacheEntry = { data: { searched_name: 'Missing' }, timestamp: 0, notFound: true };
+
+// Apps 1..n named "Game <id>", with the given cache entries
+function input(cache: Record<number, CacheEntry>, overrides: Partial<StatsInput> = {}, appCount?: number): StatsInput {
+  const ids = appCount ? Array.from({ length: appCount }, (_, i) => i + 1) : Object.keys(cache).map(Number);
+  return {
+    apps: ids.map((appId) => ({ appId, name: `Game ${appId}` })),
+    cache,
+    idMappings: {},
+    playtime: {},
+    completed: new Set(),
+    ...overrides,
+  };
+}
+
+describe('computeBacklogStats counts', () => {
+  it('sorts apps into matched, unmatched and uncached', () => {
+    const stats = computeBacklogStats(input({ 1: found(101, { comp_main: 5 }), 2: notFound }, { idMappings: { 1: 101, 3: 103 } }, 4));
+    expect(stats.counts).toEqual({ total: 4, matched: 1, unmatched: 1, uncached: 2, imported: 2, completed: 0 });
+  });
+
+  it('counts completed games but leaves their hours out', () => {
+    const stats = computeBacklogStats(input({ 1: found(101, { comp_main: 5 }), 2: found(102, { comp_main: 8 }) }, { completed: new Set([2]) }));
+    expect(stats.counts.completed).toBe(1);
+    expect(stats.hoursLeft.comp_main).toBe(5);
+  });
+
+  it('treats an entry without data as unmatched', () => {
+    const stats = computeBacklogStats(input({ 1: { data: null, timestamp: 0, notFound: true } }));
+    expect(stats.counts.unmatched).toBe(1);
+  });
+});
+
+describe('computeBacklogStats hours left', () => {
+  it('sums every category', () => {
+    const stats = computeBacklogStats(
+      input({ 1: found(101, { comp_main: 10, comp_plus: 15, comp_100: 30 }), 2: found(102, { comp_main: 2.25, comp_plus: null }) })
+    );
+    expect(stats.hoursLeft).toEqual({ comp_main: 12.3, comp_plus: 15, comp_100: 30 });
+  });
+
+  it('subtracts playtime and never goes below zero', () => {
+    const stats = computeBacklogStats(
+      input({ 1: found(101, { comp_main: 10, comp_plus: 20, comp_100: 40 }) }, { playtime: { 1: 15 } })
+    );
+    expect(stats.hoursLeft).toEqual({ comp_main: 0, comp_plus: 5, comp_100: 25 });
+  });
+});
+
+describe('computeBacklogStats histogram', () => {
+  it('has one bucket per bound, the last one open', () => {
+    const { histogram } = computeBacklogStats(input({}));
+    expect(histogram.map((bucket) => bucket.min)).toEqual(LENGTH_BUCKET_BOUNDS);
+    expect(histogram[histogram.length - 1].max).toBeNull();
+  });
+
+  it('puts a length on a bound into the bucket starting there', () => {
+    const lengths = [4.9, 5, 9.9, 10, 80, 200];
+    const cache = Object.fromEntries(lengths.map((hours, i) => [i + 1, found(i + 1, { comp_main: hours })]));
+    const { histogram } = computeBacklogStats(input(cache));
+    expect(histogram.map((bucket) => bucket.count)).toEqual([1, 2, 1, 0, 0, 2]);
+  });
+
+  it('uses full Main Story lengths, including played and completed games', () => {
+    const stats = computeBacklogStats(
+      input({ 1: found(101, { comp_main: 30 }), 2: found(102, { comp_main: 50 }) }, { playtime: { 1: 25 }, completed: new Set([2]) })
+    );
+    expect(stats.histogram.find((bucket) => bucket.min === 20)?.count).toBe(1);
+    expect(stats.histogram.find((bucket) => bucket.min === 40)?.count).toBe(1);
+  });
+});
+
+describe('computeBacklogStats quick wins', () => {
+  it('picks games with at most a weekend of Main Story left', () => {
+    const stats = computeBacklogStats(
+      input(
+        { 1: found(101, { comp_main: WEEKEND_HOURS }), 2: found(102, { comp_main: WEEKEND_HOURS + 1 }), 3: found(103, { comp_main: 30 }) },
+        { playtime: { 3: 25 } }
+      )
+    );
+    expect(stats.quickWins).toEqual([
+      { appId: 3, name: 'Game 3', hoursLeft: 5 },
+      { appId: 1, name: 'Game 1', hoursLeft: WEEKEND_HOURS },
+    ]);
+  });
+
+  it('skips finished, completed and untimed games', () => {
+    const stats = computeBacklogStats(
+      input(
+        { 1: found(101, { comp_main: 5 }), 2: found(102, { comp_main: 5 }), 3: found(103, { comp_plus: 5 }) },
+        { playtime: { 1: 6 }, completed: new Set([2]) }
+      )
+    );
+    expect(stats.quickWins).toEqual([]);
+  });
+
+  it('sorts by hours left, then name, and keeps ten', () => {
+    const cache = Object.fromEntries(Array.from({ length: 12 }, (_, i) => [i + 1, found(i + 1, { comp_main: i < 2 ? 1 : 2 })]));
+    const { quickWins } = computeBacklogStats(input(cache));
+    expect(quickWins).toHaveLength(10);
+    expect(quickWins.slice(0, 3).map((win) => win.name)).toEqual(['Game 1', 'Game 2', 'Game 10']);
+  });
+
+  it('follows the weekend length it is given', () => {
+    const stats = computeBacklogStats(input({ 1: found(101, { comp_main: 5 }) }), 4);
+    expect(stats.quickWins).toEqual([]);
+  });
+});
+
+describe('projectWeeks', () => {
+  it('rounds partial weeks up', () => {
+    expect(projectWeeks(100, 10)).toBe(10);
+    expect(projectWeeks(101, 10)).toBe(11);
+    expect(projectWeeks(0, 10)).toBe(0);
+  });
+
+  it('has no projection without a pace', () => {
+    expect(projectWeeks(100, 0)).toBeNull();
+    expect(projectWeeks(100, -5)).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+/**
+ * Storage Migration and Pruning Unit Tests
+ *
+ * Runs the result and ID caches on the memory backend (useMemoryStorage):
+ * migration of the old localStorage blobs, the Max Cached Age cutoff and
+ * pruning of old and excess cache entries.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CacheEntry } from '../../frontend/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Fresh modules per test, so stores, migrations and the write counter start over
+async function loadModules() {
+  vi.resetModules();
+  const storage = await import('../../frontend/storage');
+  storage.useMemoryStorage();
+  return {
+    storage,
+    cache: await import('../../frontend/services/cache'),
+    idCache: await import('../../frontend/services/hltbIdCache'),
+  };
+}
+
+function entry(gameId: number, ageMs: number): CacheEntry {
+  return { data: { searched_name: `Game ${gameId}`, game_id: gameId }, timestamp: Date.now() - ageMs, notFound: false };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('memory backend', () => {
+  it('is used once selected', async () => {
+    const { storage, cache } = await loadModules();
+    await cache.getAllCacheEntries();
+    expect(storage.getStorageBackend()).toBe('memory');
+  });
+});
+
+describe('legacy result cache migration', () => {
+  it('moves every entry into the store and removes the blob', async () => {
+    localStorage.setItem('hltb-millennium-cache', JSON.stringify({ 10: entry(1, 0), 20: entry(2, DAY) }));
+    const { cache } = await loadModules();
+
+    const entries = await cache.getAllCacheEntries();
+    expect(Object.keys(entries).sort()).toEqual(['10', '20']);
+    expect(entries[20].data?.game_id).toBe(2);
+    expect(localStorage.getItem('hltb-millennium-cache')).toBeNull();
+  });
+
+  it('discards an unreadable blob', async () => {
+    localStorage.setItem('hltb-millennium-cache', '{not json');
+    const { cache } = await loadModules();
+
+    expect(await cache.getAllCacheEntries()).toEqual({});
+    expect(localStorage.getItem('hltb-millennium-cache')).toBeNull();
+  });
+
+  it('runs before the first operation, whichever it is', async () => {
+    localStorage.setItem('hltb-millennium-cache', JSON.stringify({ 10: entry(1, 0) }));
+    const { cache } = await loadModules();
+
+    expect((await cache.getCache(10))?.entry.data?.game_id).toBe(1);
+  });
+});
+
+describe('legacy ID cache migration', () => {
+  it('moves the mappings and metadata into the stores', async () => {
+    const metadata = { timestamp: Date.now(), steamUserId: '42' };
+    localStorage.setItem('hltb-millennium-id-cache', JSON.stringify({ mappings: { 10: 100, 20: 200 }, metadata }));
+    const { idCache } = await loadModules();
+
+    expect(await idCache.getHltbId(20)).toBe(200);
+    expect(await idCache.getIdCacheData()).toEqual({ mappings: { 10: 100, 20: 200 }, metadata });
+    expect(localStorage.getItem('hltb-millennium-id-cache')).toBeNull();
+  });
+
+  it('drops an unreadable blob', async () => {
+    localStorage.setItem('hltb-millennium-id-cache', 'nope');
+    const { idCache } = await loadModules();
+
+    expect(await idCache.getIdCacheData()).toBeNull();
+    expect(localStorage.getItem('hltb-millennium-id-cache')).toBeNull();
+  });
+});
+
+describe('Max Cached Age', () => {
+  it('hides entries older than the setting but keeps them stored', async () => {
+    localStorage.setItem('hltb-millennium-settings', JSON.stringify({ version: 2, settings: { maxCacheAgeDays: 7 } }));
+    const { cache } = await loadModules();
+    await cache.replaceCacheEntries({ 1: entry(1, 6 * DAY), 2: entry(2, 8 * DAY) });
+
+    expect(await cache.getCache(1)).not.toBeNull();
+    expect(await cache.getCache(2)).toBeNull();
+    expect((await cache.getCacheStats()).count).toBe(2);
+  });
+});
+
+describe('cache pruning', () => {
+  // The cache prunes on every 50th write
+  async function writeMany(cache: Awaited<ReturnType<typeof loadModules>>['cache'], count: number, firstAppId: number) {
+    for (let i = 0; i < count; i++) {
+      await cache.setCache(firstAppId + i, { searched_name: `Game ${i}` });
+    }
+  }
+
+  it('removes entries older than 90 days on the 50th write', async () => {
+    const { cache } = await loadModules();
+    await cache.replaceCacheEntries({ 1: entry(1, 91 * DAY), 2: entry(2, 89 * DAY) });
+
+    await writeMany(cache, 49, 1000);
+    expect((await cache.getCacheStats()).count).toBe(51);
+
+    await writeMany(cache, 1, 2000);
+    const entries = await cache.getAllCacheEntries();
+    expect(entries[1]).toBeUndefined();
+    expect(entries[2]).toBeDefined();
+    expect(Object.keys(entries)).toHaveLength(51);
+  });
+
+  it('keeps the newest 2000 entries', async () => {
+    const { cache } = await loadModules();
+    const old = Object.fromEntries(Array.from({ length: 2000 }, (_, i) => [i + 1, entry(i + 1, (2000 - i) * 1000)]));
+    await cache.replaceCacheEntries(old);
+
+    await writeMany(cache, 50, 10000);
+    const entries = await cache.getAllCacheEntries();
+    expect(Object.keys(entries)).toHaveLength(2000);
+    // The 50 oldest imported entries made room for the new ones
+    expect(entries[50]).toBeUndefined();
+    expect(entries[51]).toBeDefined();
+    expect(entries[10049]).toBeDefined();
+  });
+});
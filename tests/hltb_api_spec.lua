@@ -176,6 +176,43 @@ describe("hltb_api", function()
         end)
     end)
 
+    describe("fetch_game_data", function()
+        local url = "https://howlongtobeat.com/_next/data/test-build-id/game/12345.json"
+
+        it("returns the game record and the page data", function()
+            local mock_response = {
+                pageProps = {
+                    game = {
+                        data = {
+                            game = {
+                                { game_id = 12345, game_name = "Test Game", profile_steam = 620 }
+                            },
+                            relationships = {
+                                { game_id = 222, game_name = "Test Game: DLC", game_type = "dlc" }
+                            }
+                        }
+                    }
+                }
+            }
+            api._http = create_mock_http_get({
+                [url] = { status = 200, body = json.encode(mock_response) }
+            })
+
+            local game, page = api.fetch_game_data(12345)
+            assert.equals("Test Game", game.game_name)
+            assert.equals(620, game.profile_steam)
+            assert.equals(222, page.relationships[1].game_id)
+        end)
+
+        it("returns nil on HTTP error", function()
+            api._http = create_mock_http_get({
+                [url] = { status = 500, body = "" }
+            })
+
+            assert.is_nil(api.fetch_game_data(12345))
+        end)
+    end)
+
     describe("fetch_game_by_id", function()
         it("returns nil for nil game_id", function()
             local game, err = api.fetch_game_by_id(nil)
@@ -215,6 +252,44 @@ describe("hltb_api", function()
             assert.equals(3600, game.comp_main)
         end)
 
+        it("returns extended play style data and counts", function()
+            local mock_response = {
+                pageProps = {
+                    game = {
+                        data = {
+                            game = {
+                                {
+                                    game_id = 12345,
+                                    game_name = "Test Game",
+                                    comp_main = 3600,
+                                    comp_all = 5400,
+                                    comp_main_count = 42,
+                                    invested_co = 7200,
+                                    invested_co_count = 3,
+                                    invested_mp = 36000,
+                                    review_score = 81
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+            api._http = create_mock_http_get({
+                ["https://howlongtobeat.com/_next/data/test-build-id/game/12345.json"] = {
+                    status = 200,
+                    body = json.encode(mock_response)
+                }
+            })
+
+            local game = api.fetch_game_by_id(12345)
+            assert.equals(5400, game.comp_all)
+            assert.equals(42, game.comp_main_count)
+            assert.equals(7200, game.invested_co)
+            assert.equals(3, game.invested_co_count)
+            assert.equals(36000, game.invested_mp)
+            assert.equals(81, game.review_score)
+        end)
+
         it("returns error when API returns null", function()
             api._http = create_mock_http_get({
                 ["https://howlongtobeat.com/_next/data/test-build-id/game/99999.json"] = {
@@ -236,9 +311,10 @@ describe("hltb_api", function()
                 }
             })
 
-            local game, err = api.fetch_game_by_id(12345)
+            local game, err, code = api.fetch_game_by_id(12345)
             assert.is_nil(game)
             assert.equals("Unexpected response structure", err)
+            assert.equals(api.ERROR_INVALID_RESPONSE, code)
         end)
 
         it("returns error when game array is empty", function()
@@ -270,9 +346,10 @@ describe("hltb_api", function()
                 }
             })
 
-            local game, err = api.fetch_game_by_id(12345)
+            local game, err, code = api.fetch_game_by_id(12345)
             assert.is_nil(game)
             assert.matches("Request failed", err)
+            assert.equals(api.ERROR_UNREACHABLE, code)
         end)
 
         it("returns error on non-200 status", function()
@@ -283,9 +360,10 @@ describe("hltb_api", function()
                 }
             })
 
-            local game, err = api.fetch_game_by_id(12345)
+            local game, err, code = api.fetch_game_by_id(12345)
             assert.is_nil(game)
             assert.equals("HTTP 404", err)
+            assert.equals(api.ERROR_UNREACHABLE, code)
         end)
     end)
 end)
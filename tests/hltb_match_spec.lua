@@ -0,0 +1,151 @@
+--[[
+    HLTB Matching Unit Tests
+
+    Tests that search_best_match reports how each match was found, and that
+    find_dlc_match picks DLC from the base game's page.
+    Uses a mock API module to test without network calls.
+
+    Run with: busted tests/hltb_match_spec.lua
+]]
+
+package.path = package.path .. ";backend/?.lua"
+
+-- Mock dependencies before requiring hltb_match
+package.loaded["logger"] = {
+    info = function() end,
+    error = function() end
+}
+
+local mock_api = {
+    results = {},
+    steam_ids = {},
+    pages = {},
+    search_error = nil
+}
+
+function mock_api.search(query)
+    if mock_api.search_error then
+        return nil, mock_api.search_error
+    end
+    return { data = mock_api.results[query] or {} }
+end
+
+function mock_api.fetch_game_data(game_id)
+    return { profile_steam = mock_api.steam_ids[game_id] or 0 }, mock_api.pages[game_id]
+end
+
+package.loaded["hltb_api"] = mock_api
+
+local match = require("hltb_match")
+
+local function game(id, name, count)
+    return { game_id = id, game_name = name, comp_all_count = count or 0 }
+end
+
+describe("search_best_match", function()
+    before_each(function()
+        mock_api.results = {}
+        mock_api.steam_ids = {}
+        mock_api.search_error = nil
+    end)
+
+    it("returns the error code when the search fails", function()
+        mock_api.search_error = "hltb_unreachable"
+
+        local item, method, err = match.search_best_match("Hollow Knight", 367520)
+        assert.is_nil(item)
+        assert.is_nil(method)
+        assert.equals("hltb_unreachable", err)
+    end)
+
+    it("returns no error code when HLTB has no results", function()
+        local _, _, err = match.search_best_match("Unknown Game", 1)
+        assert.is_nil(err)
+    end)
+
+    it("returns nil when there are no results", function()
+        local item, method = match.search_best_match("Unknown Game", 1)
+        assert.is_nil(item)
+        assert.is_nil(method)
+    end)
+
+    it("reports exact name matches", function()
+        mock_api.results["Hollow Knight"] = {
+            game(1, "Hollow Knight: Silksong", 10),
+            game(2, "Hollow Knight", 5)
+        }
+
+        local item, method = match.search_best_match("Hollow Knight", 367520)
+        assert.equals(2, item.game_id)
+        assert.equals(match.METHOD_EXACT, method)
+    end)
+
+    it("reports Steam ID matches", function()
+        mock_api.results["Dark Souls Remastered Edition"] = {
+            game(1, "Dark Souls II", 50),
+            game(2, "Dark Souls: Remastered", 10)
+        }
+        mock_api.steam_ids[2] = 570940
+
+        local item, method = match.search_best_match("Dark Souls Remastered Edition", 570940)
+        assert.equals(2, item.game_id)
+        assert.equals(match.METHOD_STEAM_ID, method)
+    end)
+
+    it("reports Levenshtein guesses", function()
+        mock_api.results["Some Game Name"] = {
+            game(1, "Some Game Names", 10)
+        }
+
+        local item, method = match.search_best_match("Some Game Name", 1)
+        assert.equals(1, item.game_id)
+        assert.equals(match.METHOD_LEVENSHTEIN, method)
+    end)
+
+    it("reports the method of the simplified retry when it wins", function()
+        mock_api.results["Company of Heroes - Legacy Edition"] = {
+            game(1, "Company of Heroes 3", 10)
+        }
+        mock_api.results["Company of Heroes"] = {
+            game(2, "Company of Heroes", 10)
+        }
+
+        local item, method = match.search_best_match("Company of Heroes - Legacy Edition", 1)
+        assert.equals(2, item.game_id)
+        assert.equals(match.METHOD_EXACT, method)
+    end)
+end)
+
+describe("find_dlc_match", function()
+    before_each(function()
+        mock_api.results = {}
+        mock_api.steam_ids = {}
+        mock_api.pages = {}
+        mock_api.search_error = nil
+    end)
+
+    it("picks the DLC from the base game's page", function()
+        mock_api.results["Hollow Knight"] = { game(1, "Hollow Knight", 10) }
+        mock_api.pages[1] = {
+            relationships = {
+                { game_id = 5, game_name = "Hollow Knight: Godmaster" },
+                { game_id = 6, game_name = "Hollow Knight: Lifeblood" }
+            }
+        }
+
+        local dlc, similarity, base = match.find_dlc_match("Hollow Knight - Godmaster", "Hollow Knight", 367520)
+        assert.equals(5, dlc.game_id)
+        assert.equals(1.0, similarity)
+        assert.equals(1, base.game_id)
+    end)
+
+    it("returns nil when the base game is not found", function()
+        assert.is_nil(match.find_dlc_match("Unknown - DLC", "Unknown", 1))
+    end)
+
+    it("returns nil when the base game lists no matching DLC", function()
+        mock_api.results["Hollow Knight"] = { game(1, "Hollow Knight", 10) }
+
+        assert.is_nil(match.find_dlc_match("Hollow Knight - Godmaster", "Hollow Knight", 367520))
+    end)
+end)
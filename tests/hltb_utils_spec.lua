@@ -126,3 +126,187 @@ describe("seconds_to_hours", function()
         assert.equals(2.8, utils.seconds_to_hours(10000))
     end)
 end)
+
+describe("build_game_result", function()
+    it("converts all play style times to hours", function()
+        local result = utils.build_game_result({
+            game_id = 1,
+            game_name = "Game",
+            comp_main = 3600,
+            comp_plus = 7200,
+            comp_100 = 10800,
+            comp_all = 5400,
+            invested_co = 1800,
+            invested_mp = 36000
+        })
+        assert.equals(1, result.game_id)
+        assert.equals("Game", result.game_name)
+        assert.equals(1.0, result.comp_main)
+        assert.equals(2.0, result.comp_plus)
+        assert.equals(3.0, result.comp_100)
+        assert.equals(1.5, result.comp_all)
+        assert.equals(0.5, result.invested_co)
+        assert.equals(10.0, result.invested_mp)
+    end)
+
+    it("passes submission counts through", function()
+        local result = utils.build_game_result({
+            comp_main_count = 120,
+            comp_plus_count = 45,
+            comp_100_count = 3,
+            comp_all_count = 168,
+            invested_co_count = 2,
+            invested_mp_count = 0
+        })
+        assert.equals(120, result.comp_main_count)
+        assert.equals(45, result.comp_plus_count)
+        assert.equals(3, result.comp_100_count)
+        assert.equals(168, result.comp_all_count)
+        assert.equals(2, result.invested_co_count)
+        assert.equals(0, result.invested_mp_count)
+    end)
+
+    it("defaults missing counts to 0", function()
+        local result = utils.build_game_result({ comp_main = 3600 })
+        assert.equals(0, result.comp_main_count)
+        assert.equals(0, result.invested_co_count)
+    end)
+
+    it("returns nil times for missing categories", function()
+        local result = utils.build_game_result({ comp_main = 3600, invested_co = 0 })
+        assert.is_nil(result.invested_co)
+        assert.is_nil(result.invested_mp)
+    end)
+
+    it("keeps the review score", function()
+        assert.equals(86, utils.build_game_result({ review_score = 86 }).review_score)
+    end)
+
+    it("returns nil review score when the game has no reviews", function()
+        assert.is_nil(utils.build_game_result({ review_score = 0 }).review_score)
+        assert.is_nil(utils.build_game_result({}).review_score)
+    end)
+end)
+
+describe("build_game_details", function()
+    it("includes the game result fields", function()
+        local details = utils.build_game_details({ game_id = 1, game_name = "Game", comp_main = 3600, review_score = 90 })
+        assert.equals(1, details.game_id)
+        assert.equals(1.0, details.comp_main)
+        assert.equals(90, details.review_score)
+    end)
+
+    it("adds release info and splits platform and genre lists", function()
+        local details = utils.build_game_details({
+            release_world = "2015-05-19",
+            profile_dev = "CD Projekt RED",
+            profile_pub = "",
+            profile_platform = "PC, PlayStation 4,Xbox One",
+            profile_genre = "Action, Role-Playing"
+        })
+        assert.equals("2015-05-19", details.release_date)
+        assert.equals("CD Projekt RED", details.developer)
+        assert.is_nil(details.publisher)
+        assert.same({ "PC", "PlayStation 4", "Xbox One" }, details.platforms)
+        assert.same({ "Action", "Role-Playing" }, details.genres)
+    end)
+
+    it("converts platform times and DLC from the page data", function()
+        local details = utils.build_game_details({}, {
+            platformData = {
+                { platform = "PC", comp_main = 7200, count_comp = 12 },
+                { comp_main = 3600 }
+            },
+            relationships = {
+                { game_id = 2, game_name = "Expansion", game_type = "expansion", comp_main = 36000 },
+                { game_name = "No ID" }
+            }
+        })
+        assert.equals(1, #details.platform_times)
+        assert.equals("PC", details.platform_times[1].platform)
+        assert.equals(2.0, details.platform_times[1].comp_main)
+        assert.equals(12, details.platform_times[1].count)
+        assert.equals(1, #details.dlc)
+        assert.equals("Expansion", details.dlc[1].game_name)
+        assert.equals("expansion", details.dlc[1].game_type)
+        assert.equals(10.0, details.dlc[1].comp_main)
+    end)
+
+    it("returns empty lists without page data", function()
+        local details = utils.build_game_details({})
+        assert.same({}, details.platform_times)
+        assert.same({}, details.dlc)
+        assert.same({}, details.platforms)
+    end)
+end)
+
+describe("build_dlc_list", function()
+    it("returns an empty list without relationships", function()
+        assert.same({}, utils.build_dlc_list(nil))
+        assert.same({}, utils.build_dlc_list({}))
+    end)
+
+    it("converts related entries and skips ones without an ID", function()
+        local dlc = utils.build_dlc_list({
+            relationships = {
+                { game_id = 2, game_name = "Expansion", comp_plus = 7200 },
+                { game_name = "No ID" }
+            }
+        })
+        assert.equals(1, #dlc)
+        assert.equals(2, dlc[1].game_id)
+        assert.equals(2.0, dlc[1].comp_plus)
+    end)
+end)
+
+describe("match_dlc", function()
+    local candidates = {
+        { game_id = 1, game_name = "The Witcher 3: Wild Hunt - Hearts of Stone" },
+        { game_id = 2, game_name = "The Witcher 3: Wild Hunt - Blood and Wine" }
+    }
+
+    it("matches names that repeat the base game's name", function()
+        local dlc, similarity = utils.match_dlc("The Witcher 3: Wild Hunt - Blood and Wine", "The Witcher 3: Wild Hunt", candidates)
+        assert.equals(2, dlc.game_id)
+        assert.equals(1.0, similarity)
+    end)
+
+    it("matches names without the base game's name", function()
+        local dlc = utils.match_dlc("Hearts of Stone", "The Witcher 3: Wild Hunt", candidates)
+        assert.equals(1, dlc.game_id)
+    end)
+
+    it("treats different dashes alike", function()
+        local dlc = utils.match_dlc("The Witcher 3: Wild Hunt – Blood and Wine", "The Witcher 3: Wild Hunt", candidates)
+        assert.equals(2, dlc.game_id)
+    end)
+
+    it("returns nil when no candidate is close enough", function()
+        assert.is_nil(utils.match_dlc("Soundtrack", "The Witcher 3: Wild Hunt", candidates))
+        assert.is_nil(utils.match_dlc("Blood and Wine", "The Witcher 3: Wild Hunt", {}))
+    end)
+end)
+
+describe("match_confidence", function()
+    it("returns 1.0 for exact name matches", function()
+        assert.equals(1.0, utils.match_confidence("exact", "Game", "Game"))
+    end)
+
+    it("returns 1.0 for Steam ID matches regardless of name", function()
+        assert.equals(1.0, utils.match_confidence("steam_id", "Game GOTY", "Game"))
+    end)
+
+    it("returns 1.0 for direct HLTB ID lookups", function()
+        assert.equals(1.0, utils.match_confidence("hltb_id"))
+    end)
+
+    it("returns name similarity for fuzzy matches", function()
+        local confidence = utils.match_confidence("levenshtein", "Dark Souls", "Dark Souls III")
+        assert.equals(utils.calculate_similarity("Dark Souls", "Dark Souls III"), confidence)
+        assert.is_true(confidence < 1.0)
+    end)
+
+    it("returns 0 for fuzzy matches without names", function()
+        assert.equals(0, utils.match_confidence("levenshtein", nil, "Game"))
+    end)
+end)
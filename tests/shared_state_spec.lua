@@ -0,0 +1,98 @@
+--[[
+    Shared State Unit Tests
+
+    Tests what the store pages get from the library: the published state
+    bundle and recorded lookup results, limited to changes since their last
+    call.
+
+    Run with: busted tests/shared_state_spec.lua
+]]
+
+package.path = package.path .. ";backend/?.lua"
+
+describe("shared_state", function()
+    local shared_state
+    local real_time = os.time
+    local clock
+
+    before_each(function()
+        clock = 1000
+        os.time = function() return clock end
+        package.loaded["shared_state"] = nil
+        shared_state = require("shared_state")
+    end)
+
+    after_each(function()
+        os.time = real_time
+    end)
+
+    describe("get_changes", function()
+        it("returns nothing before the library publishes", function()
+            local changes = shared_state.get_changes(0)
+            assert.is_nil(changes.state)
+            assert.are.same({}, changes.results)
+            assert.are.equal(1000000, changes.now)
+        end)
+
+        it("returns the published state the first time", function()
+            shared_state.set_state('{"format":"hltb-millennium-backup"}')
+            assert.are.equal('{"format":"hltb-millennium-backup"}', shared_state.get_changes(0).state)
+        end)
+
+        it("leaves out state published before `since`", function()
+            shared_state.set_state("{}")
+            local first = shared_state.get_changes(0)
+
+            clock = clock + 5
+            assert.is_nil(shared_state.get_changes(first.now + 1000).state)
+        end)
+
+        it("returns state published again after `since`", function()
+            shared_state.set_state("{}")
+            local first = shared_state.get_changes(0)
+
+            clock = clock + 5
+            shared_state.set_state('{"version":1}')
+            assert.are.equal('{"version":1}', shared_state.get_changes(first.now).state)
+        end)
+
+        it("returns recorded results as cache entries keyed by app ID", function()
+            shared_state.record_result(620, { game_id = 2323, comp_main = 8.5 })
+
+            local entry = shared_state.get_changes(0).results["620"]
+            assert.are.equal(2323, entry.data.game_id)
+            assert.are.equal(1000000, entry.timestamp)
+            assert.is_false(entry.notFound)
+        end)
+
+        it("only returns results recorded at or after `since`", function()
+            shared_state.record_result(620, { game_id = 2323 })
+            clock = clock + 10
+            shared_state.record_result(400, { searched_name = "Portal" })
+
+            local results = shared_state.get_changes(1010000).results
+            assert.is_nil(results["620"])
+            assert.are.equal("Portal", results["400"].data.searched_name)
+        end)
+
+        it("keeps the latest result per app", function()
+            shared_state.record_result(620, { game_id = 1 })
+            clock = clock + 1
+            shared_state.record_result(620, { game_id = 2 })
+
+            assert.are.equal(2, shared_state.get_changes(0).results["620"].data.game_id)
+        end)
+    end)
+
+    describe("clear_cache", function()
+        it("forgets the state and results", function()
+            shared_state.set_state("{}")
+            shared_state.record_result(620, { game_id = 2323 })
+            shared_state.clear_cache()
+
+            local changes = shared_state.get_changes(0)
+            assert.is_nil(changes.state)
+            assert.are.same({}, changes.results)
+        end)
+    end)
+end)
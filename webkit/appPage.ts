@@ -0,0 +1,92 @@
+import type { HltbError } from '../frontend/types';
+import { log } from '../frontend/services/logger';
+import { fetchHltbData, refetchHltbData } from '../frontend/services/hltbApi';
+import { buildDiagnostics, copyDiagnostics } from '../frontend/services/diagnostics';
+import { getCacheStatus } from '../frontend/services/connectivity';
+import { getCache } from '../frontend/services/cache';
+import { getSettings } from '../frontend/services/settings';
+import { createDisplay, getExistingDisplay } from '../frontend/display/components';
+
+const WRAPPER_CLASS = 'hltb-store';
+const APP_PATH_PATTERN = /^\/app\/(\d+)/;
+
+// Where the box goes, in order of preference: above the purchase options,
+// or at the top of the description column on pages without any
+const ANCHORS: Array<{ selector: string; position: InsertPosition }> = [
+  { selector: '#game_area_purchase', position: 'beforebegin' },
+  { selector: '.game_description_column', position: 'afterbegin' },
+  { selector: '.leftcol', position: 'afterbegin' },
+];
+
+let currentAppId: number | null = null;
+
+export function getStoreAppId(doc: Document): number | null {
+  const match = doc.location.pathname.match(APP_PATH_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function insertWrapper(doc: Document): HTMLElement | null {
+  for (const { selector, position } of ANCHORS) {
+    const anchor = doc.querySelector(selector);
+    if (!anchor) continue;
+
+    const wrapper = doc.createElement('div');
+    wrapper.className = WRAPPER_CLASS;
+    anchor.insertAdjacentElement(position, wrapper);
+    return wrapper;
+  }
+  return null;
+}
+
+async function updateDisplay(doc: Document, appId: number): Promise<boolean> {
+  const cached = await getCache(appId);
+  const data = cached?.entry.data;
+  const existing = getExistingDisplay(doc);
+  if (!cached || !data || !existing || currentAppId !== appId) return false;
+
+  existing.replaceWith(createDisplay(doc, getSettings(), { ...data, ...getCacheStatus(cached) }));
+  return true;
+}
+
+function showError(doc: Document, appId: number, error: HltbError): void {
+  const existing = getExistingDisplay(doc);
+  if (!existing || currentAppId !== appId) return;
+
+  const actions = {
+    onRetry: () => retry(doc, appId),
+    onCopyDiagnostics: async () => copyDiagnostics(await buildDiagnostics(appId, { error })),
+  };
+  existing.replaceWith(createDisplay(doc, getSettings(), undefined, actions, error));
+}
+
+async function retry(doc: Document, appId: number): Promise<void> {
+  getExistingDisplay(doc)?.replaceWith(createDisplay(doc, getSettings())); // undefined data = loading state
+  const result = await refetchHltbData(appId);
+  if (result.error) {
+    showError(doc, appId, result.error);
+  } else {
+    await updateDisplay(doc, appId);
+  }
+}
+
+/**
+ * Shows the HLTB box on a store app page. Safe to call on every DOM change;
+ * it only does work when the box is missing.
+ */
+export async function handleStoreAppPage(doc: Document): Promise<void> {
+  const appId = getStoreAppId(doc);
+  if (!appId || getExistingDisplay(doc)) return;
+
+  const wrapper = insertWrapper(doc);
+  if (!wrapper) return;
+
+  currentAppId = appId;
+  log('Found store page for appId:', appId);
+  wrapper.appendChild(createDisplay(doc, getSettings())); // undefined data = loading state
+
+  const result = await fetchHltbData(appId);
+  if (!(await updateDisplay(doc, appId)) && result.error) {
+    showError(doc, appId, result.error);
+  }
+  result.refreshPromise?.then(() => updateDisplay(doc, appId));
+}
@@ -0,0 +1,62 @@
+/**
+ * Store Entry Point
+ *
+ * Runs inside the Steam client's store browser view, separately from the
+ * library UI in frontend/index.tsx. It has its own observer, so a Steam
+ * store change can't break the library display or the other way round.
+ *
+ * Store pages are a different origin from the library, so they have their
+ * own storage. On load, the library's settings, caches and matches and the
+ * backend's recent results are copied into it (see sharedState.ts), so the
+ * store shows what the library already looked up, the way the user set it.
+ */
+
+import { callable } from '@steambrew/webkit';
+import { installCallable } from '../frontend/services/rpc';
+import { log, logError } from '../frontend/services/logger';
+import { getSettings } from '../frontend/services/settings';
+import { importSharedState } from '../frontend/services/sharedState';
+import { injectStyles } from '../frontend/display/styles';
+import { injectStoreStyles } from './styles';
+import { handleStoreAppPage, getStoreAppId } from './appPage';
+import { handleWishlistPage, isWishlistPage } from './wishlist';
+
+const STORE_HOST = 'store.steampowered.com';
+const SCAN_DELAY = 250;
+
+function handlePage(doc: Document): void {
+  // Each injector fails on its own
+  if (getStoreAppId(doc)) {
+    handleStoreAppPage(doc).catch((e) => logError('Store page error:', e));
+  }
+  if (isWishlistPage(doc)) {
+    try {
+      handleWishlistPage(doc);
+    } catch (e) {
+      logError('Wishlist error:', e);
+    }
+  }
+}
+
+export default async function WebkitMain() {
+  if (location.hostname !== STORE_HOST) return;
+  if (!getStoreAppId(document) && !isWishlistPage(document)) return;
+
+  log('Store integration loading on', location.pathname);
+  installCallable(callable);
+  // Without it the store's own caches and settings are used
+  await importSharedState();
+  injectStyles(document, getSettings());
+  injectStoreStyles(document);
+
+  let scanTimer: ReturnType<typeof setTimeout> | null = null;
+  new MutationObserver(() => {
+    if (scanTimer) return;
+    scanTimer = setTimeout(() => {
+      scanTimer = null;
+      handlePage(document);
+    }, SCAN_DELAY);
+  }).observe(document.body, { childList: true, subtree: true });
+
+  handlePage(document);
+}
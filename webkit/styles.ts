@@ -0,0 +1,34 @@
+const STORE_STYLES = `
+.hltb-store {
+  margin-bottom: 16px;
+}
+
+.hltb-store #hltb-for-millennium {
+  position: static;
+  width: auto;
+}
+
+.hltb-inline {
+  display: block;
+  margin-top: 2px;
+  font-size: 12px;
+  color: #c6d4df;
+}
+
+.hltb-inline .hltb-label {
+  text-transform: uppercase;
+  font-size: 10px;
+  opacity: 0.7;
+}
+`;
+
+const STYLE_ID = 'hltb-store-styles';
+
+export function injectStoreStyles(doc: Document): void {
+  if (doc.getElementById(STYLE_ID)) return;
+
+  const style = doc.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = STORE_STYLES;
+  doc.head.appendChild(style);
+}
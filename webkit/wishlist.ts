@@ -0,0 +1,100 @@
+import { log } from '../frontend/services/logger';
+import { fetchHltbData } from '../frontend/services/hltbApi';
+import { getSettings } from '../frontend/services/settings';
+import { createInlineTimes } from '../frontend/display/components';
+import type { HltbGameResult } from '../frontend/types';
+
+const APP_LINK_SELECTOR = 'a[href*="/app/"]';
+const APP_LINK_PATTERN = /\/app\/(\d+)/;
+const APP_ID_ATTRIBUTE = 'data-hltb-appid';
+const FETCH_INTERVAL = 500; // ms between backend calls
+
+// Every app looked up on this page, found or not; each is looked up only once
+const seenAppIds = new Set<number>();
+// Matches found on this page, put back on rows the page re-renders
+const foundResults = new Map<number, HltbGameResult>();
+const queue: number[] = [];
+let processing = false;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function isWishlistPage(doc: Document): boolean {
+  return doc.location.pathname.startsWith('/wishlist');
+}
+
+// Title links of wishlist rows; capsule links wrap an image instead of text
+function findTitleLinks(doc: Document): Array<{ link: HTMLAnchorElement; appId: number }> {
+  const links: Array<{ link: HTMLAnchorElement; appId: number }> = [];
+  for (const link of Array.from(doc.querySelectorAll<HTMLAnchorElement>(APP_LINK_SELECTOR))) {
+    const match = link.getAttribute('href')?.match(APP_LINK_PATTERN);
+    if (match && !link.querySelector('img') && link.textContent?.trim()) {
+      links.push({ link, appId: parseInt(match[1], 10) });
+    }
+  }
+  return links;
+}
+
+function hasTimes(link: HTMLAnchorElement, appId: number): boolean {
+  return link.nextElementSibling?.getAttribute(APP_ID_ATTRIBUTE) === String(appId);
+}
+
+function renderTimes(doc: Document, appId: number, data: HltbGameResult | null): void {
+  if (!data?.game_id) return;
+  foundResults.set(appId, data);
+
+  const settings = getSettings();
+  for (const { link, appId: linkAppId } of findTitleLinks(doc)) {
+    if (linkAppId !== appId || hasTimes(link, appId)) continue;
+
+    const times = createInlineTimes(doc, settings, data);
+    times.setAttribute(APP_ID_ATTRIBUTE, String(appId));
+    link.insertAdjacentElement('afterend', times);
+  }
+}
+
+async function processQueue(doc: Document): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    while (queue.length > 0) {
+      const appId = queue.shift()!;
+      const result = await fetchHltbData(appId);
+      renderTimes(doc, appId, result.data);
+
+      // Fresh cached results are free; lookups and background refreshes of
+      // stale entries and misses both reach the backend, so space them out
+      if (result.refreshPromise) renderTimes(doc, appId, await result.refreshPromise);
+      if (!result.fromCache || result.refreshPromise) await sleep(FETCH_INTERVAL);
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Adds HLTB times under each wishlist row title. Rows load as the list
+ * scrolls, so this runs on every DOM change and only queues apps not seen
+ * before; rows the page re-renders get the times found earlier.
+ */
+export function handleWishlistPage(doc: Document): void {
+  let added = 0;
+  for (const { link, appId } of findTitleLinks(doc)) {
+    if (hasTimes(link, appId)) continue;
+    const found = foundResults.get(appId);
+    if (found) {
+      renderTimes(doc, appId, found);
+      continue;
+    }
+    if (seenAppIds.has(appId)) continue;
+    seenAppIds.add(appId);
+    queue.push(appId);
+    added++;
+  }
+
+  if (added > 0) {
+    log('Queued', added, 'wishlist rows');
+    processQueue(doc);
+  }
+}